@@ -0,0 +1,163 @@
+import { MarkdownBlock, MarkdownBlockType, parseMarkdownBlocks } from '../shared/markdownBlocks'
+
+// 双语 Markdown：每个可翻译的原文块之后紧跟其译文，Front Matter 和代码块只输出一份（译文）
+// 译文不额外加标记，重新同步时按原文块依次定位，两个原文块之间的内容即为前一块的译文
+
+export const TRANSLATION_PLACEHOLDER = '{translation}'
+
+// 原文与译文成对输出的块类型，其余类型只输出译文
+const PAIRED_TYPES: MarkdownBlockType[] = [
+  'heading',
+  'paragraph',
+  'list',
+  'blockquote',
+  'table',
+  'html'
+]
+
+const isPaired = (block: MarkdownBlock): boolean => PAIRED_TYPES.includes(block.type)
+
+// 包裹译文的模板拆分为前后两部分（去掉紧挨占位符的空白），模板中没有占位符时不包裹
+function splitWrapper(wrapper?: string): [string, string] | null {
+  const index = wrapper ? wrapper.indexOf(TRANSLATION_PLACEHOLDER) : -1
+  return index === -1
+    ? null
+    : [
+        wrapper!.slice(0, index).trimEnd(),
+        wrapper!.slice(index + TRANSLATION_PLACEHOLDER.length).trimStart()
+      ]
+}
+
+// 标签与译文之间各空一行，译文中的标题、列表等块级语法在 HTML/MDX 标签内才能正常解析
+function wrapTranslation(translation: string, parts: [string, string]): string {
+  return [parts[0], translation, parts[1]].filter(Boolean).join('\n\n')
+}
+
+// wrapTranslation 的逆操作，文本不在包裹内时原样返回
+function unwrapTranslation(text: string, parts: [string, string]): string {
+  if (
+    text.length < parts[0].length + parts[1].length ||
+    !text.startsWith(parts[0]) ||
+    !text.endsWith(parts[1])
+  ) {
+    return text
+  }
+  return text
+    .slice(parts[0].length, text.length - parts[1].length)
+    .replace(/^\s*\n/, '')
+    .replace(/\n\s*$/, '')
+}
+
+/**
+ * 按原文块和逐块对应的译文生成双语 Markdown
+ * 译文与原文相同的块（如没有可翻译文字的块）只输出一次
+ * wrapper 为包裹译文的 HTML/MDX 模板，{translation} 处替换为译文，标签与译文之间各空一行
+ * 最后一块沿用原文末尾的空白，不额外增加空行
+ */
+export function joinBilingualBlocks(
+  blocks: MarkdownBlock[],
+  translations: string[],
+  wrapper?: string
+): string {
+  const parts = splitWrapper(wrapper)
+
+  return blocks
+    .map((block, index) => {
+      const translation = translations[index]
+      if (!isPaired(block)) {
+        return translation + block.separator
+      }
+      if (translation.trim() === block.content.trim()) {
+        return block.content + block.separator
+      }
+
+      // 译文之后至少保留一个空行，避免与下一个原文块连成同一段
+      const separator =
+        index === blocks.length - 1 || /\n[ \t]*\n/.test(block.separator)
+          ? block.separator
+          : '\n' + block.separator
+      const wrapped = parts ? wrapTranslation(translation, parts) : translation
+      return `${block.content}\n\n${wrapped}${separator}`
+    })
+    .join('')
+}
+
+/**
+ * 从双语 Markdown 中取出与原文块逐块对应的译文，是 joinBilingualBlocks 的逆操作
+ * 没有译文的原文块返回原文；找不到某个原文块（原文或文件结构已变化）时返回 null
+ */
+export function splitBilingualText(
+  blocks: MarkdownBlock[],
+  text: string,
+  wrapper?: string
+): string[] | null {
+  const parts = splitWrapper(wrapper)
+  const fileBlocks = parseMarkdownBlocks(text)
+  const translations: string[] = []
+  let position = 0
+
+  // 查找下一个原文块在文件中的位置：成对输出的块按内容匹配，其余块按类型匹配
+  const findNext = (block: MarkdownBlock, from: number): number => {
+    for (let i = from; i < fileBlocks.length; i++) {
+      if (
+        isPaired(block)
+          ? fileBlocks[i].content === block.content
+          : fileBlocks[i].type === block.type
+      ) {
+        return i
+      }
+    }
+    return -1
+  }
+
+  for (const [index, block] of blocks.entries()) {
+    if (
+      position >= fileBlocks.length ||
+      (isPaired(block) && fileBlocks[position].content !== block.content)
+    ) {
+      return null
+    }
+    if (!isPaired(block)) {
+      if (fileBlocks[position].type !== block.type) return null
+      translations.push(fileBlocks[position].content)
+      position++
+      continue
+    }
+
+    // 当前原文块与下一个原文块之间的内容为译文
+    const next =
+      index + 1 < blocks.length ? findNext(blocks[index + 1], position + 1) : fileBlocks.length
+    if (next === -1) return null
+
+    const between = fileBlocks.slice(position + 1, next)
+    if (between.length === 0) {
+      translations.push(block.content)
+    } else {
+      const last = between[between.length - 1]
+      const translation =
+        between
+          .slice(0, -1)
+          .map((item) => item.content + item.separator)
+          .join('') + last.content
+      translations.push(parts ? unwrapTranslation(translation, parts) : translation)
+    }
+    position = next
+  }
+
+  return position === fileBlocks.length ? translations : null
+}
+
+/**
+ * 将双语 Markdown 还原为只有译文的文档，无法对应原文时返回 null
+ */
+export function extractBilingualTranslation(
+  source: string,
+  text: string,
+  wrapper?: string
+): string | null {
+  const blocks = parseMarkdownBlocks(source)
+  const translations = splitBilingualText(blocks, text, wrapper)
+  return translations
+    ? blocks.map((block, index) => translations[index] + block.separator).join('')
+    : null
+}
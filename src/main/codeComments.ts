@@ -0,0 +1,203 @@
+// 代码中需要翻译的注释
+// line 为连续的整行注释（合并为一段翻译），inline 为代码行尾的注释，docstring 为 Python 文档字符串
+export interface CodeComment {
+  kind: 'line' | 'inline' | 'docstring'
+  start: number // 替换范围 [start, end) 在代码中的偏移
+  end: number
+  text: string // 交给模型翻译的文本
+  indent: string // line 为每行的前缀（缩进和 # 号），docstring 为续行的缩进
+}
+
+// 使用 # 作为行注释的语言
+const HASH_COMMENT_LANGUAGES = ['python', 'r', 'julia', 'bash', 'sh', 'shell', 'ruby', 'perl']
+
+// 不翻译的特殊注释：shebang、编码声明、单元格分隔标记，以及给工具看的指令
+const SPECIAL_COMMENT_REGEX =
+  /^(!|\s*-\*-|\s*%%|\s*(type|noqa|pragma|pylint|fmt|isort|mypy|highlight-[\w-]+)\b)/i
+
+// 是否支持翻译该语言的代码注释
+export function supportsCommentTranslation(language: string): boolean {
+  return HASH_COMMENT_LANGUAGES.includes(language.toLowerCase())
+}
+
+const hasLetters = (text: string): boolean => /\p{L}/u.test(text)
+
+function getLineStart(code: string, index: number): number {
+  return code.lastIndexOf('\n', index - 1) + 1
+}
+
+function getLineEnd(code: string, index: number): number {
+  const end = code.indexOf('\n', index)
+  return end === -1 ? code.length : end
+}
+
+// 跳过单行字符串，返回结束引号之后的位置
+function skipString(code: string, start: number, quote: string): number {
+  for (let i = start + 1; i < code.length; i++) {
+    if (code[i] === '\\') {
+      i++
+    } else if (code[i] === quote || code[i] === '\n') {
+      return i + 1
+    }
+  }
+  return code.length
+}
+
+// 去掉续行的公共缩进，返回去掉后的文本和缩进
+function dedentContinuation(text: string): { text: string; indent: string } {
+  const lines = text.split('\n')
+  const indents = lines
+    .slice(1)
+    .filter((line) => line.trim() !== '')
+    .map((line) => line.match(/^\s*/)![0])
+  const indent = indents.reduce((common, current) => {
+    let length = 0
+    while (length < common.length && common[length] === current[length]) length++
+    return common.slice(0, length)
+  }, indents[0] || '')
+  return {
+    text: lines
+      .map((line, index) =>
+        index > 0 && line.startsWith(indent) ? line.slice(indent.length) : line
+      )
+      .join('\n'),
+    indent
+  }
+}
+
+/**
+ * 找出代码中需要翻译的注释：# 行注释（字符串中的 # 除外），Python 还包括独占一行的三引号文档字符串
+ * 不支持的语言返回空数组
+ */
+export function extractCodeComments(code: string, language: string): CodeComment[] {
+  if (!supportsCommentTranslation(language)) return []
+
+  const isPython = language.toLowerCase() === 'python'
+  const comments: CodeComment[] = []
+  let i = 0
+
+  while (i < code.length) {
+    const char = code[i]
+    const lineStart = getLineStart(code, i)
+    const isLineHead = code.slice(lineStart, i).trim() === ''
+
+    if (isPython && (code.startsWith('"""', i) || code.startsWith("'''", i))) {
+      const quote = code.slice(i, i + 3)
+      const closing = code.indexOf(quote, i + 3)
+      const end = closing === -1 ? code.length : closing + 3
+      const rest = code.slice(end, getLineEnd(code, end))
+
+      // 独占一行（之后只有空白或注释）的字符串视为文档字符串
+      if (closing !== -1 && isLineHead && /^\s*(#.*)?$/.test(rest)) {
+        const inner = code.slice(i + 3, closing)
+        const leading = inner.match(/^\s*/)![0]
+        const trailing = inner.slice(leading.length).match(/\s*$/)![0]
+        const body = inner.slice(leading.length, inner.length - trailing.length)
+        if (hasLetters(body)) {
+          const dedented = dedentContinuation(body)
+          comments.push({
+            kind: 'docstring',
+            start: i + 3 + leading.length,
+            end: closing - trailing.length,
+            text: dedented.text,
+            indent: dedented.indent
+          })
+        }
+      }
+      i = end
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      i = skipString(code, i, char)
+      continue
+    }
+
+    // 行首或空白之后的 # 才是注释，避免误判 bash 中的 $# 等写法
+    if (char === '#' && (i === 0 || /\s/.test(code[i - 1]))) {
+      const lineEnd = getLineEnd(code, i)
+      const content = code.slice(i + 1, lineEnd)
+      const textOffset = i + 1 + content.match(/^\s*/)![0].length
+      const text = code.slice(textOffset, lineEnd).trimEnd()
+
+      if (!SPECIAL_COMMENT_REGEX.test(content) && hasLetters(text)) {
+        const previous = comments[comments.length - 1]
+        const prefix = code.slice(lineStart, textOffset)
+
+        if (!isLineHead) {
+          comments.push({
+            kind: 'inline',
+            start: textOffset,
+            end: textOffset + text.length,
+            text,
+            indent: ''
+          })
+        } else if (
+          previous?.kind === 'line' &&
+          previous.indent === prefix &&
+          getLineEnd(code, previous.end) === lineStart - 1
+        ) {
+          // 紧接上一行且前缀相同的整行注释合并为一段
+          previous.end = textOffset + text.length
+          previous.text += '\n' + text
+        } else {
+          comments.push({
+            kind: 'line',
+            start: lineStart,
+            end: textOffset + text.length,
+            text,
+            indent: prefix
+          })
+        }
+      }
+      i = lineEnd
+      continue
+    }
+
+    i++
+  }
+
+  return comments
+}
+
+function formatTranslation(comment: CodeComment, translation: string): string | null {
+  switch (comment.kind) {
+    case 'line':
+      return translation
+        .split('\n')
+        .map((line) => (comment.indent + line).trimEnd())
+        .join('\n')
+    case 'inline':
+      return translation.replace(/\s*\n\s*/g, ' ')
+    case 'docstring': {
+      // 译文中出现三引号会提前结束字符串，保留原文
+      if (translation.includes('"""') || translation.includes("'''")) return null
+      return translation
+        .split('\n')
+        .map((line, index) => (index > 0 && line ? comment.indent + line : line))
+        .join('\n')
+    }
+  }
+}
+
+/**
+ * 用译文替换代码中的注释，translations[i] 为 comments[i] 的译文，代码本身保持不变
+ */
+export function applyCommentTranslations(
+  code: string,
+  comments: CodeComment[],
+  translations: string[]
+): string {
+  let result = code
+  // 从后往前替换，前面注释的偏移不受影响
+  for (let index = comments.length - 1; index >= 0; index--) {
+    const comment = comments[index]
+    const translation = translations[index]?.trim()
+    if (!translation) continue
+
+    const replacement = formatTranslation(comment, translation)
+    if (replacement === null) continue
+    result = result.slice(0, comment.start) + replacement + result.slice(comment.end)
+  }
+  return result
+}
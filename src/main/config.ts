@@ -3,6 +3,7 @@ import { join } from 'path'
 import { promises as fs } from 'fs'
 import { exec } from 'child_process'
 import { promisify } from 'util'
+import { isIdentityTemplate } from './pathMapping'
 
 const execAsync = promisify(exec)
 const CONFIG_FILE = 'opendoc-config.json'
@@ -18,6 +19,36 @@ export interface ProjectConfig {
   fileTypes: string[]
   lastSyncHash?: string
   customPrompt?: string
+  targetPathTemplate?: string // 译文路径模板，为空时原地覆盖原文
+  sourceLanguage?: string // 原文语言代码，默认 en
+  targetLanguages?: string[] // 目标语言代码列表，默认 ['zh-CN']
+  activeLanguage?: string // 当前正在处理的目标语言
+  llmConfig?: ProjectLLMConfig // 项目单独使用的 LLM 服务，未设置的项沿用全局配置
+  glossary?: GlossaryEntry[] // 项目术语表
+  frontMatterKeys?: string[] // Front Matter 中需要翻译的字段，默认为 DEFAULT_FRONT_MATTER_KEYS
+  translateCodeComments?: boolean // 翻译 Notebook 代码单元格中的注释和文档字符串
+  bilingualNotebooks?: boolean // Notebook 译文保留原文单元格，每个 markdown 单元格后紧跟其译文
+  bilingualMarkdown?: boolean // Markdown 译文逐块双语对照，每个原文块后紧跟其译文
+  bilingualWrapper?: string // 双语 Markdown 中包裹译文的 HTML/MDX 模板，{translation} 处替换为译文，为空时不包裹
+}
+
+// 术语表条目：doNotTranslate 为 true 时术语保持原文不翻译
+export interface GlossaryEntry {
+  term: string
+  translation: string
+  doNotTranslate?: boolean
+  caseSensitive?: boolean
+  language?: string // 只对该目标语言生效，为空时对所有目标语言生效
+}
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'azure' | 'ollama'
+
+export interface ProjectLLMConfig {
+  provider?: LLMProviderType
+  apiKey?: string
+  model?: string
+  baseUrl?: string
+  apiVersion?: string
 }
 
 export interface PromptTemplate {
@@ -33,17 +64,79 @@ export interface AppConfig {
   projects: ProjectConfig[]
   activeProjectPath?: string
   llmConfig: {
+    provider?: LLMProviderType // 服务类型，默认 openai
     apiKey: string
     model: string
     baseUrl?: string
+    apiVersion?: string // Azure OpenAI 的 API 版本
     temperature?: number
     maxTokens?: number
     concurrency?: number
+    chunkSize?: number // 长文档分块翻译时每块的最大字符数
+    chunkRetries?: number // 单个分块翻译失败后的重试次数
+    requestsPerMinute?: number // 每分钟最多请求数，未设置时不限制
+    tokensPerMinute?: number // 每分钟最多 token 数，未设置时不限制
+    maxRetries?: number // 限流或网络错误时的最大重试次数
   }
   globalPrompt: string
   promptTemplates?: PromptTemplate[]
 }
 
+export const DEFAULT_SOURCE_LANGUAGE = 'en'
+export const DEFAULT_TARGET_LANGUAGE = 'zh-CN'
+export const DEFAULT_FRONT_MATTER_KEYS = ['title', 'description', 'sidebar_label']
+
+// 常用语言代码对应的名称，用于替换提示词中的 {sourceLang}/{targetLang}
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: '英文',
+  'zh-CN': '简体中文',
+  'zh-TW': '繁体中文',
+  ja: '日语',
+  ko: '韩语',
+  fr: '法语',
+  de: '德语',
+  es: '西班牙语',
+  pt: '葡萄牙语',
+  ru: '俄语'
+}
+
+export function getLanguageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code
+}
+
+export function getSourceLanguage(project?: ProjectConfig): string {
+  return project?.sourceLanguage || DEFAULT_SOURCE_LANGUAGE
+}
+
+export function getTargetLanguages(project?: ProjectConfig): string[] {
+  return project?.targetLanguages && project.targetLanguages.length > 0
+    ? project.targetLanguages
+    : [DEFAULT_TARGET_LANGUAGE]
+}
+
+export function getFrontMatterKeys(project?: ProjectConfig): string[] {
+  return project?.frontMatterKeys && project.frontMatterKeys.length > 0
+    ? project.frontMatterKeys
+    : DEFAULT_FRONT_MATTER_KEYS
+}
+
+// 获取项目当前的目标语言，未设置或已不在列表中时使用第一个目标语言
+export function getActiveLanguage(project?: ProjectConfig): string {
+  const languages = getTargetLanguages(project)
+  return project?.activeLanguage && languages.includes(project.activeLanguage)
+    ? project.activeLanguage
+    : languages[0]
+}
+
+// 旧版本的默认提示词固定为英译中，由当前默认提示词替换语言变量还原，用于识别用户未修改过的旧默认提示词
+function toLegacyPrompt(prompt: string): string {
+  return prompt
+    .replace('精通{sourceLang}和{targetLang}', '精通中英双语')
+    .replace(/\{targetLang\}技术文档/g, '中文技术文档')
+    .replace(/\{sourceLang\}/g, '英文')
+    .replace(/\{targetLang\}/g, '简体中文')
+}
+
 export class ConfigManager {
   private configPath: string
   private config: AppConfig
@@ -64,12 +157,14 @@ export class ConfigManager {
         baseUrl: 'https://openrouter.ai/api/v1',
         concurrency: 3
       },
-      globalPrompt: '你是一位精通中英双语的专业技术文档翻译专家。你的任务是将以下英文技术文档翻译成简体中文。\n在翻译过程中，请严格遵守以下规则：\n忠于原文，力求信、达、雅：\n准确性 (信)：翻译必须准确传达原文的技术信息和意图，不能有任何歪曲或遗漏。\n流畅性 (达)：译文应流畅自然，符合中文技术文档的表达习惯。对于原文中过于拗口的句子，可以在保证准确性的前提下进行适当的意译，使其更易于理解。\n专业性 (雅)：使用行业内公认的、标准的专业术语。\n格式与结构：\n严格保留原文的 Markdown 格式，包括但不限于标题（#）、列表（-、*、1.）、粗体（**）、斜体（*）、代码块（```）、行内代码（``）等。\n保持段落、换行和整体布局与原文一致。\n内容处理规则：\n需要翻译的内容：\n正文段落、标题、列表项、表格内容等。\n代码块（```）和行内代码（``）中的注释。例如，// Get user data 应翻译为 // 获取用户数据。\n不需要翻译的内容：\n代码本身，包括变量名、函数名、类名、模块名、属性等。例如，const userName = \'test\'; 应保持不变。\n代码注释中的特殊标记：这些通常是给文档工具或代码检查工具看的，必须原样保留。例如：# highlight-start, # highlight-end, # highlight-next-line, // @ts-ignore, eslint-disable-next-line, prettier-ignore 等。\n输出要求：\n只输出翻译后的内容。\n禁止在译文的开头或结尾添加任何额外说明、介绍、总结或致谢等文字。例如，不要说"这是您的翻译："或"翻译完成。"。',
+      globalPrompt:
+        '你是一位精通{sourceLang}和{targetLang}的专业技术文档翻译专家。你的任务是将以下{sourceLang}技术文档翻译成{targetLang}。\n在翻译过程中，请严格遵守以下规则：\n忠于原文，力求信、达、雅：\n准确性 (信)：翻译必须准确传达原文的技术信息和意图，不能有任何歪曲或遗漏。\n流畅性 (达)：译文应流畅自然，符合{targetLang}技术文档的表达习惯。对于原文中过于拗口的句子，可以在保证准确性的前提下进行适当的意译，使其更易于理解。\n专业性 (雅)：使用行业内公认的、标准的专业术语。\n格式与结构：\n严格保留原文的 Markdown 格式，包括但不限于标题（#）、列表（-、*、1.）、粗体（**）、斜体（*）、代码块（```）、行内代码（``）等。\n保持段落、换行和整体布局与原文一致。\n内容处理规则：\n需要翻译的内容：\n正文段落、标题、列表项、表格内容等。\n代码块（```）和行内代码（``）中的注释。例如，// Get user data 应翻译为 // 获取用户数据。\n不需要翻译的内容：\n代码本身，包括变量名、函数名、类名、模块名、属性等。例如，const userName = \'test\'; 应保持不变。\n代码注释中的特殊标记：这些通常是给文档工具或代码检查工具看的，必须原样保留。例如：# highlight-start, # highlight-end, # highlight-next-line, // @ts-ignore, eslint-disable-next-line, prettier-ignore 等。\n输出要求：\n只输出翻译后的内容。\n禁止在译文的开头或结尾添加任何额外说明、介绍、总结或致谢等文字。例如，不要说"这是您的翻译："或"翻译完成。"。',
       promptTemplates: [
         {
           id: 'tech-doc-professional',
           name: '专业技术文档翻译',
-          content: '你是一位精通中英双语的专业技术文档翻译专家。你的任务是将以下英文技术文档翻译成简体中文。\n在翻译过程中，请严格遵守以下规则：\n忠于原文，力求信、达、雅：\n准确性 (信)：翻译必须准确传达原文的技术信息和意图，不能有任何歪曲或遗漏。\n流畅性 (达)：译文应流畅自然，符合中文技术文档的表达习惯。对于原文中过于拗口的句子，可以在保证准确性的前提下进行适当的意译，使其更易于理解。\n专业性 (雅)：使用行业内公认的、标准的专业术语。\n格式与结构：\n严格保留原文的 Markdown 格式，包括但不限于标题（#）、列表（-、*、1.）、粗体（**）、斜体（*）、代码块（```）、行内代码（``）等。\n保持段落、换行和整体布局与原文一致。\n内容处理规则：\n需要翻译的内容：\n正文段落、标题、列表项、表格内容等。\n代码块（```）和行内代码（``）中的注释。例如，// Get user data 应翻译为 // 获取用户数据。\n不需要翻译的内容：\n代码本身，包括变量名、函数名、类名、模块名、属性等。例如，const userName = \'test\'; 应保持不变。\n代码注释中的特殊标记：这些通常是给文档工具或代码检查工具看的，必须原样保留。例如：# highlight-start, # highlight-end, # highlight-next-line, // @ts-ignore, eslint-disable-next-line, prettier-ignore 等。\n输出要求：\n只输出翻译后的内容。\n禁止在译文的开头或结尾添加任何额外说明、介绍、总结或致谢等文字。例如，不要说"这是您的翻译："或"翻译完成。"。',
+          content:
+            '你是一位精通{sourceLang}和{targetLang}的专业技术文档翻译专家。你的任务是将以下{sourceLang}技术文档翻译成{targetLang}。\n在翻译过程中，请严格遵守以下规则：\n忠于原文，力求信、达、雅：\n准确性 (信)：翻译必须准确传达原文的技术信息和意图，不能有任何歪曲或遗漏。\n流畅性 (达)：译文应流畅自然，符合{targetLang}技术文档的表达习惯。对于原文中过于拗口的句子，可以在保证准确性的前提下进行适当的意译，使其更易于理解。\n专业性 (雅)：使用行业内公认的、标准的专业术语。\n格式与结构：\n严格保留原文的 Markdown 格式，包括但不限于标题（#）、列表（-、*、1.）、粗体（**）、斜体（*）、代码块（```）、行内代码（``）等。\n保持段落、换行和整体布局与原文一致。\n内容处理规则：\n需要翻译的内容：\n正文段落、标题、列表项、表格内容等。\n代码块（```）和行内代码（``）中的注释。例如，// Get user data 应翻译为 // 获取用户数据。\n不需要翻译的内容：\n代码本身，包括变量名、函数名、类名、模块名、属性等。例如，const userName = \'test\'; 应保持不变。\n代码注释中的特殊标记：这些通常是给文档工具或代码检查工具看的，必须原样保留。例如：# highlight-start, # highlight-end, # highlight-next-line, // @ts-ignore, eslint-disable-next-line, prettier-ignore 等。\n输出要求：\n只输出翻译后的内容。\n禁止在译文的开头或结尾添加任何额外说明、介绍、总结或致谢等文字。例如，不要说"这是您的翻译："或"翻译完成。"。',
           description: '专业的技术文档翻译模板，包含详细的翻译规则和格式要求',
           createdAt: now,
           updatedAt: now
@@ -77,7 +172,8 @@ export class ConfigManager {
         {
           id: 'jupyter-notebook',
           name: 'Jupyter Notebook 翻译',
-          content: '你是一位精通中英双语的专业技术文档翻译专家。你的任务是将一个 Jupyter Notebook (.ipynb) 文件中的英文内容翻译成简体中文。\n核心翻译原则：忠于原文，力求信、达、雅\n准确性 (信)：翻译必须准确传达原文的技术信息和意图，不能有任何歪曲或遗漏。\n流畅性 (达)：译文应流畅自然，符合中文技术文档的表达习惯。对于原文中过于拗口的句子，可在保证准确性的前提下进行适当的意译，使其更易于理解。\n专业性 (雅)：使用行业内公认的、标准的专业术语。\n禁止在译文的开头或结尾添加任何额外说明、介绍、总结或致谢等文字。例如，不要说"这是您的翻译："或"翻译完成。"。你的输出应该是以{开头，}结尾。禁止以`````json开头\n现在，请开始翻译以下内容：',
+          content:
+            '你是一位精通{sourceLang}和{targetLang}的专业技术文档翻译专家。你的任务是将一个 Jupyter Notebook (.ipynb) 文件中的{sourceLang}内容翻译成{targetLang}。\n核心翻译原则：忠于原文，力求信、达、雅\n准确性 (信)：翻译必须准确传达原文的技术信息和意图，不能有任何歪曲或遗漏。\n流畅性 (达)：译文应流畅自然，符合{targetLang}技术文档的表达习惯。对于原文中过于拗口的句子，可在保证准确性的前提下进行适当的意译，使其更易于理解。\n专业性 (雅)：使用行业内公认的、标准的专业术语。\n禁止在译文的开头或结尾添加任何额外说明、介绍、总结或致谢等文字。例如，不要说"这是您的翻译："或"翻译完成。"。你的输出应该是以{开头，}结尾。禁止以`````json开头\n现在，请开始翻译以下内容：',
           description: '专门用于翻译 Jupyter Notebook 文件的模板，输出格式为 JSON',
           createdAt: now,
           updatedAt: now
@@ -89,7 +185,8 @@ export class ConfigManager {
   async loadConfig(): Promise<AppConfig> {
     try {
       const configData = await fs.readFile(this.configPath, 'utf-8')
-      this.config = { ...this.getDefaultConfig(), ...JSON.parse(configData) }
+      this.config = this.migratePrompts({ ...this.getDefaultConfig(), ...JSON.parse(configData) })
+      this.config.projects = this.config.projects.map((project) => this.migrateProject(project))
     } catch (error) {
       console.log('配置文件不存在或损坏，使用默认配置')
       this.config = this.getDefaultConfig()
@@ -97,6 +194,43 @@ export class ConfigManager {
     return this.config
   }
 
+  // 旧默认提示词到当前默认提示词的对应关系
+  private getLegacyPrompts(): Map<string, string> {
+    const defaults = this.getDefaultConfig()
+    const prompts = [
+      defaults.globalPrompt,
+      ...(defaults.promptTemplates || []).map((template) => template.content)
+    ]
+    return new Map(prompts.map((prompt) => [toLegacyPrompt(prompt), prompt]))
+  }
+
+  // 兼容旧版本配置：与旧默认提示词完全相同的全局提示词和模板替换为带语言变量的版本，用户修改过的保持不变
+  private migratePrompts(config: AppConfig): AppConfig {
+    const legacyPrompts = this.getLegacyPrompts()
+    return {
+      ...config,
+      globalPrompt: legacyPrompts.get(config.globalPrompt) ?? config.globalPrompt,
+      promptTemplates: config.promptTemplates?.map((template) => ({
+        ...template,
+        content: legacyPrompts.get(template.content) ?? template.content
+      }))
+    }
+  }
+
+  // 兼容旧版本配置：项目提示词同样迁移旧默认提示词
+  // 将原文映射到自身的译文路径模板等同于原地覆盖，直接忽略
+  private migrateProject(project: ProjectConfig): ProjectConfig {
+    const migrated = { ...project }
+    if (isIdentityTemplate(migrated.targetPathTemplate)) {
+      delete migrated.targetPathTemplate
+    }
+    if (migrated.customPrompt) {
+      migrated.customPrompt =
+        this.getLegacyPrompts().get(migrated.customPrompt) ?? migrated.customPrompt
+    }
+    return migrated
+  }
+
   async saveConfig(config: AppConfig): Promise<void> {
     try {
       this.config = config
@@ -187,7 +321,9 @@ export class ConfigManager {
       upstreamBranch: defaultUpstreamBranch,
       workingBranch: defaultWorkingBranch,
       watchDirectories: ['docs', 'guides'],
-      fileTypes: ['.md', '.mdx', '.ipynb']
+      fileTypes: ['.md', '.mdx', '.ipynb', '.rst', '.po'],
+      sourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+      targetLanguages: [DEFAULT_TARGET_LANGUAGE]
     }
 
     this.config.projects.push(newProject)
@@ -201,6 +337,9 @@ export class ConfigManager {
     if (projectIndex === -1) {
       throw new Error('项目不存在')
     }
+    if (isIdentityTemplate(updates.targetPathTemplate)) {
+      throw new Error('译文路径模板不能将文件映射到原文自身，需要原地覆盖原文时请留空')
+    }
 
     this.config.projects[projectIndex] = {
       ...this.config.projects[projectIndex],
@@ -2,10 +2,48 @@ import { promises as fs } from 'fs'
 import { join, relative, extname, basename, dirname, sep } from 'path'
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import ignore from 'ignore'
-import { LLMService } from './llmService'
-import { ConfigManager } from './config'
+import ignore, { Ignore } from 'ignore'
+import { LLMService, TranslationContext, TranslationStreamOptions } from './llmService'
+import { LLMError } from './llmErrors'
+import {
+  ConfigManager,
+  ProjectConfig,
+  getActiveLanguage,
+  getFrontMatterKeys,
+  getSourceLanguage,
+  getTargetLanguages
+} from './config'
 import { NotebookProcessor } from './notebookProcessor'
+import { RstProcessor } from './rstProcessor'
+import { PoProcessor, PoStats } from './poProcessor'
+import { ResourceProcessor } from './resourceProcessor'
+import { diffLines, diffSequences, DiffLine, DiffHunk } from './textDiff'
+import {
+  parseMarkdownBlocks,
+  joinMarkdownBlocks,
+  areBlocksAligned,
+  MarkdownBlock
+} from '../shared/markdownBlocks'
+import { resolveTargetPath, isTargetPath } from './pathMapping'
+import { checkGlossary, getGlossaryEntries, GlossaryViolation } from './glossary'
+import { TranslationMemory } from './translationMemory'
+import { runQAChecks, summarizeQAIssues, QAIssue, QASummary } from './qaChecker'
+import {
+  createRestoringDeltaHandler,
+  hasTranslatableText,
+  maskProtectedContent,
+  restoreProtectedContent
+} from './placeholderMasker'
+import {
+  applyFrontMatterTranslations,
+  extractFrontMatterFields,
+  splitFrontMatter
+} from './frontMatter'
+import {
+  extractBilingualTranslation,
+  joinBilingualBlocks,
+  splitBilingualText
+} from './bilingualMarkdown'
 
 const execAsync = promisify(exec)
 
@@ -17,6 +55,10 @@ export interface FileItem {
   children?: FileItem[]
   lastHash?: string
   size?: number // 文件大小（字节）
+  qa?: QASummary // 最近一次翻译或保存时的质量检查结果
+  failedCells?: number[] // Notebook 中上次翻译失败的单元格（从 1 开始），全部成功时不设置
+  failedKeys?: string[] // 资源文件中上次翻译失败、仍为原文的键
+  poStats?: PoStats // gettext 消息目录中已翻译、fuzzy 和未翻译的条目数量
 }
 
 export interface FileStatus {
@@ -24,18 +66,65 @@ export interface FileStatus {
   status: 'translated' | 'outdated' | 'untranslated'
   modified?: boolean
   lastHash?: string
+  qa?: QASummary
+  failedCells?: number[]
+  failedKeys?: string[]
+  poStats?: PoStats
+}
+
+export interface SourceDiff {
+  oldHash: string
+  newHash: string
+  lines: DiffLine[]
+  hunks: DiffHunk[]
+  changedCells?: number[] // Notebook 中新增或内容变化的单元格索引（从 0 开始）
+}
+
+// 翻译模式：full 为整篇翻译，incremental 为仅重新翻译上游变更的块
+export type TranslationMode = 'full' | 'incremental'
+
+export interface TranslateFileOptions {
+  mode?: TranslationMode
+  onDelta?: (delta: string, replace?: boolean) => void // 流式输出的增量译文（仅整篇翻译普通文件时有效）
+  retryFailedCells?: boolean // 只重新翻译 Notebook 上次失败的单元格，其余单元格保留现有译文
+}
+
+export interface TranslateFileResult {
+  mode: TranslationMode
+  translatedBlocks?: number // 重新翻译的块数量（增量模式，或整篇翻译时命中了翻译记忆）
+  reusedBlocks?: number // 复用已有译文或翻译记忆的块数量
+  failedCells?: number[] // Notebook 中翻译失败的单元格（从 1 开始），已保留原文
+  failedKeys?: string[] // 资源文件中翻译失败的键，已保留原文
+}
+
+// 按块翻译的结果，content 为拼接后的完整译文
+interface BlockTranslationResult {
+  content: string
+  translatedBlocks: number
+  reusedBlocks: number
 }
 
 export class FileManager {
   private statusCache: Map<string, FileStatus> = new Map()
+  private configManager: ConfigManager
   private llmService: LLMService
   private notebookProcessor: NotebookProcessor
+  private rstProcessor: RstProcessor
+  private poProcessor: PoProcessor
+  private resourceProcessor: ResourceProcessor
   private upstreamHashCache: Map<string, Map<string, string>> = new Map() // 缓存上游分支的文件哈希
   private gitignoreCache: Map<string, any> = new Map() // 缓存gitignore规则
+  private translationControllers: Map<string, AbortController> = new Map() // 进行中的翻译，用于取消
+  private translationMemory: TranslationMemory
 
-  constructor(configManager: ConfigManager) {
-    this.llmService = new LLMService(configManager)
+  constructor(configManager: ConfigManager, translationMemory: TranslationMemory) {
+    this.configManager = configManager
+    this.translationMemory = translationMemory
+    this.llmService = new LLMService(configManager, translationMemory)
     this.notebookProcessor = new NotebookProcessor(this.llmService)
+    this.rstProcessor = new RstProcessor(this.llmService)
+    this.poProcessor = new PoProcessor(this.llmService)
+    this.resourceProcessor = new ResourceProcessor(this.llmService)
   }
 
   // 标准化路径分隔符 - 统一使用当前系统的路径分隔符
@@ -48,6 +137,41 @@ export class FileManager {
     return this.normalizePath(path).split(sep)
   }
 
+  // 获取项目配置
+  private getProject(projectPath: string): ProjectConfig | undefined {
+    return this.configManager.getConfig().projects.find((p) => p.path === projectPath)
+  }
+
+  // 项目是否以双语对照的形式输出 Markdown 译文
+  private isBilingualMarkdown(projectPath: string, filePath: string): boolean {
+    return !!this.getProject(projectPath)?.bilingualMarkdown && /\.mdx?$/i.test(filePath)
+  }
+
+  // 项目是否配置了独立的译文路径（而非原地覆盖原文）
+  private hasPathMapping(projectPath: string): boolean {
+    return !!this.getProject(projectPath)?.targetPathTemplate?.trim()
+  }
+
+  // 获取原文文件对应的译文文件路径
+  getTargetPath(projectPath: string, sourcePath: string): string {
+    const project = this.getProject(projectPath)
+    if (!project?.targetPathTemplate?.trim()) {
+      return sourcePath
+    }
+    const targetPath = resolveTargetPath(
+      sourcePath,
+      project.targetPathTemplate,
+      getActiveLanguage(project)
+    )
+    return this.normalizePath(targetPath)
+  }
+
+  // 状态缓存的 key：项目、工作分支、目标语言和原文路径
+  private getCacheKey(projectPath: string, workingBranch: string, filePath: string): string {
+    const language = getActiveLanguage(this.getProject(projectPath))
+    return `${projectPath}:${workingBranch}:${language}:${filePath}`
+  }
+
   private getStatusFilePath(projectPath: string, workingBranch: string): string {
     // 对分支名称进行转义，将斜杠替换为下划线，避免路径问题
     const safeBranchName = workingBranch.replace(/[\/\\]/g, '_')
@@ -66,10 +190,20 @@ export class FileManager {
         // 清空当前缓存
         this.statusCache.clear()
         
+        // 状态文件按目标语言分组：{ [language]: { [path]: FileStatus } }
+        // 旧版本的状态文件没有语言分组，视为项目的第一个目标语言
+        const values = Object.values(statusData) as Array<{ status?: unknown }>
+        const isLegacyFormat = values.length > 0 && typeof values[0]?.status === 'string'
+        const languageData: Record<string, Record<string, FileStatus>> = isLegacyFormat
+          ? { [getTargetLanguages(this.getProject(projectPath))[0]]: statusData }
+          : statusData
+
         // 加载缓存数据
-        for (const [path, status] of Object.entries(statusData)) {
-          const cacheKey = `${projectPath}:${workingBranch}:${path}`
-          this.statusCache.set(cacheKey, status as FileStatus)
+        for (const [language, statuses] of Object.entries(languageData)) {
+          for (const [path, status] of Object.entries(statuses)) {
+            const cacheKey = `${projectPath}:${workingBranch}:${language}:${path}`
+            this.statusCache.set(cacheKey, status)
+          }
         }
       }
     } catch (error) {
@@ -80,24 +214,30 @@ export class FileManager {
   // 保存文件状态缓存
   private async saveStatusCache(projectPath: string, workingBranch: string): Promise<void> {
     const statusFilePath = this.getStatusFilePath(projectPath, workingBranch)
-    
-    const statusObj: Record<string, FileStatus> = {}
+
+    const statusObj: Record<string, Record<string, FileStatus>> = {}
     const branchPrefix = `${projectPath}:${workingBranch}:`
-    
+    let fileCount = 0
+
     // 只保存当前分支的已翻译或过时的文件状态
     this.statusCache.forEach((status, cacheKey) => {
       if (cacheKey.startsWith(branchPrefix)) {
         // 只保存已翻译或过时的文件，未翻译的文件不保存
         if (status.status === 'translated' || status.status === 'outdated') {
-          // 提取出文件路径（去掉前缀）
-          const filePath = cacheKey.substring(branchPrefix.length)
-          statusObj[filePath] = status
+          // 提取出语言和文件路径（去掉前缀）
+          const rest = cacheKey.substring(branchPrefix.length)
+          const separatorIndex = rest.indexOf(':')
+          const language = rest.substring(0, separatorIndex)
+          const filePath = rest.substring(separatorIndex + 1)
+          statusObj[language] = statusObj[language] || {}
+          statusObj[language][filePath] = status
+          fileCount++
         }
       }
     })
     
     // 如果没有需要保存的状态，删除状态文件
-    if (Object.keys(statusObj).length === 0) {
+    if (fileCount === 0) {
       try {
         await fs.unlink(statusFilePath)
         console.log(`删除空状态文件: ${statusFilePath}`)
@@ -106,10 +246,10 @@ export class FileManager {
       }
       return
     }
-    
+
     try {
       await fs.writeFile(statusFilePath, JSON.stringify(statusObj, null, 2), 'utf-8')
-      console.log(`保存状态文件: ${statusFilePath}，包含 ${Object.keys(statusObj).length} 个文件`)
+      console.log(`保存状态文件: ${statusFilePath}，包含 ${fileCount} 个文件`)
     } catch (error) {
       console.error(`保存分支 ${workingBranch} 的状态文件失败:`, error)
     }
@@ -179,13 +319,17 @@ export class FileManager {
     upstreamBranch: string,
     workingBranch: string
   ): Promise<FileStatus> {
-    const cacheKey = `${projectPath}:${workingBranch}:${filePath}`
-    
+    const cacheKey = this.getCacheKey(projectPath, workingBranch, filePath)
+
     // 检查缓存
     if (this.statusCache.has(cacheKey)) {
       const cached = this.statusCache.get(cacheKey)!
       // 检查是否需要更新修改状态
-      cached.modified = await this.isFileModified(projectPath, filePath, workingBranch)
+      cached.modified = await this.isFileModified(
+        projectPath,
+        this.getTargetPath(projectPath, filePath),
+        workingBranch
+      )
       return cached
     }
 
@@ -207,16 +351,17 @@ export class FileManager {
     upstreamBranch: string,
     workingBranch: string
   ): Promise<FileStatus> {
+    const targetPath = this.getTargetPath(projectPath, filePath)
     const upstreamExists = await this.fileExistsInBranch(projectPath, filePath, `upstream/${upstreamBranch}`)
-    const localExists = await this.fileExistsLocally(projectPath, filePath)
-    const modified = await this.isFileModified(projectPath, filePath, workingBranch)
+    const localExists = await this.fileExistsLocally(projectPath, targetPath)
+    const modified = await this.isFileModified(projectPath, targetPath, workingBranch)
 
     let status: 'translated' | 'outdated' | 'untranslated' = 'untranslated'
     let lastHash: string | undefined = undefined
 
-    if (upstreamExists) {
+    if (upstreamExists && localExists) {
       // 检查是否有翻译记录
-      const cacheKey = `${projectPath}:${workingBranch}:${filePath}`
+      const cacheKey = this.getCacheKey(projectPath, workingBranch, filePath)
       const cachedStatus = this.statusCache.get(cacheKey)
       
       if (cachedStatus?.lastHash) {
@@ -359,6 +504,24 @@ export class FileManager {
     return files
   }
 
+  // 从上游文件列表中筛选需要翻译的原文文件
+  private listUpstreamSourceFiles(
+    projectPath: string,
+    upstreamHashMap: Map<string, string>,
+    fileTypes: string[],
+    ig?: Ignore
+  ): string[] {
+    const project = this.getProject(projectPath)
+    const template = project?.targetPathTemplate
+    const languages = getTargetLanguages(project)
+
+    return Array.from(upstreamHashMap.keys()).filter((filePath) => {
+      if (!fileTypes.includes(extname(filePath))) return false
+      if (ig && this.shouldIgnorePath(ig, filePath)) return false
+      return !languages.some((language) => isTargetPath(filePath, template, language))
+    })
+  }
+
   // 批量获取文件大小信息
   private async getBatchFileSizes(
     projectPath: string,
@@ -404,7 +567,11 @@ export class FileManager {
         status: status?.status || 'untranslated',
         modified: status?.modified || false,
         lastHash: status?.lastHash,
-        size: size || 0
+        size: size || 0,
+        qa: status?.qa,
+        failedCells: status?.failedCells,
+        failedKeys: status?.failedKeys,
+        poStats: status?.poStats
       }
 
       if (parts.length === 1) {
@@ -581,11 +748,12 @@ export class FileManager {
     
     try {
       // 使用 git status --porcelain 获取所有修改的文件
-      const { stdout } = await execAsync('git status --porcelain', { 
-        cwd: projectPath, 
+      // 列出未跟踪目录中的每个文件，译文可能位于新建的目录中
+      const { stdout } = await execAsync('git status --porcelain --untracked-files=all', {
+        cwd: projectPath,
         maxBuffer: 5 * 1024 * 1024 // 5MB 缓冲区用于状态输出
       })
-      
+
       const lines = stdout.trim().split('\n').filter(line => line.trim())
       
       for (const line of lines) {
@@ -618,11 +786,11 @@ export class FileManager {
     const statusMap = new Map<string, FileStatus>()
     
     for (const filePath of allFiles) {
-      const cacheKey = `${projectPath}:${workingBranch}:${filePath}`
+      const cacheKey = this.getCacheKey(projectPath, workingBranch, filePath)
       const cachedStatus = this.statusCache.get(cacheKey)
       const upstreamHash = upstreamHashMap.get(filePath)
-      const isModified = modifiedMap.get(filePath) || false
-      
+      const isModified = modifiedMap.get(this.getTargetPath(projectPath, filePath)) || false
+
       let status: 'translated' | 'outdated' | 'untranslated' = 'untranslated'
       
       if (cachedStatus && upstreamHash) {
@@ -634,12 +802,16 @@ export class FileManager {
       } else if (cachedStatus) {
         status = cachedStatus.status
       }
-      
+
       statusMap.set(filePath, {
         path: filePath,
         status,
         modified: isModified,
-        lastHash: upstreamHash
+        lastHash: upstreamHash,
+        qa: cachedStatus?.qa,
+        failedCells: cachedStatus?.failedCells,
+        failedKeys: cachedStatus?.failedKeys,
+        poStats: cachedStatus?.poStats
       })
     }
     
@@ -670,18 +842,28 @@ export class FileManager {
       console.log('监听目录为空，将扫描整个项目目录')
     }
 
+    const upstreamHashMap = await this.getBatchUpstreamHashes(
+      projectPath,
+      dirsToScan,
+      upstreamBranch
+    )
+
     // 扫描所有监听目录
     const allFiles: string[] = []
-    for (const dir of dirsToScan) {
-      const files = await this.scanDirectory(projectPath, dir, fileTypes, '', ig)
-      allFiles.push(...files)
+    if (this.hasPathMapping(projectPath)) {
+      // 译文与原文分开存放时，原文列表以上游分支为准，并排除按模板生成的译文文件
+      allFiles.push(...this.listUpstreamSourceFiles(projectPath, upstreamHashMap, fileTypes, ig))
+    } else {
+      for (const dir of dirsToScan) {
+        const files = await this.scanDirectory(projectPath, dir, fileTypes, '', ig)
+        allFiles.push(...files)
+      }
     }
 
     console.log(`扫描到 ${allFiles.length} 个文件`)
 
-    // 批量获取上游文件哈希、修改状态和文件大小
-    const [upstreamHashMap, modifiedMap, sizeMap] = await Promise.all([
-      this.getBatchUpstreamHashes(projectPath, dirsToScan, upstreamBranch),
+    // 批量获取修改状态和文件大小
+    const [modifiedMap, sizeMap] = await Promise.all([
       this.getBatchModifiedStatus(projectPath),
       this.getBatchFileSizes(projectPath, allFiles)
     ])
@@ -795,6 +977,83 @@ export class FileManager {
     }
   }
 
+  // 根据对象哈希读取历史版本内容（兼容旧版本记录的 commit hash）
+  private async readObjectContent(
+    projectPath: string,
+    objectHash: string,
+    filePath: string
+  ): Promise<string> {
+    const { stdout: objectType } = await execAsync(`git cat-file -t ${objectHash}`, {
+      cwd: projectPath,
+      maxBuffer: 1024 * 1024
+    })
+
+    if (objectType.trim() === 'commit') {
+      return this.readFileContent(projectPath, filePath, objectHash)
+    }
+
+    const { stdout } = await execAsync(`git cat-file -p ${objectHash}`, {
+      cwd: projectPath,
+      maxBuffer: 50 * 1024 * 1024
+    })
+    return stdout
+  }
+
+  // 获取上游原文自上次翻译以来的差异
+  async getSourceDiff(
+    projectPath: string,
+    filePath: string,
+    upstreamBranch: string,
+    workingBranch: string
+  ): Promise<SourceDiff | null> {
+    const fileStatus = await this.getFileStatus(
+      projectPath,
+      filePath,
+      upstreamBranch,
+      workingBranch
+    )
+    if (!fileStatus.lastHash) {
+      // 没有翻译记录，无法确定翻译时依据的原文版本
+      return null
+    }
+
+    const currentHash = await this.getFileBlobHash(
+      projectPath,
+      filePath,
+      `upstream/${upstreamBranch}`
+    )
+    if (!currentHash) {
+      return null
+    }
+
+    try {
+      const newContent = await this.readFileContent(
+        projectPath,
+        filePath,
+        `upstream/${upstreamBranch}`
+      )
+      const oldContent =
+        fileStatus.lastHash === currentHash
+          ? newContent
+          : await this.readObjectContent(projectPath, fileStatus.lastHash, filePath)
+
+      const { lines, hunks } = diffLines(oldContent, newContent)
+
+      return {
+        oldHash: fileStatus.lastHash,
+        newHash: currentHash,
+        lines,
+        hunks,
+        changedCells: NotebookProcessor.isNotebookFile(filePath)
+          ? this.notebookProcessor.getChangedCells(oldContent, newContent)
+          : undefined
+      }
+    } catch (error) {
+      console.error(`获取文件 ${filePath} 的原文差异失败:`, error)
+      throw new Error(`无法获取原文差异: ${filePath}，翻译时的上游版本可能已不存在，请先拉取上游`)
+    }
+  }
+
   // 获取文件的完整内容信息
   async getFileContent(
     projectPath: string,
@@ -806,6 +1065,8 @@ export class FileManager {
     translated: string
     status: 'translated' | 'outdated' | 'untranslated'
     hasChanges?: boolean
+    failedCells?: number[]
+    failedKeys?: string[]
   }> {
     try {
       // 获取文件状态
@@ -823,7 +1084,10 @@ export class FileManager {
       // 读取工作分支的翻译文件
       let translated = ''
       try {
-        translated = await this.readFileContent(projectPath, filePath)
+        translated = await this.readFileContent(
+          projectPath,
+          this.getTargetPath(projectPath, filePath)
+        )
       } catch (error) {
         translated = ''
       }
@@ -832,7 +1096,9 @@ export class FileManager {
         original,
         translated,
         status: fileStatus.status,
-        hasChanges: fileStatus.modified
+        hasChanges: fileStatus.modified,
+        failedCells: fileStatus.failedCells,
+        failedKeys: fileStatus.failedKeys
       }
     } catch (error) {
       console.error(`获取文件内容失败:`, error)
@@ -840,14 +1106,42 @@ export class FileManager {
     }
   }
 
-  // 保存文件内容
+  // 保存文件内容（filePath 为原文路径，写入其对应的译文路径），返回实际写入的内容
+  // 消息目录中修改过译文的 fuzzy 条目视为已审校，保存时去掉 fuzzy 标记
   async saveFileContent(
     projectPath: string,
     filePath: string,
     content: string
-  ): Promise<void> {
+  ): Promise<string> {
+    // Notebook 保存前检查结构，避免写入无法打开的文件
+    if (NotebookProcessor.isNotebookFile(filePath)) {
+      const validation = this.notebookProcessor.validateNotebook(
+        this.notebookProcessor.parseNotebook(content)
+      )
+      if (!validation.isValid) {
+        throw new Error(`Notebook 结构无效，未保存: ${validation.errors.join('，')}`)
+      }
+    }
+
+    // JSON 资源文件同样检查语法
+    if (ResourceProcessor.isResourceFile(filePath) && filePath.toLowerCase().endsWith('.json')) {
+      try {
+        JSON.parse(content)
+      } catch (error) {
+        throw new Error(`JSON 格式无效，未保存: ${(error as Error).message}`)
+      }
+    }
+
+    if (PoProcessor.isPoFile(filePath)) {
+      const previous = await this.readFileContent(
+        projectPath,
+        this.getTargetPath(projectPath, filePath)
+      ).catch(() => '')
+      content = this.poProcessor.markReviewed(previous, content)
+    }
+
     try {
-      const fullPath = join(projectPath, filePath)
+      const fullPath = join(projectPath, this.getTargetPath(projectPath, filePath))
       const dirPath = dirname(fullPath)
       
       // 确保目录存在
@@ -861,6 +1155,113 @@ export class FileManager {
       console.error(`保存文件 ${filePath} 失败:`, error)
       throw new Error(`保存文件失败: ${filePath}`)
     }
+
+    await this.updateTranslationMemory(projectPath, filePath, content)
+    await this.updateQAStatus(projectPath, filePath, content)
+    return content
+  }
+
+  // 重新检查已翻译文件的结构，更新文件树中显示的检查结果
+  // 翻译失败的 Notebook 单元格和资源文件的键已被手动译好（与原文不同）时不再标记为失败，消息目录重新统计条目
+  private async updateQAStatus(
+    projectPath: string,
+    filePath: string,
+    content: string
+  ): Promise<void> {
+    const project = this.getProject(projectPath)
+    if (!project) return
+
+    const cacheKey = this.getCacheKey(projectPath, project.workingBranch, filePath)
+    const status = this.statusCache.get(cacheKey)
+    if (!status) return
+
+    try {
+      const source = await this.readFileContent(
+        projectPath,
+        filePath,
+        `upstream/${project.upstreamBranch}`
+      )
+      status.qa = summarizeQAIssues(this.runQAChecks(projectPath, filePath, source, content))
+      if (status.failedCells) {
+        const remaining = this.notebookProcessor.getUntranslatedCells(
+          source,
+          content,
+          status.failedCells
+        )
+        status.failedCells = remaining.length > 0 ? remaining : undefined
+      }
+      if (status.failedKeys) {
+        const remaining = this.resourceProcessor.getUntranslatedKeys(
+          filePath,
+          source,
+          content,
+          status.failedKeys,
+          {
+            sourceLanguage: getSourceLanguage(project),
+            targetLanguage: getActiveLanguage(project)
+          }
+        )
+        status.failedKeys = remaining.length > 0 ? remaining : undefined
+      }
+      if (PoProcessor.isPoFile(filePath)) {
+        status.poStats = this.poProcessor.getStats(content)
+      }
+      await this.saveStatusCache(projectPath, project.workingBranch)
+    } catch (error) {
+      console.warn(`更新文件 ${filePath} 的质量检查结果失败:`, error)
+    }
+  }
+
+  // 将保存的译文与上游原文逐块对应后写入翻译记忆，块结构不一致时跳过
+  private async updateTranslationMemory(
+    projectPath: string,
+    filePath: string,
+    content: string
+  ): Promise<void> {
+    const project = this.getProject(projectPath)
+    if (
+      !project ||
+      NotebookProcessor.isNotebookFile(filePath) ||
+      PoProcessor.isPoFile(filePath) ||
+      ResourceProcessor.isResourceFile(filePath)
+    )
+      return
+
+    try {
+      const source = await this.readFileContent(
+        projectPath,
+        filePath,
+        `upstream/${project.upstreamBranch}`
+      )
+      const sourceBlocks = parseMarkdownBlocks(source)
+      const targets = this.getBlockTranslations(projectPath, filePath, sourceBlocks, content)
+      if (!targets) {
+        console.log(`文件 ${filePath} 的译文与原文块结构不一致，跳过更新翻译记忆`)
+        return
+      }
+
+      const sourceLanguage = getSourceLanguage(project)
+      const targetLanguage = getActiveLanguage(project)
+      // 与原文相同的块视为未翻译，不写入翻译记忆
+      const entries = sourceBlocks
+        .map((block, index) => ({ block, target: targets[index] }))
+        .filter(
+          ({ block, target }) => block.type !== 'blank' && block.content.trim() !== target.trim()
+        )
+        .map(({ block, target }) => ({
+          source: block.content,
+          target,
+          sourceLanguage,
+          targetLanguage
+        }))
+
+      const added = await this.translationMemory.addEntries(entries)
+      if (added > 0) {
+        console.log(`文件 ${filePath} 新增或更新 ${added} 条翻译记忆`)
+      }
+    } catch (error) {
+      console.warn(`更新文件 ${filePath} 的翻译记忆失败:`, error)
+    }
   }
 
   // 翻译文件
@@ -868,44 +1269,252 @@ export class FileManager {
     projectPath: string,
     filePath: string,
     upstreamBranch: string,
-    workingBranch: string
-  ): Promise<void> {
+    workingBranch: string,
+    options: TranslateFileOptions = {}
+  ): Promise<TranslateFileResult> {
+    const controllerKey = `${projectPath}:${filePath}`
+    const controller = new AbortController()
+    this.translationControllers.get(controllerKey)?.abort()
+    this.translationControllers.set(controllerKey, controller)
+
     try {
       // 获取原文内容
       const originalContent = await this.readFileContent(projectPath, filePath, `upstream/${upstreamBranch}`)
       
-      let translatedContent: string
-      
+      let translatedContent: string | null = null
+      let result: TranslateFileResult = { mode: 'full' }
+      let failedCells: number[] = []
+      let failedKeys: string[] = []
+      let poStats: PoStats | undefined
+
       // 检查是否为 Jupyter Notebook 文件
       if (NotebookProcessor.isNotebookFile(filePath)) {
         console.log(`检测到 Jupyter Notebook 文件: ${filePath}，使用专门的处理器`)
         
+        // 原文未变化的单元格复用现有译文，整篇翻译和增量翻译都按单元格查找
+        const previous = await this.readPreviousTranslation(projectPath, filePath, workingBranch)
+        const retry = options.retryFailedCells
+          ? await this.getFailedCellsRetry(projectPath, filePath, upstreamBranch, workingBranch)
+          : undefined
+
         // 使用 Notebook 处理器进行翻译
-        const result = await this.notebookProcessor.translateNotebook(originalContent, projectPath)
-        
+        const notebookResult = await this.notebookProcessor.translateNotebook(
+          originalContent,
+          projectPath,
+          {
+            translateCodeComments: this.getProject(projectPath)?.translateCodeComments,
+            bilingual: this.getProject(projectPath)?.bilingualNotebooks,
+            concurrency: this.configManager.getConfig().llmConfig?.concurrency,
+            previous: previous || undefined,
+            retry,
+            signal: controller.signal
+          }
+        )
+
+        // 所有单元格都翻译失败时不保存结果，保留错误分类抛给调用方
+        if (
+          notebookResult.translatedCellsCount + notebookResult.reusedCellsCount === 0 &&
+          notebookResult.errors.length > 0
+        ) {
+          throw new Error(notebookResult.errors[0].error)
+        }
+
+        if (previous) {
+          result = {
+            mode: options.mode === 'incremental' ? 'incremental' : 'full',
+            translatedBlocks: notebookResult.cells.filter((cell) => cell.status === 'translated')
+              .length,
+            reusedBlocks: notebookResult.reusedCellsCount
+          }
+        }
+
+        // 部分单元格失败时仍然保存其余译文，失败的单元格记录到文件状态中，可以单独重试
+        failedCells = notebookResult.errors.map((error) => error.cellIndex)
+        if (failedCells.length > 0) {
+          result.failedCells = failedCells
+        }
+
         // 验证翻译后的 notebook 结构
-        const validation = this.notebookProcessor.validateNotebook(result.translatedNotebook)
+        const validation = this.notebookProcessor.validateNotebook(
+          notebookResult.translatedNotebook
+        )
         if (!validation.isValid) {
           console.warn(`Notebook 结构验证失败: ${validation.errors.join(', ')}`)
         }
         
         // 转换为 JSON 字符串
-        translatedContent = this.notebookProcessor.stringifyNotebook(result.translatedNotebook)
-        
+        translatedContent = this.notebookProcessor.stringifyNotebook(
+          notebookResult.translatedNotebook
+        )
+
         // 输出翻译统计信息
-        console.log(`Notebook 翻译完成: ${result.translatedCellsCount}/${result.totalMarkdownCells} 个 markdown 单元格翻译成功`)
-        
-        if (result.errors.length > 0) {
-          console.warn(`翻译过程中出现 ${result.errors.length} 个错误:`)
-          result.errors.forEach(error => {
+        console.log(
+          `Notebook 翻译完成: ${notebookResult.translatedCellsCount}/${notebookResult.totalMarkdownCells} 个 markdown 单元格翻译成功`
+        )
+
+        const codeCells = notebookResult.cells.filter(
+          (cell) => cell.cellType === 'code' && cell.status === 'translated'
+        )
+        if (codeCells.length > 0) {
+          const comments = codeCells.reduce((sum, cell) => sum + (cell.comments || 0), 0)
+          console.log(`翻译了 ${codeCells.length} 个代码单元格中的 ${comments} 处注释`)
+        }
+
+        if (notebookResult.errors.length > 0) {
+          console.warn(`翻译过程中出现 ${notebookResult.errors.length} 个错误:`)
+          notebookResult.errors.forEach((error) => {
             console.warn(`  单元格 ${error.cellIndex}: ${error.error}`)
           })
         }
+      } else if (RstProcessor.isRstFile(filePath)) {
+        // rST 的块结构与 Markdown 不同，不按块复用译文，始终整篇翻译
+        if (options.mode === 'incremental') {
+          console.log(`文件 ${filePath} 为 reStructuredText，改为整篇翻译`)
+        }
+        translatedContent = await this.rstProcessor.translateRst(originalContent, projectPath, {
+          onDelta: options.onDelta,
+          signal: controller.signal
+        })
+      } else if (PoProcessor.isPoFile(filePath)) {
+        // 消息目录始终保留已有译文，只翻译空白和原文已变化的 fuzzy 条目，与翻译模式无关
+        const existing = await this.readFileContent(
+          projectPath,
+          this.getTargetPath(projectPath, filePath)
+        ).catch(() => '')
+        const catalog = await this.poProcessor.translateCatalog(originalContent, projectPath, {
+          existing: existing || undefined,
+          targetLanguage: getActiveLanguage(this.getProject(projectPath)),
+          signal: controller.signal
+        })
+
+        // 需要翻译的条目全部失败时不保存结果
+        if (catalog.translatedEntries === 0 && catalog.errors.length > 0) {
+          throw new Error(catalog.errors[0].error)
+        }
+        if (catalog.errors.length > 0) {
+          console.warn(`${catalog.errors.length} 个消息翻译失败，保持原状态`)
+        }
+
+        translatedContent = catalog.content
+        poStats = catalog.stats
+        result = {
+          mode: existing ? 'incremental' : 'full',
+          translatedBlocks: catalog.translatedEntries,
+          reusedBlocks: catalog.reusedEntries
+        }
+      } else if (ResourceProcessor.isResourceFile(filePath)) {
+        // 增量模式下只翻译原文新增或变化的键，其余键沿用现有译文
+        // 重试失败的键同样以现有译文为基础，仍为原文的键不会被沿用，因此会重新翻译
+        const previous =
+          options.mode === 'incremental' || options.retryFailedCells
+            ? await this.readPreviousTranslation(projectPath, filePath, workingBranch)
+            : null
+        const project = this.getProject(projectPath)
+        const resource = await this.resourceProcessor.translateResource(
+          originalContent,
+          filePath,
+          projectPath,
+          {
+            previous: previous || undefined,
+            sourceLanguage: getSourceLanguage(project),
+            targetLanguage: getActiveLanguage(project),
+            signal: controller.signal
+          }
+        )
+
+        // 所有字符串都翻译失败时不保存结果
+        if (
+          resource.translatedStrings + resource.reusedStrings === 0 &&
+          resource.errors.length > 0
+        ) {
+          throw new Error(resource.errors[0].error)
+        }
+
+        translatedContent = resource.content
+        result = {
+          mode: previous ? 'incremental' : 'full',
+          translatedBlocks: resource.translatedStrings,
+          reusedBlocks: resource.reusedStrings
+        }
+
+        // 部分键失败时仍然保存其余译文，失败的键记录到文件状态中，可以单独重试
+        failedKeys = resource.errors.map((error) => error.key)
+        if (failedKeys.length > 0) {
+          console.warn(
+            `${failedKeys.length} 个字符串翻译失败，已保留原文: ${failedKeys.join(', ')}`
+          )
+          result.failedKeys = failedKeys
+        }
+      } else if (this.isBilingualMarkdown(projectPath, filePath)) {
+        const bilingual = await this.translateBilingual(
+          projectPath,
+          filePath,
+          workingBranch,
+          originalContent,
+          {
+            mode: options.mode,
+            onDelta: options.onDelta,
+            signal: controller.signal
+          }
+        )
+        translatedContent = bilingual.content
+        result = {
+          mode: bilingual.mode,
+          translatedBlocks: bilingual.translatedBlocks,
+          reusedBlocks: bilingual.reusedBlocks
+        }
       } else {
+        // 增量模式：只重新翻译上游变更的块
+        if (options.mode === 'incremental') {
+          const incremental = await this.translateIncrementally(
+            projectPath,
+            filePath,
+            workingBranch,
+            originalContent,
+            controller.signal
+          )
+          if (incremental) {
+            translatedContent = incremental.content
+            result = {
+              mode: 'incremental',
+              translatedBlocks: incremental.translatedBlocks,
+              reusedBlocks: incremental.reusedBlocks
+            }
+          } else {
+            console.warn(`文件 ${filePath} 无法进行增量翻译，改为整篇翻译`)
+          }
+        }
+
+        // 整篇翻译时优先复用翻译记忆中完全相同的段落
+        if (translatedContent === null) {
+          const memory = await this.translateWithMemory(projectPath, filePath, originalContent, {
+            onDelta: options.onDelta,
+            signal: controller.signal
+          })
+          if (memory) {
+            translatedContent = memory.content
+            result = {
+              mode: 'full',
+              translatedBlocks: memory.translatedBlocks,
+              reusedBlocks: memory.reusedBlocks
+            }
+          }
+        }
+
         // 对于普通文件，使用标准翻译流程
-        translatedContent = await this.callLLMTranslation(originalContent, projectPath)
+        if (translatedContent === null) {
+          translatedContent = await this.callLLMTranslation(originalContent, projectPath, {
+            onDelta: options.onDelta,
+            signal: controller.signal
+          })
+        }
       }
-      
+
+      // 翻译期间用户取消了任务，不保存结果
+      if (controller.signal.aborted) {
+        throw new LLMError('cancelled', '翻译已取消')
+      }
+
       // 保存翻译结果
       await this.saveFileContent(projectPath, filePath, translatedContent)
       
@@ -913,59 +1522,554 @@ export class FileManager {
       const currentHash = await this.getFileBlobHash(projectPath, filePath, `upstream/${upstreamBranch}`)
       
       // 更新文件状态缓存
-      const cacheKey = `${projectPath}:${workingBranch}:${filePath}`
+      const cacheKey = this.getCacheKey(projectPath, workingBranch, filePath)
       const fileStatus: FileStatus = {
         path: filePath,
         status: 'translated',
-        lastHash: currentHash || undefined
+        lastHash: currentHash || undefined,
+        qa: summarizeQAIssues(
+          this.runQAChecks(projectPath, filePath, originalContent, translatedContent)
+        ),
+        failedCells: failedCells.length > 0 ? failedCells : undefined,
+        failedKeys: failedKeys.length > 0 ? failedKeys : undefined,
+        poStats
       }
-      
+
       this.statusCache.set(cacheKey, fileStatus)
       
       // 保存缓存到文件
       await this.saveStatusCache(projectPath, workingBranch)
       
       console.log(`文件翻译完成: ${filePath}`)
+      return result
     } catch (error) {
       console.error(`翻译文件失败: ${filePath}`, error)
       throw error
+    } finally {
+      if (this.translationControllers.get(controllerKey) === controller) {
+        this.translationControllers.delete(controllerKey)
+      }
+    }
+  }
+
+  // 重试 Notebook 上次翻译失败的单元格：以现有译文为基础，上游原文变化后单元格可能已经错位，不允许重试
+  private async getFailedCellsRetry(
+    projectPath: string,
+    filePath: string,
+    upstreamBranch: string,
+    workingBranch: string
+  ): Promise<{ translated: string; cells: number[] }> {
+    const status = this.statusCache.get(this.getCacheKey(projectPath, workingBranch, filePath))
+    if (!status?.failedCells?.length) {
+      throw new Error(`文件 ${filePath} 没有翻译失败的单元格`)
+    }
+
+    const currentHash = await this.getFileBlobHash(
+      projectPath,
+      filePath,
+      `upstream/${upstreamBranch}`
+    )
+    if (status.lastHash !== currentHash) {
+      throw new Error(`文件 ${filePath} 的上游原文在翻译后已更新，请先进行增量翻译`)
+    }
+
+    return {
+      translated: await this.readFileContent(
+        projectPath,
+        this.getTargetPath(projectPath, filePath)
+      ),
+      cells: status.failedCells
+    }
+  }
+
+  // 取消进行中的文件翻译
+  cancelTranslation(projectPath: string, filePath: string): boolean {
+    const controller = this.translationControllers.get(`${projectPath}:${filePath}`)
+    if (!controller) {
+      return false
+    }
+
+    controller.abort()
+    console.log(`取消翻译: ${filePath}`)
+    return true
+  }
+
+  // 翻译单个段落，只返回译文，由渲染进程合并到编辑中的译文
+  async translateSegment(
+    projectPath: string,
+    content: string,
+    context: TranslationContext = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    // 逐段翻译 Front Matter 时同样只翻译配置的字段
+    const { frontMatter, body } = splitFrontMatter(content)
+    if (frontMatter !== null && body.trim() === '') {
+      return (await this.translateFrontMatter(frontMatter, projectPath, signal)) + body
+    }
+
+    const masked = maskProtectedContent(content)
+    if (!hasTranslatableText(masked.text)) {
+      return content
+    }
+
+    const hasContext = !!(context.before || context.after)
+    const response = await this.llmService.translateText(
+      { content: masked.text, context: hasContext ? context : undefined },
+      projectPath,
+      { signal }
+    )
+    return restoreProtectedContent(response.translatedContent, masked.placeholders)
+  }
+
+  // 按项目术语表检查译文，返回未遵守术语表的术语
+  checkGlossary(projectPath: string, original: string, translated: string): GlossaryViolation[] {
+    const project = this.getProject(projectPath)
+    const entries = getGlossaryEntries(project?.glossary, getActiveLanguage(project))
+    if (entries.length === 0 || !translated.trim()) {
+      return []
     }
+
+    return checkGlossary(original, translated, entries)
   }
 
-  // 调用 LLM 翻译
-  private async callLLMTranslation(content: string, projectPath: string): Promise<string> {
+  // 检查译文的结构是否与原文一致，Notebook 只检查 markdown 单元格，双语 Markdown 只检查其中的译文
+  // reStructuredText 检查指令、字面量块和角色，消息目录不做结构检查，以条目统计为准
+  // 资源文件检查键是否齐全以及每个值中的参数和标签
+  runQAChecks(
+    projectPath: string,
+    filePath: string,
+    original: string,
+    translated: string
+  ): QAIssue[] {
+    if (PoProcessor.isPoFile(filePath)) {
+      return []
+    }
+    if (ResourceProcessor.isResourceFile(filePath)) {
+      if (!translated.trim()) return []
+      const project = this.getProject(projectPath)
+      try {
+        return this.resourceProcessor
+          .validateResource(filePath, original, translated, {
+            sourceLanguage: getSourceLanguage(project),
+            targetLanguage: getActiveLanguage(project)
+          })
+          .map((issue): QAIssue => ({ rule: 'placeholder', ...issue }))
+      } catch (error) {
+        console.warn(`资源文件 ${filePath} 解析失败，跳过质量检查:`, (error as Error).message)
+        return []
+      }
+    }
+    if (RstProcessor.isRstFile(filePath)) {
+      if (!translated.trim()) return []
+      return this.rstProcessor
+        .validateStructure(original, translated)
+        .errors.map((message): QAIssue => ({ rule: 'directive', severity: 'error', message }))
+    }
+    if (this.isBilingualMarkdown(projectPath, filePath)) {
+      const extracted = extractBilingualTranslation(
+        original,
+        translated,
+        this.getProject(projectPath)?.bilingualWrapper
+      )
+      return runQAChecks(original, extracted ?? translated)
+    }
+    if (!NotebookProcessor.isNotebookFile(filePath)) {
+      return runQAChecks(original, translated)
+    }
+
     try {
-      const response = await this.llmService.translateText({
-        content
-      }, projectPath)
-      
-      return response.translatedContent
+      return runQAChecks(this.getNotebookMarkdown(original), this.getNotebookMarkdown(translated))
     } catch (error) {
-      console.error('LLM 翻译失败:', error)
-      // 如果 LLM 翻译失败，返回模拟翻译结果
-      return this.getMockTranslation(content)
+      console.warn(`Notebook ${filePath} 解析失败，跳过质量检查:`, (error as Error).message)
+      return []
     }
   }
 
-  // 模拟翻译（作为 LLM 翻译的备选方案）
-  private getMockTranslation(content: string): string {
-    return content
-      .replace(/OpenDoc Translate/g, 'OpenDoc Translate')
-      .replace(/Getting Started/g, '开始使用')
-      .replace(/API Reference/g, 'API 参考')
-      .replace(/Authentication/g, '认证')
-      .replace(/Endpoints/g, '端点')
-      .replace(/Parameters/g, '参数')
-      .replace(/Response/g, '响应')
-      .replace(/Documentation/g, '文档')
-      .replace(/Installation/g, '安装')
-      .replace(/Configuration/g, '配置')
-      .replace(/Usage/g, '使用方法')
-      .replace(/Examples/g, '示例')
-      .replace(/FAQ/g, '常见问题')
-      .replace(/Troubleshooting/g, '故障排除')
-      .replace(/Contributing/g, '贡献指南')
-      .replace(/License/g, '许可证')
-      .replace(/Changelog/g, '更新日志')
-  }
-} 
+  // 将 Notebook 的 markdown 单元格拼接为一篇 Markdown，双语 Notebook 只取译文单元格
+  private getNotebookMarkdown(content: string): string {
+    return this.notebookProcessor
+      .extractTranslation(this.notebookProcessor.parseNotebook(content))
+      .cells.filter((cell) => cell.cell_type === 'markdown')
+      .map((cell) => (Array.isArray(cell.source) ? cell.source.join('') : String(cell.source)))
+      .join('\n\n')
+  }
+
+  // 读取上次翻译时的原文和现有译文，没有翻译记录或读取失败时返回 null
+  private async readPreviousTranslation(
+    projectPath: string,
+    filePath: string,
+    workingBranch: string
+  ): Promise<{ original: string; translated: string } | null> {
+    const cacheKey = this.getCacheKey(projectPath, workingBranch, filePath)
+    const lastHash = this.statusCache.get(cacheKey)?.lastHash
+    if (!lastHash) return null
+
+    try {
+      return {
+        original: await this.readObjectContent(projectPath, lastHash, filePath),
+        translated: await this.readFileContent(
+          projectPath,
+          this.getTargetPath(projectPath, filePath)
+        )
+      }
+    } catch (error) {
+      console.warn(`读取文件 ${filePath} 的历史原文或现有译文失败:`, error)
+      return null
+    }
+  }
+
+  // 增量翻译：对比翻译时的上游原文与最新原文，只重新翻译变更的块并拼接回现有译文
+  // 无法建立原文与译文的块对应关系时返回 null，由调用方回退到整篇翻译
+  private async translateIncrementally(
+    projectPath: string,
+    filePath: string,
+    workingBranch: string,
+    newSource: string,
+    signal?: AbortSignal
+  ): Promise<BlockTranslationResult | null> {
+    const previous = await this.readPreviousTranslation(projectPath, filePath, workingBranch)
+    if (!previous) return null
+
+    const oldBlocks = parseMarkdownBlocks(previous.original)
+    const translatedBlocks = parseMarkdownBlocks(previous.translated)
+    const newBlocks = parseMarkdownBlocks(newSource)
+
+    // 译文必须与旧原文逐块对应，才能定位需要替换的译文段落
+    if (!areBlocksAligned(oldBlocks, translatedBlocks)) {
+      console.warn(
+        `文件 ${filePath} 的译文与翻译时的原文块结构不一致 (${translatedBlocks.length}/${oldBlocks.length})`
+      )
+      return null
+    }
+
+    // 新原文中每个块对应的已有译文，null 表示需要重新翻译
+    const resolved: Array<string | null> = newBlocks.map(() => null)
+    const ops = diffSequences(
+      oldBlocks.map((block) => block.content),
+      newBlocks.map((block) => block.content)
+    )
+    for (const op of ops) {
+      if (op.type === 'equal') {
+        resolved[op.newIndex] = translatedBlocks[op.oldIndex].content
+      }
+    }
+
+    // 空白块无需翻译
+    newBlocks.forEach((block, index) => {
+      if (block.type === 'blank') resolved[index] = block.content
+    })
+
+    // 变更的块在翻译记忆中有完全相同的原文时直接复用
+    await this.resolveFromMemory(projectPath, newBlocks, resolved)
+
+    const result = await this.translateBlocks(newBlocks, resolved, projectPath, { signal })
+    console.log(
+      `增量翻译 ${filePath}: 重新翻译 ${result.translatedBlocks} 个块，复用 ${result.reusedBlocks} 个块`
+    )
+    return result
+  }
+
+  // 取出译文中与原文逐块对应的内容，兼容普通译文和双语 Markdown，无法对应时返回 null
+  private getBlockTranslations(
+    projectPath: string,
+    filePath: string,
+    sourceBlocks: MarkdownBlock[],
+    translated: string
+  ): string[] | null {
+    const translatedBlocks = parseMarkdownBlocks(translated)
+    if (areBlocksAligned(sourceBlocks, translatedBlocks)) {
+      return translatedBlocks.map((block) => block.content)
+    }
+    if (!/\.mdx?$/i.test(filePath)) {
+      return null
+    }
+    return splitBilingualText(
+      sourceBlocks,
+      translated,
+      this.getProject(projectPath)?.bilingualWrapper
+    )
+  }
+
+  // 生成双语 Markdown：增量模式下原文未变化的块保留现有译文，只更新变化的原文块与译文对
+  private async translateBilingual(
+    projectPath: string,
+    filePath: string,
+    workingBranch: string,
+    source: string,
+    options: TranslationStreamOptions & { mode?: TranslationMode } = {}
+  ): Promise<BlockTranslationResult & { mode: TranslationMode }> {
+    const blocks = parseMarkdownBlocks(source)
+    const resolved: Array<string | null> = blocks.map((block) =>
+      block.type === 'blank' ? block.content : null
+    )
+    let mode: TranslationMode = 'full'
+
+    if (options.mode === 'incremental') {
+      const previous = await this.readPreviousTranslation(projectPath, filePath, workingBranch)
+      const oldBlocks = previous ? parseMarkdownBlocks(previous.original) : []
+      const previousTranslations = previous
+        ? this.getBlockTranslations(projectPath, filePath, oldBlocks, previous.translated)
+        : null
+
+      if (previousTranslations) {
+        const ops = diffSequences(
+          oldBlocks.map((block) => block.content),
+          blocks.map((block) => block.content)
+        )
+        for (const op of ops) {
+          if (op.type === 'equal') {
+            resolved[op.newIndex] = previousTranslations[op.oldIndex]
+          }
+        }
+        mode = 'incremental'
+      } else {
+        console.warn(`文件 ${filePath} 无法与现有的双语译文逐块对应，改为整篇翻译`)
+      }
+    }
+
+    await this.resolveFromMemory(projectPath, blocks, resolved)
+
+    const wrapper = this.getProject(projectPath)?.bilingualWrapper
+    const reusedBlocks = blocks.filter(
+      (block, index) => block.type !== 'blank' && resolved[index] !== null
+    ).length
+    let translatedBlocks = 0
+    let index = 0
+
+    while (index < blocks.length) {
+      if (resolved[index] !== null) {
+        index++
+        continue
+      }
+
+      // 连续的未确定块合并为一次请求，译文块结构与原文一致时逐块对应，否则改为逐块翻译
+      const runStart = index
+      while (index < blocks.length && resolved[index] === null) {
+        index++
+      }
+      const run = blocks.slice(runStart, index)
+      const runText = joinMarkdownBlocks(run.slice(0, -1)) + run[run.length - 1].content
+      const translatedRun = parseMarkdownBlocks(
+        await this.callLLMTranslation(runText, projectPath, { signal: options.signal })
+      )
+
+      if (areBlocksAligned(run, translatedRun)) {
+        translatedRun.forEach((block, offset) => {
+          resolved[runStart + offset] = block.content
+        })
+      } else {
+        console.warn(
+          `文件 ${filePath} 第 ${runStart + 1}-${index} 块的译文结构与原文不一致，改为逐块翻译`
+        )
+        for (let i = runStart; i < index; i++) {
+          resolved[i] = await this.translateSegment(
+            projectPath,
+            blocks[i].content,
+            {},
+            options.signal
+          )
+        }
+      }
+      translatedBlocks += run.length
+
+      // 没有译文的块暂时只输出原文
+      options.onDelta?.(
+        joinBilingualBlocks(
+          blocks,
+          resolved.map((item, i) => item ?? blocks[i].content),
+          wrapper
+        ),
+        true
+      )
+    }
+
+    const content = joinBilingualBlocks(blocks, resolved as string[], wrapper)
+    options.onDelta?.(content, true)
+    console.log(
+      `双语翻译 ${filePath}: 重新翻译 ${translatedBlocks} 个块，复用 ${reusedBlocks} 个块`
+    )
+
+    return { content, mode, translatedBlocks, reusedBlocks }
+  }
+
+  // 整篇翻译时按块查询翻译记忆，没有任何命中时返回 null，由调用方整篇交给模型翻译
+  private async translateWithMemory(
+    projectPath: string,
+    filePath: string,
+    content: string,
+    options: TranslationStreamOptions = {}
+  ): Promise<BlockTranslationResult | null> {
+    const blocks = parseMarkdownBlocks(content)
+    const resolved: Array<string | null> = blocks.map((block) =>
+      block.type === 'blank' ? block.content : null
+    )
+
+    const hits = await this.resolveFromMemory(projectPath, blocks, resolved)
+    if (hits === 0) return null
+
+    const result = await this.translateBlocks(blocks, resolved, projectPath, options)
+    console.log(
+      `文件 ${filePath} 命中 ${hits} 条翻译记忆，重新翻译 ${result.translatedBlocks} 个块`
+    )
+    return result
+  }
+
+  // 用翻译记忆的精确匹配填充尚未确定译文的块，返回命中数量
+  private async resolveFromMemory(
+    projectPath: string,
+    blocks: MarkdownBlock[],
+    resolved: Array<string | null>
+  ): Promise<number> {
+    const project = this.getProject(projectPath)
+    const sourceLanguage = getSourceLanguage(project)
+    const targetLanguage = getActiveLanguage(project)
+    let hits = 0
+
+    for (let i = 0; i < blocks.length; i++) {
+      if (resolved[i] !== null) continue
+
+      try {
+        const entry = await this.translationMemory.lookup(
+          blocks[i].content,
+          sourceLanguage,
+          targetLanguage
+        )
+        if (entry) {
+          resolved[i] = entry.target
+          hits++
+        }
+      } catch (error) {
+        console.warn('查询翻译记忆失败:', error)
+        return hits
+      }
+    }
+
+    return hits
+  }
+
+  // 拼接已确定译文的块，并将连续的未确定块合并为一次请求翻译
+  private async translateBlocks(
+    blocks: MarkdownBlock[],
+    resolved: Array<string | null>,
+    projectPath: string,
+    options: TranslationStreamOptions = {}
+  ): Promise<BlockTranslationResult> {
+    const pieces: MarkdownBlock[] = []
+    let translatedCount = 0
+    let reusedCount = 0
+    let index = 0
+
+    while (index < blocks.length) {
+      if (resolved[index] !== null) {
+        pieces.push({ ...blocks[index], content: resolved[index]! })
+        if (blocks[index].type !== 'blank') reusedCount++
+        index++
+        continue
+      }
+
+      // 将连续的未确定块合并为一次请求，保留上下文
+      const runStart = index
+      while (index < blocks.length && resolved[index] === null) {
+        index++
+      }
+      const run = blocks.slice(runStart, index)
+      const runText = joinMarkdownBlocks(run.slice(0, -1)) + run[run.length - 1].content
+
+      // 流式输出时先同步已拼接的部分，该段的增量译文接在其后
+      const prefix = joinMarkdownBlocks(pieces)
+      options.onDelta?.(prefix, true)
+      const translatedRun = await this.callLLMTranslation(runText, projectPath, {
+        signal: options.signal,
+        onDelta: options.onDelta
+          ? (delta, replace) => options.onDelta?.(replace ? prefix + delta : delta, replace)
+          : undefined
+      })
+      pieces.push({
+        type: 'paragraph',
+        content: translatedRun,
+        separator: run[run.length - 1].separator
+      })
+      translatedCount += run.length
+    }
+
+    const content = joinMarkdownBlocks(pieces)
+    options.onDelta?.(content, true)
+
+    return {
+      content,
+      translatedBlocks: translatedCount,
+      reusedBlocks: reusedCount
+    }
+  }
+
+  // 调用 LLM 翻译，失败时抛出带分类的 LLMError，由调用方保持文件原有状态
+  // 开头的 Front Matter 只翻译项目配置的字段，正文整体翻译
+  private async callLLMTranslation(
+    content: string,
+    projectPath: string,
+    options: TranslationStreamOptions = {}
+  ): Promise<string> {
+    const { frontMatter, body } = splitFrontMatter(content)
+    if (frontMatter === null) {
+      return this.translateMaskedText(content, projectPath, options)
+    }
+
+    const leading = body.match(/^\s*/)?.[0] || ''
+    const prefix =
+      (await this.translateFrontMatter(frontMatter, projectPath, options.signal)) + leading
+    options.onDelta?.(prefix, true)
+
+    const translatedBody = await this.translateMaskedText(body.slice(leading.length), projectPath, {
+      signal: options.signal,
+      onDelta: options.onDelta
+        ? (delta, replace) => options.onDelta?.(replace ? prefix + delta : delta, replace)
+        : undefined
+    })
+    return prefix + translatedBody
+  }
+
+  // 逐个翻译 Front Matter 中配置的字段值，其余内容逐字节保留
+  private async translateFrontMatter(
+    frontMatter: string,
+    projectPath: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const fields = extractFrontMatterFields(
+      frontMatter,
+      getFrontMatterKeys(this.getProject(projectPath))
+    )
+    const translations: string[] = []
+    for (const field of fields) {
+      translations.push(await this.translateSegment(projectPath, field.value, {}, signal))
+    }
+    return applyFrontMatterTranslations(frontMatter, fields, translations)
+  }
+
+  // 代码、链接等受保护内容替换为占位符后再交给模型，译文中的占位符缺失或重复时整个文件翻译失败
+  private async translateMaskedText(
+    content: string,
+    projectPath: string,
+    options: TranslationStreamOptions = {}
+  ): Promise<string> {
+    const masked = maskProtectedContent(content)
+    if (!hasTranslatableText(masked.text)) {
+      return content
+    }
+
+    try {
+      const response = await this.llmService.translateDocument(masked.text, projectPath, {
+        signal: options.signal,
+        onDelta: options.onDelta
+          ? createRestoringDeltaHandler(masked.placeholders, options.onDelta)
+          : undefined
+      })
+
+      return restoreProtectedContent(response.translatedContent, masked.placeholders)
+    } catch (error) {
+      if (!options.signal?.aborted) {
+        console.error('LLM 翻译失败:', error)
+      }
+      throw error
+    }
+  }
+}
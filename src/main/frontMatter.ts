@@ -0,0 +1,158 @@
+// Front Matter 中需要翻译的字段值
+// start/end 为值所在的行范围（相对于 Front Matter 首行），block 样式时为缩进的正文行
+export interface FrontMatterField {
+  key: string
+  value: string
+  style: 'plain' | 'single' | 'double' | 'block'
+  start: number
+  end: number
+  indent: string // block 样式正文行的缩进
+  suffix: string // 值之后原样保留的内容（如行尾注释）
+}
+
+const FRONT_MATTER_REGEX = /^---[ \t]*\r?\n(?:[\s\S]*?\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/
+const KEY_LINE_REGEX = /^([A-Za-z_][\w-]*)(\s*:[ \t]*)(.*)$/
+// YAML 块标量的标记行，如 |、>-、|2
+export const BLOCK_HEADER_REGEX = /^[|>][+-]?\d*[+-]?(\s+#.*)?$/
+
+/**
+ * 拆分文档开头的 YAML Front Matter，frontMatter 包含首尾的 --- 行，没有时为 null
+ */
+export function splitFrontMatter(content: string): { frontMatter: string | null; body: string } {
+  const match = content.match(FRONT_MATTER_REGEX)
+  if (!match) {
+    return { frontMatter: null, body: content }
+  }
+  return { frontMatter: match[0], body: content.slice(match[0].length) }
+}
+
+// 解析单行的标量值，返回 null 表示不是可以安全替换的单行标量（如集合、跨行的引号字符串）
+export function parseInlineValue(
+  rest: string
+): Pick<FrontMatterField, 'value' | 'style' | 'suffix'> | null {
+  if (rest.startsWith('"')) {
+    const match = rest.match(/^"((?:[^"\\]|\\.)*)"(.*)$/)
+    if (!match) return null
+    try {
+      return { value: JSON.parse(`"${match[1]}"`), style: 'double', suffix: match[2] }
+    } catch {
+      return null
+    }
+  }
+
+  if (rest.startsWith("'")) {
+    const match = rest.match(/^'((?:[^']|'')*)'(.*)$/)
+    return match ? { value: match[1].replace(/''/g, "'"), style: 'single', suffix: match[2] } : null
+  }
+
+  if (rest === '' || /^[[{&*!|>]/.test(rest)) return null
+
+  const commentIndex = rest.search(/\s+#/)
+  const value = commentIndex === -1 ? rest : rest.slice(0, commentIndex)
+  return { value: value.trimEnd(), style: 'plain', suffix: rest.slice(value.trimEnd().length) }
+}
+
+/**
+ * 找出 Front Matter 中指定顶层字段的字符串值
+ * 只处理单行标量和 | / > 块标量，其它写法的字段保持原样不翻译
+ */
+export function extractFrontMatterFields(frontMatter: string, keys: string[]): FrontMatterField[] {
+  const lines = frontMatter.split('\n').map((line) => line.replace(/\r$/, ''))
+  const fields: FrontMatterField[] = []
+
+  // 首行为 ---，最后一个非空行为结束标记
+  for (let i = 1; i < lines.length - 1; i++) {
+    const match = lines[i].match(KEY_LINE_REGEX)
+    if (!match || !keys.includes(match[1])) continue
+
+    const [, key, , rest] = match
+    if (BLOCK_HEADER_REGEX.test(rest)) {
+      let end = i + 1
+      while (end < lines.length - 1 && (lines[end].trim() === '' || /^\s/.test(lines[end]))) {
+        end++
+      }
+      // 末尾的空行不属于块内容
+      while (end > i + 1 && lines[end - 1].trim() === '') {
+        end--
+      }
+      if (end === i + 1) continue
+
+      const indent = lines[i + 1].match(/^\s*/)?.[0] || ''
+      const value = lines
+        .slice(i + 1, end)
+        .map((line) => (line.startsWith(indent) ? line.slice(indent.length) : line.trim()))
+        .join('\n')
+      fields.push({ key, value, style: 'block', start: i + 1, end, indent, suffix: '' })
+      i = end - 1
+      continue
+    }
+
+    const parsed = parseInlineValue(rest)
+    // 下一行缩进说明值跨行或是嵌套结构，不处理
+    if (!parsed || parsed.value.trim() === '' || /^\s+\S/.test(lines[i + 1] || '')) continue
+
+    fields.push({ key, ...parsed, start: i, end: i + 1, indent: '' })
+  }
+
+  return fields
+}
+
+// 普通标量中出现这些内容时需要加引号，否则 YAML 会解析成其它类型或出错
+function needsQuotes(value: string): boolean {
+  return (
+    value === '' ||
+    value !== value.trim() ||
+    value.includes('\n') ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+    /:(\s|$)|\s#/.test(value) ||
+    /^(true|false|yes|no|on|off|null|~|[-+]?[\d.]+)$/i.test(value)
+  )
+}
+
+// 按字段原来的引号风格输出新的值
+export function formatValue(field: Pick<FrontMatterField, 'style'>, value: string): string {
+  switch (field.style) {
+    case 'double':
+      return JSON.stringify(value)
+    case 'single':
+      return value.includes('\n') ? JSON.stringify(value) : `'${value.replace(/'/g, "''")}'`
+    default:
+      return needsQuotes(value) ? JSON.stringify(value) : value
+  }
+}
+
+/**
+ * 用译文替换字段的值，其余内容（包括换行符、缩进和注释）逐字节保留
+ * translations[i] 为 fields[i] 的译文
+ */
+export function applyFrontMatterTranslations(
+  frontMatter: string,
+  fields: FrontMatterField[],
+  translations: string[]
+): string {
+  const lines = frontMatter.split('\n')
+  const lineEnding = (line: string): string => (line.endsWith('\r') ? '\r' : '')
+
+  // 从后往前替换，块标量的行数变化不影响前面字段的行号
+  for (let index = fields.length - 1; index >= 0; index--) {
+    const field = fields[index]
+    const translation = translations[index]
+    if (translation === undefined || translation === field.value) continue
+
+    if (field.style === 'block') {
+      const ending = lineEnding(lines[field.start])
+      const blockLines = translation
+        .split('\n')
+        .map((line) => (line ? field.indent + line : line) + ending)
+      lines.splice(field.start, field.end - field.start, ...blockLines)
+    } else {
+      const line = lines[field.start]
+      const match = line.replace(/\r$/, '').match(KEY_LINE_REGEX)
+      if (!match) continue
+      lines[field.start] =
+        match[1] + match[2] + formatValue(field, translation) + field.suffix + lineEnding(line)
+    }
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,92 @@
+import { GlossaryEntry } from './config'
+
+// 译文中未按术语表处理的术语
+export interface GlossaryViolation {
+  term: string
+  expected: string // 译文中应出现的内容：不翻译的术语为原文，否则为指定译法
+  doNotTranslate: boolean
+  occurrences: number // 术语在原文中出现的次数
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 以字母数字开头或结尾的术语按单词边界匹配，避免 "hook" 匹配到 "webhook"；英文术语同时匹配复数形式
+function buildTermRegex(term: string, caseSensitive: boolean, allowPlural: boolean): RegExp {
+  const prefix = /^\w/.test(term) ? '(?<![\\w-])' : ''
+  const plural = allowPlural && /[a-zA-Z]$/.test(term) ? '(?:e?s)?' : ''
+  const suffix = /\w$/.test(term) ? '(?![\\w-])' : ''
+  return new RegExp(prefix + escapeRegExp(term) + plural + suffix, caseSensitive ? 'g' : 'gi')
+}
+
+function countMatches(content: string, regex: RegExp): number {
+  return content.match(regex)?.length || 0
+}
+
+/**
+ * 获取对指定目标语言生效的术语条目，忽略术语为空的条目
+ */
+export function getGlossaryEntries(
+  glossary: GlossaryEntry[] | undefined,
+  language: string
+): GlossaryEntry[] {
+  return (glossary || []).filter(
+    (entry) =>
+      entry.term.trim() !== '' &&
+      (entry.doNotTranslate || entry.translation.trim() !== '') &&
+      (!entry.language || entry.language === language)
+  )
+}
+
+/**
+ * 找出在内容中出现的术语条目
+ */
+export function findGlossaryTerms(content: string, entries: GlossaryEntry[]): GlossaryEntry[] {
+  return entries.filter((entry) =>
+    buildTermRegex(entry.term.trim(), !!entry.caseSensitive, true).test(content)
+  )
+}
+
+/**
+ * 生成附加在系统提示词之后的术语表说明
+ */
+export function buildGlossaryPrompt(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return ''
+
+  const lines = entries.map((entry) =>
+    entry.doNotTranslate
+      ? `- ${entry.term.trim()}：保持原文，不要翻译`
+      : `- ${entry.term.trim()}：译为「${entry.translation.trim()}」`
+  )
+  return `\n\n翻译时必须遵守以下术语表：\n${lines.join('\n')}`
+}
+
+/**
+ * 检查译文是否遵守术语表：原文中出现的术语，译文中应至少出现一次指定译法（不翻译的术语应保留原文）
+ */
+export function checkGlossary(
+  source: string,
+  translation: string,
+  entries: GlossaryEntry[]
+): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = []
+
+  for (const entry of entries) {
+    const term = entry.term.trim()
+    const caseSensitive = !!entry.caseSensitive
+    const occurrences = countMatches(source, buildTermRegex(term, caseSensitive, true))
+    if (occurrences === 0) continue
+
+    const expected = entry.doNotTranslate ? term : entry.translation.trim()
+    const found = entry.doNotTranslate
+      ? countMatches(translation, buildTermRegex(term, caseSensitive, true))
+      : countMatches(translation, buildTermRegex(expected, caseSensitive, false))
+
+    if (found === 0) {
+      violations.push({ term, expected, doNotTranslate: !!entry.doNotTranslate, occurrences })
+    }
+  }
+
+  return violations
+}
@@ -5,10 +5,12 @@ import icon from '../../resources/icon.png?asset'
 import { ConfigManager } from './config'
 import { FileManager } from './fileManager'
 import { GitService } from './gitService'
+import { TranslationMemory } from './translationMemory'
 
 let configManager: ConfigManager
 let fileManager: FileManager
 let gitService: GitService
+let translationMemory: TranslationMemory
 
 function createWindow(): void {
   // Create the browser window.
@@ -53,8 +55,11 @@ app.whenReady().then(async () => {
   configManager = new ConfigManager()
   await configManager.loadConfig()
 
+  // 初始化翻译记忆
+  translationMemory = new TranslationMemory()
+
   // 初始化文件管理器
-  fileManager = new FileManager(configManager)
+  fileManager = new FileManager(configManager, translationMemory)
 
   // 初始化Git服务
   gitService = new GitService()
@@ -154,14 +159,55 @@ app.whenReady().then(async () => {
     return await fileManager.getFileContent(projectPath, filePath, upstreamBranch, workingBranch)
   })
 
+  ipcMain.handle(
+    'files:get-source-diff',
+    async (_, projectPath, filePath, upstreamBranch, workingBranch) => {
+      return await fileManager.getSourceDiff(projectPath, filePath, upstreamBranch, workingBranch)
+    }
+  )
+
   ipcMain.handle('files:save-file-content', async (_, projectPath, filePath, content) => {
-    await fileManager.saveFileContent(projectPath, filePath, content)
-    return true
+    return await fileManager.saveFileContent(projectPath, filePath, content)
+  })
+
+  ipcMain.handle(
+    'files:translate-file',
+    async (event, projectPath, filePath, upstreamBranch, workingBranch, options) => {
+      const { stream, ...translateOptions } = options || {}
+      // 开启流式输出时，通过事件通道将增量译文推送给渲染进程
+      const onDelta = stream
+        ? (delta: string, replace?: boolean): void => {
+            if (!event.sender.isDestroyed()) {
+              event.sender.send('files:translation-delta', {
+                projectPath,
+                filePath,
+                delta,
+                replace: !!replace
+              })
+            }
+          }
+        : undefined
+      return await fileManager.translateFile(projectPath, filePath, upstreamBranch, workingBranch, {
+        ...translateOptions,
+        onDelta
+      })
+    }
+  )
+
+  ipcMain.handle('files:cancel-translation', async (_, projectPath, filePath) => {
+    return fileManager.cancelTranslation(projectPath, filePath)
   })
 
-  ipcMain.handle('files:translate-file', async (_, projectPath, filePath, upstreamBranch, workingBranch) => {
-    await fileManager.translateFile(projectPath, filePath, upstreamBranch, workingBranch)
-    return true
+  ipcMain.handle('files:translate-segment', async (_, projectPath, content, context) => {
+    return await fileManager.translateSegment(projectPath, content, context)
+  })
+
+  ipcMain.handle('files:check-glossary', async (_, projectPath, original, translated) => {
+    return fileManager.checkGlossary(projectPath, original, translated)
+  })
+
+  ipcMain.handle('files:run-qa', async (_, projectPath, filePath, original, translated) => {
+    return fileManager.runQAChecks(projectPath, filePath, original, translated)
   })
 
   // IPC handlers for cache management
@@ -170,8 +216,29 @@ app.whenReady().then(async () => {
     return true
   })
 
-  ipcMain.handle('files:clear-branch-cache', async (_, projectPath, workingBranch, upstreamBranch) => {
-    fileManager.clearBranchCache(projectPath, workingBranch, upstreamBranch)
+  ipcMain.handle(
+    'files:clear-branch-cache',
+    async (_, projectPath, workingBranch, upstreamBranch) => {
+      fileManager.clearBranchCache(projectPath, workingBranch, upstreamBranch)
+      return true
+    }
+  )
+
+  // IPC handlers for translation memory
+  ipcMain.handle('memory:get-stats', async () => {
+    return await translationMemory.getStats()
+  })
+
+  ipcMain.handle('memory:import-tmx', async () => {
+    return await translationMemory.importTMX()
+  })
+
+  ipcMain.handle('memory:export-tmx', async () => {
+    return await translationMemory.exportTMX()
+  })
+
+  ipcMain.handle('memory:clear', async () => {
+    await translationMemory.clear()
     return true
   })
 
@@ -0,0 +1,84 @@
+// LLM 调用失败的类型
+export type LLMErrorCategory =
+  | 'auth' // API Key 无效或无权限
+  | 'rate_limit' // 请求过于频繁或额度不足
+  | 'context_length' // 输入或输出超出模型的上下文长度
+  | 'network' // 网络错误或服务端异常
+  | 'invalid_response' // 响应格式无效或内容为空
+  | 'cancelled' // 用户取消
+  | 'unknown'
+
+const CATEGORIES: LLMErrorCategory[] = [
+  'auth',
+  'rate_limit',
+  'context_length',
+  'network',
+  'invalid_response',
+  'cancelled',
+  'unknown'
+]
+
+const CONTEXT_LENGTH_REGEX =
+  /context[_ ]length|maximum context|too many tokens|max_tokens|token limit|too long/i
+
+/**
+ * 带分类的 LLM 错误
+ * IPC 只会传递错误的 message，因此分类以 [category] 前缀写入 message，渲染进程据此解析
+ */
+export class LLMError extends Error {
+  category: LLMErrorCategory
+  status?: number
+  retryAfterMs?: number // 服务端通过 Retry-After 要求的等待时间
+
+  constructor(category: LLMErrorCategory, message: string, status?: number, retryAfterMs?: number) {
+    super(`[${category}] ${message}`)
+    this.name = 'LLMError'
+    this.category = category
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * 根据 HTTP 状态码和错误信息判断错误类型
+ */
+export function classifyHttpError(status: number, message: string): LLMErrorCategory {
+  if (status === 401 || status === 403) return 'auth'
+  if (status === 429) return 'rate_limit'
+  if (CONTEXT_LENGTH_REGEX.test(message)) return 'context_length'
+  if (status === 413) return 'context_length'
+  if (status >= 500 || status === 408) return 'network'
+  return 'unknown'
+}
+
+/**
+ * 从错误信息中解析出错误类型，用于判断已经转成普通 Error 的 LLMError
+ */
+export function getErrorCategory(error: unknown): LLMErrorCategory {
+  if (error instanceof LLMError) return error.category
+
+  const match = (error as Error)?.message?.match(/\[([a-z_]+)\]/)
+  if (match && CATEGORIES.includes(match[1] as LLMErrorCategory)) {
+    return match[1] as LLMErrorCategory
+  }
+  return 'unknown'
+}
+
+/**
+ * 该类型的错误是否值得重试（认证失败、超出上下文长度、用户取消重试也不会成功）
+ */
+export function isRetryableError(category: LLMErrorCategory): boolean {
+  return (
+    category === 'rate_limit' ||
+    category === 'network' ||
+    category === 'invalid_response' ||
+    category === 'unknown'
+  )
+}
+
+/**
+ * 限流和网络错误属于暂时性错误，由请求调度器统一退避重试
+ */
+export function isTransientError(category: LLMErrorCategory): boolean {
+  return category === 'rate_limit' || category === 'network'
+}
@@ -0,0 +1,244 @@
+import { describe, expect, it } from 'vitest'
+import { classifyHttpError, getErrorCategory, LLMError } from './llmErrors'
+import { CompletionRequest, getProvider, StreamEventResult } from './llmProviders'
+
+const request: CompletionRequest = {
+  systemPrompt: '翻译成中文',
+  content: 'Hello',
+  temperature: 0.3,
+  stream: false
+}
+
+// 依次解析流式事件，拼接增量文本并合并用量
+function collectStream(type: string, events: unknown[]): StreamEventResult {
+  const provider = getProvider(type)
+  return events.reduce<StreamEventResult>((result, event) => {
+    const parsed = provider.parseStreamEvent(event)
+    return {
+      delta: (result.delta || '') + (parsed.delta || ''),
+      finishReason: parsed.finishReason || result.finishReason,
+      usage: { ...result.usage, ...parsed.usage }
+    }
+  }, {})
+}
+
+function expectLLMError(fn: () => unknown, category: string): void {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(LLMError)
+    expect((error as LLMError).category).toBe(category)
+    return
+  }
+  throw new Error('未抛出错误')
+}
+
+describe('getProvider', () => {
+  it('未知类型按 OpenAI 兼容接口处理', () => {
+    expect(getProvider(undefined).type).toBe('openai')
+    expect(getProvider('unknown').type).toBe('openai')
+    expect(getProvider('anthropic').type).toBe('anthropic')
+  })
+})
+
+describe('Anthropic', () => {
+  const provider = getProvider('anthropic')
+
+  it('系统提示词单独传递，使用 x-api-key 认证', () => {
+    const http = provider.buildCompletionRequest(
+      { apiKey: 'sk-ant', model: 'claude-model', baseUrl: 'https://proxy.example.com/v1/' },
+      request
+    )
+    expect(http.url).toBe('https://proxy.example.com/v1/messages')
+    expect(http.headers['x-api-key']).toBe('sk-ant')
+    expect(http.headers['anthropic-version']).toBeTruthy()
+    expect(http.headers['Authorization']).toBeUndefined()
+    expect(JSON.parse(http.body)).toMatchObject({
+      model: 'claude-model',
+      system: '翻译成中文',
+      messages: [{ role: 'user', content: 'Hello' }],
+      temperature: 0.3,
+      stream: false
+    })
+  })
+
+  it('合并文本块，停止原因和用量转换为 OpenAI 的取值', () => {
+    const result = provider.parseCompletion({
+      content: [
+        { type: 'text', text: '你好' },
+        { type: 'tool_use' },
+        { type: 'text', text: '世界' }
+      ],
+      stop_reason: 'max_tokens',
+      usage: { input_tokens: 10, output_tokens: 5 }
+    })
+    expect(result).toEqual({
+      content: '你好世界',
+      finishReason: 'length',
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    })
+    expect(
+      provider.parseCompletion({ content: [{ type: 'text', text: '好' }], stop_reason: 'end_turn' })
+        .finishReason
+    ).toBe('stop')
+  })
+
+  it('没有文本内容时视为无效响应', () => {
+    expectLLMError(() => provider.parseCompletion({ content: [] }), 'invalid_response')
+    expectLLMError(() => provider.parseCompletion(null), 'invalid_response')
+  })
+
+  it('解析流式事件', () => {
+    const result = collectStream('anthropic', [
+      { type: 'message_start', message: { usage: { input_tokens: 12 } } },
+      { type: 'content_block_start' },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: '你' } },
+      { type: 'ping' },
+      { type: 'content_block_delta', delta: { type: 'text_delta', text: '好' } },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } },
+      { type: 'message_stop' }
+    ])
+    expect(result).toEqual({
+      delta: '你好',
+      finishReason: 'stop',
+      usage: { promptTokens: 12, completionTokens: 3 }
+    })
+  })
+
+  it('流式错误事件按类型分类', () => {
+    const error = { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }
+    expectLLMError(() => provider.parseStreamEvent(error), 'network')
+    const limited = { type: 'error', error: { type: 'rate_limit_error', message: 'slow down' } }
+    expectLLMError(() => provider.parseStreamEvent(limited), 'rate_limit')
+  })
+})
+
+describe('Azure OpenAI', () => {
+  const provider = getProvider('azure')
+
+  it('按部署名称和 API 版本访问，使用 api-key 认证', () => {
+    const http = provider.buildCompletionRequest(
+      {
+        apiKey: 'azure-key',
+        model: 'gpt 4o',
+        baseUrl: 'https://res.openai.azure.com/',
+        apiVersion: '2024-10-21'
+      },
+      { ...request, stream: true }
+    )
+    expect(http.url).toBe(
+      'https://res.openai.azure.com/openai/deployments/gpt%204o/chat/completions?api-version=2024-10-21'
+    )
+    expect(http.headers['api-key']).toBe('azure-key')
+    expect(http.headers['Authorization']).toBeUndefined()
+    const body = JSON.parse(http.body)
+    expect(body.model).toBeUndefined()
+    expect(body.stream).toBe(true)
+    expect(body.messages).toEqual([
+      { role: 'system', content: '翻译成中文' },
+      { role: 'user', content: 'Hello' }
+    ])
+  })
+
+  it('未填写 API 版本时使用默认版本', () => {
+    const http = provider.buildCompletionRequest(
+      { apiKey: 'azure-key', model: 'gpt-4o', baseUrl: 'https://res.openai.azure.com' },
+      request
+    )
+    expect(http.url).toMatch(/\?api-version=\d{4}-\d{2}-\d{2}$/)
+  })
+
+  it('缺少资源地址时报认证错误', () => {
+    expectLLMError(
+      () => provider.buildCompletionRequest({ apiKey: 'azure-key', model: 'gpt-4o' }, request),
+      'auth'
+    )
+  })
+
+  it('解析 OpenAI 格式的响应', () => {
+    const result = provider.parseCompletion({
+      choices: [{ message: { content: '你好' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 8, completion_tokens: 2, total_tokens: 10 }
+    })
+    expect(result).toEqual({
+      content: '你好',
+      finishReason: 'stop',
+      usage: { promptTokens: 8, completionTokens: 2, totalTokens: 10 }
+    })
+    expectLLMError(() => provider.parseCompletion({ choices: [] }), 'invalid_response')
+  })
+})
+
+describe('Ollama', () => {
+  const provider = getProvider('ollama')
+
+  it('默认访问本地服务，未填写 API Key 时不发送认证头', () => {
+    expect(provider.requiresApiKey).toBe(false)
+    const http = provider.buildCompletionRequest({ apiKey: '', model: 'qwen2.5' }, request)
+    expect(http.url).toBe('http://localhost:11434/v1/chat/completions')
+    expect(http.headers['Authorization']).toBeUndefined()
+    expect(JSON.parse(http.body).model).toBe('qwen2.5')
+    expect(provider.buildModelsRequest({ apiKey: '', model: '' })).toEqual({
+      url: 'http://localhost:11434/v1/models',
+      headers: {}
+    })
+  })
+
+  it('填写 API Key 时使用 Bearer 认证', () => {
+    const http = provider.buildCompletionRequest(
+      { apiKey: 'local-key', model: 'qwen2.5', baseUrl: 'http://127.0.0.1:8080/v1' },
+      request
+    )
+    expect(http.url).toBe('http://127.0.0.1:8080/v1/chat/completions')
+    expect(http.headers['Authorization']).toBe('Bearer local-key')
+  })
+
+  it('解析 OpenAI 格式的流式事件', () => {
+    const result = collectStream('ollama', [
+      { choices: [{ delta: { content: '你' } }] },
+      { choices: [{ delta: { content: '好' }, finish_reason: null }] },
+      { choices: [{ delta: {}, finish_reason: 'length' }] },
+      {
+        choices: [],
+        usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 }
+      }
+    ])
+    expect(result).toEqual({
+      delta: '你好',
+      finishReason: 'length',
+      usage: { promptTokens: 4, completionTokens: 2, totalTokens: 6 }
+    })
+  })
+
+  it('流式响应中的 error 字段转换为 LLMError', () => {
+    expectLLMError(
+      () => provider.parseStreamEvent({ error: { type: 'server_error', message: 'boom' } }),
+      'unknown'
+    )
+  })
+})
+
+describe('错误分类', () => {
+  it('按 HTTP 状态码和错误信息分类', () => {
+    expect(classifyHttpError(401, 'invalid x-api-key')).toBe('auth')
+    expect(classifyHttpError(403, 'forbidden')).toBe('auth')
+    expect(classifyHttpError(429, 'rate limited')).toBe('rate_limit')
+    expect(classifyHttpError(400, 'prompt is too long: 210000 tokens > 200000 maximum')).toBe(
+      'context_length'
+    )
+    expect(classifyHttpError(400, "This model's maximum context length is 8192 tokens")).toBe(
+      'context_length'
+    )
+    expect(classifyHttpError(413, 'payload too large')).toBe('context_length')
+    expect(classifyHttpError(529, 'overloaded')).toBe('network')
+    expect(classifyHttpError(408, 'timeout')).toBe('network')
+    expect(classifyHttpError(400, 'bad request')).toBe('unknown')
+  })
+
+  it('从转成普通 Error 的错误信息中还原类型', () => {
+    expect(getErrorCategory(new LLMError('rate_limit', 'slow down'))).toBe('rate_limit')
+    expect(getErrorCategory(new Error('[auth] API Key 无效'))).toBe('auth')
+    expect(getErrorCategory(new Error('[not_a_category] x'))).toBe('unknown')
+    expect(getErrorCategory(undefined)).toBe('unknown')
+  })
+})
@@ -0,0 +1,341 @@
+import { LLMProviderType } from './config'
+import { LLMError } from './llmErrors'
+
+// 支持的 LLM 服务类型：
+// openai：OpenAI 及兼容 /chat/completions 接口的服务（OpenRouter 等）
+// anthropic：Anthropic Messages API
+// azure：Azure OpenAI，按部署名称访问
+// ollama：本地 Ollama / llama.cpp 等兼容 OpenAI 接口的服务，无需 API Key
+
+export const DEFAULT_PROVIDER: LLMProviderType = 'openai'
+
+// 构造请求所需的连接配置
+export interface ProviderConfig {
+  apiKey: string
+  model: string // Azure 下为部署名称
+  baseUrl?: string
+  apiVersion?: string // 仅 Azure 使用
+}
+
+export interface CompletionRequest {
+  systemPrompt: string
+  content: string
+  temperature: number
+  stream: boolean
+}
+
+export interface HttpRequest {
+  url: string
+  headers: Record<string, string>
+  body: string
+}
+
+// 统一后的 token 用量
+export interface ProviderUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+// 非流式响应解析结果；finishReason 统一为 OpenAI 的取值（stop / length）
+export interface CompletionResult {
+  content: string
+  finishReason?: string
+  usage?: ProviderUsage
+}
+
+// 流式响应中单个事件的解析结果
+export interface StreamEventResult {
+  delta?: string
+  finishReason?: string
+  usage?: Partial<ProviderUsage>
+}
+
+export interface LLMProvider {
+  type: LLMProviderType
+  requiresApiKey: boolean
+  buildCompletionRequest(config: ProviderConfig, request: CompletionRequest): HttpRequest
+  parseCompletion(data: unknown): CompletionResult
+  parseStreamEvent(data: unknown): StreamEventResult
+  buildModelsRequest(config: ProviderConfig): { url: string; headers: Record<string, string> }
+}
+
+// 默认的最大输出 token 数
+const OPENAI_MAX_TOKENS = 32000
+const ANTHROPIC_MAX_TOKENS = 8192
+
+const ANTHROPIC_VERSION = '2023-06-01'
+const DEFAULT_AZURE_API_VERSION = '2024-06-01'
+
+// 去掉 Base URL 末尾的斜杠
+function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, '')
+}
+
+// 流式响应中的 error 字段
+function throwStreamError(error: { message?: string; type?: string }): never {
+  const category =
+    error.type === 'rate_limit_error'
+      ? 'rate_limit'
+      : error.type === 'overloaded_error'
+        ? 'network'
+        : 'unknown'
+  throw new LLMError(category, error.message || '流式响应返回错误')
+}
+
+// OpenAI /chat/completions 格式的响应
+interface ChatCompletionData {
+  choices?: Array<{
+    message?: { content?: string }
+    delta?: { content?: string }
+    finish_reason?: string | null
+  }>
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number }
+  error?: { message?: string; type?: string }
+}
+
+// Anthropic Messages API 的响应及流式事件
+interface AnthropicData {
+  type?: string
+  content?: Array<{ type: string; text?: string }>
+  stop_reason?: string | null
+  usage?: { input_tokens?: number; output_tokens?: number }
+  message?: { usage?: { input_tokens?: number } }
+  delta?: { type?: string; text?: string; stop_reason?: string | null }
+  error?: { message?: string; type?: string }
+}
+
+// OpenAI /chat/completions 格式的请求体和响应解析，Azure 与本地服务共用
+function buildChatBody(model: string | undefined, request: CompletionRequest): string {
+  return JSON.stringify({
+    ...(model ? { model } : {}),
+    messages: [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content: request.content }
+    ],
+    temperature: request.temperature,
+    max_tokens: OPENAI_MAX_TOKENS,
+    stream: request.stream
+  })
+}
+
+function parseChatCompletion(raw: unknown): CompletionResult {
+  const data = raw as ChatCompletionData
+  const choice = data?.choices?.[0]
+  const content = choice?.message?.content
+  if (!content) {
+    throw new LLMError('invalid_response', 'API 响应格式无效')
+  }
+
+  return {
+    content,
+    finishReason: choice.finish_reason || undefined,
+    usage: data.usage
+      ? {
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: data.usage.completion_tokens,
+          totalTokens: data.usage.total_tokens
+        }
+      : undefined
+  }
+}
+
+function parseChatStreamEvent(raw: unknown): StreamEventResult {
+  const data = raw as ChatCompletionData
+  if (data?.error) {
+    throwStreamError(data.error)
+  }
+
+  const choice = data?.choices?.[0]
+  return {
+    delta: choice?.delta?.content || undefined,
+    finishReason: choice?.finish_reason || undefined,
+    usage: data?.usage
+      ? {
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: data.usage.completion_tokens,
+          totalTokens: data.usage.total_tokens
+        }
+      : undefined
+  }
+}
+
+const openaiProvider: LLMProvider = {
+  type: 'openai',
+  requiresApiKey: true,
+  buildCompletionRequest(config, request) {
+    return {
+      url: `${trimBaseUrl(config.baseUrl || 'https://api.openai.com/v1')}/chat/completions`,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${config.apiKey}`
+      },
+      body: buildChatBody(config.model, request)
+    }
+  },
+  parseCompletion: parseChatCompletion,
+  parseStreamEvent: parseChatStreamEvent,
+  buildModelsRequest(config) {
+    return {
+      url: `${trimBaseUrl(config.baseUrl || 'https://api.openai.com/v1')}/models`,
+      headers: { Authorization: `Bearer ${config.apiKey}` }
+    }
+  }
+}
+
+// Azure OpenAI：Base URL 为资源地址（https://<resource>.openai.azure.com），模型名称填写部署名称
+const azureProvider: LLMProvider = {
+  type: 'azure',
+  requiresApiKey: true,
+  buildCompletionRequest(config, request) {
+    if (!config.baseUrl) {
+      throw new LLMError('auth', 'Azure OpenAI 需要配置资源地址（Base URL）')
+    }
+
+    const apiVersion = config.apiVersion || DEFAULT_AZURE_API_VERSION
+    const deployment = encodeURIComponent(config.model)
+    return {
+      url: `${trimBaseUrl(config.baseUrl)}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`,
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': config.apiKey
+      },
+      body: buildChatBody(undefined, request)
+    }
+  },
+  parseCompletion: parseChatCompletion,
+  parseStreamEvent: parseChatStreamEvent,
+  buildModelsRequest(config) {
+    const apiVersion = config.apiVersion || DEFAULT_AZURE_API_VERSION
+    return {
+      url: `${trimBaseUrl(config.baseUrl || '')}/openai/deployments?api-version=${apiVersion}`,
+      headers: { 'api-key': config.apiKey }
+    }
+  }
+}
+
+// 本地 Ollama / llama.cpp：使用兼容 OpenAI 的 /v1/chat/completions 接口
+const ollamaProvider: LLMProvider = {
+  type: 'ollama',
+  requiresApiKey: false,
+  buildCompletionRequest(config, request) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`
+    }
+
+    return {
+      url: `${trimBaseUrl(config.baseUrl || 'http://localhost:11434/v1')}/chat/completions`,
+      headers,
+      body: buildChatBody(config.model, request)
+    }
+  },
+  parseCompletion: parseChatCompletion,
+  parseStreamEvent: parseChatStreamEvent,
+  buildModelsRequest(config) {
+    const headers: Record<string, string> = {}
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`
+    }
+
+    return {
+      url: `${trimBaseUrl(config.baseUrl || 'http://localhost:11434/v1')}/models`,
+      headers
+    }
+  }
+}
+
+// Anthropic 的停止原因转换为 OpenAI 的取值
+function mapAnthropicStopReason(reason: string | undefined): string | undefined {
+  if (!reason) return undefined
+  return reason === 'max_tokens' ? 'length' : 'stop'
+}
+
+const anthropicProvider: LLMProvider = {
+  type: 'anthropic',
+  requiresApiKey: true,
+  buildCompletionRequest(config, request) {
+    return {
+      url: `${trimBaseUrl(config.baseUrl || 'https://api.anthropic.com/v1')}/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model: config.model,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.content }],
+        temperature: request.temperature,
+        max_tokens: ANTHROPIC_MAX_TOKENS,
+        stream: request.stream
+      })
+    }
+  },
+  parseCompletion(raw) {
+    const data = raw as AnthropicData
+    const blocks = Array.isArray(data?.content) ? data.content : []
+    const content = blocks
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text)
+      .join('')
+    if (!content) {
+      throw new LLMError('invalid_response', 'API 响应格式无效')
+    }
+
+    const inputTokens = data.usage?.input_tokens || 0
+    const outputTokens = data.usage?.output_tokens || 0
+    return {
+      content,
+      finishReason: mapAnthropicStopReason(data.stop_reason || undefined),
+      usage: data.usage
+        ? {
+            promptTokens: inputTokens,
+            completionTokens: outputTokens,
+            totalTokens: inputTokens + outputTokens
+          }
+        : undefined
+    }
+  },
+  parseStreamEvent(raw) {
+    const data = raw as AnthropicData
+    switch (data?.type) {
+      case 'error':
+        return throwStreamError(data.error || {})
+      case 'message_start':
+        return { usage: { promptTokens: data.message?.usage?.input_tokens || 0 } }
+      case 'content_block_delta':
+        return { delta: data.delta?.type === 'text_delta' ? data.delta.text : undefined }
+      case 'message_delta':
+        return {
+          finishReason: mapAnthropicStopReason(data.delta?.stop_reason || undefined),
+          usage: { completionTokens: data.usage?.output_tokens || 0 }
+        }
+      default:
+        return {}
+    }
+  },
+  buildModelsRequest(config) {
+    return {
+      url: `${trimBaseUrl(config.baseUrl || 'https://api.anthropic.com/v1')}/models`,
+      headers: {
+        'x-api-key': config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      }
+    }
+  }
+}
+
+const PROVIDERS: Record<LLMProviderType, LLMProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  azure: azureProvider,
+  ollama: ollamaProvider
+}
+
+/**
+ * 获取指定类型的服务适配器，未知类型按 OpenAI 兼容接口处理
+ */
+export function getProvider(type?: string): LLMProvider {
+  return PROVIDERS[type as LLMProviderType] || PROVIDERS[DEFAULT_PROVIDER]
+}
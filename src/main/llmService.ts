@@ -1,19 +1,60 @@
-import { ConfigManager } from './config'
+import {
+  ConfigManager,
+  LLMProviderType,
+  getActiveLanguage,
+  getLanguageName,
+  getSourceLanguage
+} from './config'
+import {
+  chunkMarkdown,
+  DEFAULT_CHUNK_SIZE,
+  joinMarkdownChunks,
+  MarkdownChunk
+} from './markdownChunker'
+import {
+  LLMError,
+  classifyHttpError,
+  getErrorCategory,
+  isRetryableError,
+  isTransientError
+} from './llmErrors'
+import { RequestScheduler, estimateTokens, parseRetryAfter } from './requestScheduler'
+import { CompletionResult, getProvider, LLMProvider } from './llmProviders'
+import { buildGlossaryPrompt, findGlossaryTerms, getGlossaryEntries } from './glossary'
+import { TranslationMemory, TranslationMemoryMatch } from './translationMemory'
+import { parseMarkdownBlocks } from '../shared/markdownBlocks'
+import { hasPlaceholders, PLACEHOLDER_PROMPT } from './placeholderMasker'
 
 export interface LLMConfig {
+  provider?: LLMProviderType // 服务类型，默认 openai
   apiKey: string
   model: string
   baseUrl?: string
+  apiVersion?: string // Azure OpenAI 的 API 版本
+  chunkSize?: number // 长文档分块翻译时每块的最大字符数
+  chunkRetries?: number // 单个分块翻译失败后的重试次数
+  requestsPerMinute?: number // 每分钟最多请求数
+  tokensPerMinute?: number // 每分钟最多 token 数
+  maxRetries?: number // 限流或网络错误时的最大重试次数
+}
+
+// 分块翻译时提供给模型的相邻原文，只用于理解上下文，不需要翻译
+export interface TranslationContext {
+  before?: string
+  after?: string
 }
 
 export interface TranslationRequest {
   content: string
   prompt?: string
+  context?: TranslationContext
+  instructions?: string // 附加到系统提示词末尾的说明，如多段合并翻译时的格式要求
 }
 
 export interface TranslationResponse {
   translatedContent: string
   model: string
+  finishReason?: string
   usage?: {
     promptTokens: number
     completionTokens: number
@@ -21,138 +62,503 @@ export interface TranslationResponse {
   }
 }
 
+// 流式翻译选项：onDelta 接收模型输出的增量文本，replace 为 true 时表示用该文本替换已输出的全部内容
+export interface TranslationStreamOptions {
+  onDelta?: (delta: string, replace?: boolean) => void
+  signal?: AbortSignal
+}
+
+// 整篇翻译文档的选项，instructions 附加到每个分块请求的系统提示词末尾
+export interface DocumentTranslationOptions extends TranslationStreamOptions {
+  instructions?: string
+}
+
+// 默认的分块重试次数
+const DEFAULT_CHUNK_RETRIES = 2
+
+// 相邻分块作为上下文时截取的最大字符数
+const CONTEXT_CHARS = 800
+
+// 翻译记忆参考：参与模糊匹配的段落最短长度，以及附加到提示词中的最大条数
+const MEMORY_MIN_CHARS = 20
+const MEMORY_MAX_REFERENCES = 5
+
 export class LLMService {
   private configManager: ConfigManager
+  private scheduler: RequestScheduler
+  private translationMemory?: TranslationMemory
 
-  constructor(configManager: ConfigManager) {
+  constructor(configManager: ConfigManager, translationMemory?: TranslationMemory) {
     this.configManager = configManager
+    this.translationMemory = translationMemory
+    // 所有翻译请求共享同一个调度器，速率限制对并发翻译整体生效
+    this.scheduler = new RequestScheduler(() => {
+      const llmConfig = this.configManager.getConfig()?.llmConfig
+      return {
+        requestsPerMinute: llmConfig?.requestsPerMinute,
+        tokensPerMinute: llmConfig?.tokensPerMinute,
+        maxRetries: llmConfig?.maxRetries
+      }
+    })
   }
 
-  private getConfig(): LLMConfig {
+  // 获取 LLM 配置，项目中设置了服务覆盖时合并到全局配置之上（空值沿用全局配置）
+  private getConfig(projectPath?: string): LLMConfig {
     const config = this.configManager.getConfig()
     if (!config?.llmConfig) {
       throw new Error('LLM 配置未找到')
     }
-    return config.llmConfig
+
+    const project = projectPath ? config.projects.find((p) => p.path === projectPath) : undefined
+    if (!project?.llmConfig) {
+      return config.llmConfig
+    }
+
+    const overrides = Object.fromEntries(
+      Object.entries(project.llmConfig).filter(([, value]) => value !== undefined && value !== '')
+    )
+    return { ...config.llmConfig, ...overrides }
   }
 
   // 清理翻译结果中的代码块标记
-  private cleanTranslationResult(content: string): string {
+  // 原文本身以代码块开头或结尾时保留对应的标记（分块翻译时分块可能以代码块开头）
+  private cleanTranslationResult(content: string, source: string = ''): string {
     // 先除去空格
     let cleaned = content.trim()
-    
+    const trimmedSource = source.trim()
+
     // 去掉开头的```json、```、```markdown等代码块标记
-    if (cleaned.startsWith('```')) {
+    if (cleaned.startsWith('```') && !trimmedSource.startsWith('```')) {
       // 找到第一个换行符或者第一个```结束标记
       const firstNewline = cleaned.indexOf('\n')
       if (firstNewline !== -1) {
         cleaned = cleaned.substring(firstNewline + 1)
       }
     }
-    
+
     // 去掉结尾的```标记
-    if (cleaned.endsWith('```')) {
+    if (cleaned.endsWith('```') && !trimmedSource.endsWith('```')) {
       cleaned = cleaned.substring(0, cleaned.length - 3)
     }
-    
+
     // 再次去掉空格
     return cleaned.trim()
   }
 
-  async translateText(request: TranslationRequest, projectPath?: string): Promise<TranslationResponse> {
-    const config = this.getConfig()
-    
-    if (!config.apiKey) {
-      throw new Error('API Key 未配置')
+  async translateText(
+    request: TranslationRequest,
+    projectPath?: string,
+    options: TranslationStreamOptions = {}
+  ): Promise<TranslationResponse> {
+    const config = this.getConfig(projectPath)
+
+    if (getProvider(config.provider).requiresApiKey && !config.apiKey) {
+      throw new LLMError('auth', 'API Key 未配置')
     }
 
-    const baseUrl = config.baseUrl || 'https://api.openai.com/v1'
-    const prompt = request.prompt || this.getPrompt(projectPath)
+    let systemPrompt = request.prompt || this.getPrompt(projectPath, request.content)
+    if (!request.prompt) {
+      systemPrompt += await this.buildMemoryPrompt(request.content, projectPath)
+    }
+    if (hasPlaceholders(request.content)) {
+      systemPrompt += PLACEHOLDER_PROMPT
+    }
+    if (request.instructions) {
+      systemPrompt += request.instructions
+    }
+    if (request.context) {
+      systemPrompt += this.buildContextPrompt(request.context)
+    }
 
-    const messages = [
-      {
-        role: 'system',
-        content: prompt
-      },
+    // 流式输出过程中失败重试时，先清空已输出的内容
+    const onDelta = options.onDelta
+    let hasOutput = false
+    const requestOptions: TranslationStreamOptions = {
+      signal: options.signal,
+      onDelta: onDelta
+        ? (delta, replace) => {
+            hasOutput = true
+            onDelta(delta, replace)
+          }
+        : undefined
+    }
+
+    return this.scheduler.schedule(
+      () => this.requestCompletion(config, systemPrompt, request.content, requestOptions),
       {
-        role: 'user',
-        content: request.content
+        // 输出长度按与输入相当估算
+        estimatedTokens:
+          estimateTokens(systemPrompt + request.content) + estimateTokens(request.content),
+        signal: options.signal,
+        getUsedTokens: (response) => response.usage?.totalTokens,
+        onRetry: () => {
+          if (hasOutput) {
+            onDelta?.('', true)
+            hasOutput = false
+          }
+        }
       }
-    ]
+    )
+  }
+
+  // 通过服务适配器发送一次补全请求
+  private async requestCompletion(
+    config: LLMConfig,
+    systemPrompt: string,
+    content: string,
+    options: TranslationStreamOptions
+  ): Promise<TranslationResponse> {
+    const provider = getProvider(config.provider)
+    const stream = !!options.onDelta
 
     try {
-      const response = await fetch(`${baseUrl}/chat/completions`, {
+      const request = provider.buildCompletionRequest(config, {
+        systemPrompt,
+        content,
+        temperature: 0.3,
+        stream
+      })
+
+      const response = await fetch(request.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${config.apiKey}`
-        },
-        body: JSON.stringify({
-          model: config.model,
-          messages,
-          temperature: 0.3,
-          max_tokens: 32000
-        })
+        headers: request.headers,
+        body: request.body,
+        signal: options.signal
       })
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
-        throw new Error(`API 请求失败: ${response.status} ${response.statusText}. ${errorData.error?.message || ''}`)
+        const detail = errorData.error?.message || ''
+        throw new LLMError(
+          classifyHttpError(response.status, detail),
+          `API 请求失败: ${response.status} ${response.statusText}. ${detail}`,
+          response.status,
+          parseRetryAfter(response.headers.get('retry-after'))
+        )
       }
 
-      const data = await response.json()
-      
-      if (!data.choices || !data.choices[0]?.message?.content) {
-        throw new Error('API 响应格式无效')
+      let result: CompletionResult
+      if (stream && options.onDelta) {
+        result = await this.readStream(response, provider, options.onDelta)
+      } else {
+        const data = await response.json().catch(() => {
+          throw new LLMError('invalid_response', 'API 响应不是有效的 JSON')
+        })
+        result = provider.parseCompletion(data)
+      }
+
+      if (!result.content) {
+        throw new LLMError('invalid_response', 'API 响应内容为空')
       }
 
-      
       // 清理翻译结果
-      const cleanedContent = this.cleanTranslationResult(data.choices[0].message.content)
+      const cleanedContent = this.cleanTranslationResult(result.content, content)
       return {
         translatedContent: cleanedContent,
         model: config.model,
-        usage: data.usage ? {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens
-        } : undefined
+        finishReason: result.finishReason,
+        usage: result.usage
       }
     } catch (error) {
+      if (options.signal?.aborted) {
+        throw new LLMError('cancelled', '翻译已取消')
+      }
       console.error('LLM 翻译失败:', error)
-      throw new Error(`翻译失败: ${(error as Error).message}`)
+      if (error instanceof LLMError) {
+        throw error
+      }
+      // fetch 本身抛出的错误（连接失败、DNS 解析失败、流中断等）视为网络错误
+      throw new LLMError('network', `翻译失败: ${(error as Error).message}`)
     }
   }
 
-  private getPrompt(projectPath?: string): string {
-    const config = this.configManager.getConfig()
-    
-    if (projectPath) {
-      const project = config.projects.find(p => p.path === projectPath)
-      if (project?.customPrompt) {
-        return project.customPrompt
+  // 读取 SSE 流式响应，逐段回调增量内容，返回完整的输出
+  private async readStream(
+    response: Response,
+    provider: LLMProvider,
+    onDelta: (delta: string, replace?: boolean) => void
+  ): Promise<CompletionResult> {
+    if (!response.body) {
+      throw new LLMError('invalid_response', 'API 响应不支持流式输出')
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let content = ''
+    let finishReason: string | undefined
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+    let hasUsage = false
+
+    const handleLine = (line: string): void => {
+      const trimmed = line.trim()
+      if (!trimmed.startsWith('data:')) return
+
+      const payload = trimmed.substring(5).trim()
+      if (!payload || payload === '[DONE]') return
+
+      let data: unknown
+      try {
+        data = JSON.parse(payload)
+      } catch {
+        console.warn('无法解析的流式数据:', payload)
+        return
+      }
+
+      const event = provider.parseStreamEvent(data)
+      if (event.delta) {
+        content += event.delta
+        onDelta(event.delta)
+      }
+      if (event.finishReason) {
+        finishReason = event.finishReason
+      }
+      if (event.usage) {
+        // 不同服务分多次返回输入和输出的用量，这里合并
+        hasUsage = true
+        usage.promptTokens = event.usage.promptTokens ?? usage.promptTokens
+        usage.completionTokens = event.usage.completionTokens ?? usage.completionTokens
+        usage.totalTokens = event.usage.totalTokens ?? usage.promptTokens + usage.completionTokens
+      }
+    }
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      lines.forEach(handleLine)
+    }
+
+    handleLine(buffer + decoder.decode())
+    return { content, finishReason, usage: hasUsage ? usage : undefined }
+  }
+
+  // 翻译整篇文档：超过分块大小的文档按 Markdown 结构分块翻译后再拼接
+  async translateDocument(
+    content: string,
+    projectPath?: string,
+    options: DocumentTranslationOptions = {}
+  ): Promise<TranslationResponse> {
+    const config = this.getConfig(projectPath)
+    const chunkSize = config.chunkSize || DEFAULT_CHUNK_SIZE
+
+    if (content.length <= chunkSize) {
+      const response = await this.translateText(
+        { content, instructions: options.instructions },
+        projectPath,
+        options
+      )
+      // 流式输出的是原始内容，结束后用清理过的结果同步一次
+      options.onDelta?.(response.translatedContent, true)
+      return response
+    }
+
+    const chunks = chunkMarkdown(content, chunkSize)
+    const translatableCount = chunks.filter((chunk) => chunk.translatable).length
+    console.log(
+      `文档长度 ${content.length} 超过分块大小 ${chunkSize}，分为 ${translatableCount} 块翻译`
+    )
+
+    const translatedChunks: MarkdownChunk[] = []
+    const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i]
+      const translatedPrefix = joinMarkdownChunks(translatedChunks)
+      if (!chunk.translatable) {
+        translatedChunks.push(chunk)
+        options.onDelta?.(translatedPrefix + chunk.content + chunk.separator, true)
+        continue
+      }
+
+      // 取相邻分块的原文作为上下文，保持术语和语气连贯
+      const context: TranslationContext = {
+        before: i > 0 ? chunks[i - 1].content.slice(-CONTEXT_CHARS) : undefined,
+        after: i < chunks.length - 1 ? chunks[i + 1].content.slice(0, CONTEXT_CHARS) : undefined
+      }
+
+      const response = await this.translateChunk(chunk.content, context, i, projectPath, {
+        ...options,
+        // 重试时先回退到之前分块的译文，丢弃失败分块已输出的部分
+        onDelta: options.onDelta
+          ? (delta, replace) =>
+              options.onDelta?.(replace ? translatedPrefix + delta : delta, replace)
+          : undefined
+      })
+      translatedChunks.push({ ...chunk, content: response.translatedContent })
+      options.onDelta?.(translatedPrefix + response.translatedContent + chunk.separator, true)
+
+      if (response.usage) {
+        usage.promptTokens += response.usage.promptTokens
+        usage.completionTokens += response.usage.completionTokens
+        usage.totalTokens += response.usage.totalTokens
+      }
+    }
+
+    return {
+      translatedContent: joinMarkdownChunks(translatedChunks),
+      model: config.model,
+      usage: usage.totalTokens > 0 ? usage : undefined
+    }
+  }
+
+  // 翻译单个分块，失败或输出被截断时单独重试该分块
+  private async translateChunk(
+    content: string,
+    context: TranslationContext,
+    chunkIndex: number,
+    projectPath?: string,
+    options: DocumentTranslationOptions = {}
+  ): Promise<TranslationResponse> {
+    const retries = this.getConfig(projectPath).chunkRetries ?? DEFAULT_CHUNK_RETRIES
+    let lastError: LLMError | null = null
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        console.warn(`分块 ${chunkIndex} 第 ${attempt} 次重试`)
+        options.onDelta?.('', true)
+        await new Promise((resolve) => setTimeout(resolve, 1000 * attempt))
+      }
+
+      try {
+        const response = await this.translateText(
+          { content, context, instructions: options.instructions },
+          projectPath,
+          options
+        )
+        if (response.finishReason === 'length') {
+          throw new LLMError('context_length', '翻译结果被截断，超出了最大输出长度')
+        }
+        return response
+      } catch (error) {
+        // 用户取消时不再重试
+        if (options.signal?.aborted) {
+          throw error
+        }
+        lastError =
+          error instanceof LLMError
+            ? error
+            : new LLMError(getErrorCategory(error), (error as Error).message)
+        console.error(`分块 ${chunkIndex} 翻译失败:`, lastError.message)
+
+        // 认证失败、超出上下文长度等错误重试也不会成功；限流和网络错误已由请求调度器重试过
+        if (!isRetryableError(lastError.category) || isTransientError(lastError.category)) {
+          break
+        }
       }
     }
-    
-    return config.globalPrompt || '你是一个专业的技术文档翻译助手。请将以下英文文档翻译成中文，保持原有的格式和结构，确保技术术语的准确性。'
+
+    // message 中已包含分类前缀，这里去掉后重新包装
+    const detail = lastError?.message.replace(/^\[[a-z_]+\]\s*/, '') || '未知错误'
+    throw new LLMError(
+      lastError?.category || 'unknown',
+      `第 ${chunkIndex + 1} 个分块翻译失败: ${detail}`,
+      lastError?.status
+    )
+  }
+
+  // 从翻译记忆中查找与待翻译段落相似的已有译文，作为参考附加在系统提示词之后
+  private async buildMemoryPrompt(content: string, projectPath?: string): Promise<string> {
+    if (!this.translationMemory) return ''
+
+    const project = projectPath
+      ? this.configManager.getConfig().projects.find((p) => p.path === projectPath)
+      : undefined
+    const sourceLanguage = getSourceLanguage(project)
+    const targetLanguage = getActiveLanguage(project)
+
+    const references = new Map<string, TranslationMemoryMatch>()
+    try {
+      const segments = parseMarkdownBlocks(content).filter(
+        (block) =>
+          block.type !== 'blank' &&
+          block.type !== 'code' &&
+          block.content.trim().length >= MEMORY_MIN_CHARS
+      )
+      for (const segment of segments) {
+        const [match] = await this.translationMemory.findSimilar(
+          segment.content,
+          sourceLanguage,
+          targetLanguage,
+          undefined,
+          1
+        )
+        if (match && !references.has(match.entry.source)) {
+          references.set(match.entry.source, match)
+        }
+      }
+    } catch (error) {
+      console.warn('查询翻译记忆失败:', error)
+      return ''
+    }
+
+    const matches = [...references.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MEMORY_MAX_REFERENCES)
+    if (matches.length === 0) return ''
+
+    const lines = matches.map(
+      (match) => `【原文】\n${match.entry.source}\n【译文】\n${match.entry.target}`
+    )
+    return `\n\n以下是翻译记忆库中与待翻译内容相似的原文及其已有译文，请参考其中的术语和表达方式，但以待翻译内容的实际原文为准：\n\n${lines.join('\n\n')}`
+  }
+
+  // 生成上下文提示，附加在系统提示词之后
+  private buildContextPrompt(context: TranslationContext): string {
+    let contextPrompt =
+      '\n\n待翻译内容是一篇长文档中的一个片段。下面提供相邻的原文片段，仅用于理解上下文，不要翻译或输出这些片段：'
+    if (context.before) {
+      contextPrompt += `\n\n【上文】\n${context.before}`
+    }
+    if (context.after) {
+      contextPrompt += `\n\n【下文】\n${context.after}`
+    }
+    return contextPrompt
+  }
+
+  // content 为待翻译内容，只把其中出现的术语加入提示词
+  private getPrompt(projectPath?: string, content?: string): string {
+    const config = this.configManager.getConfig()
+    const project = projectPath ? config.projects.find((p) => p.path === projectPath) : undefined
+
+    const template =
+      project?.customPrompt ||
+      config.globalPrompt ||
+      '你是一个专业的技术文档翻译助手。请将以下{sourceLang}文档翻译成{targetLang}，保持原有的格式和结构，确保技术术语的准确性。'
+
+    // 替换提示词中的语言变量，没有写明目标语言的提示词（如旧版本或自定义的提示词）补充目标语言要求
+    const prompt = (
+      template.includes('{targetLang}') ? template : `${template}\n\n请翻译成{targetLang}。`
+    )
+      .replace(/\{sourceLang\}/g, getLanguageName(getSourceLanguage(project)))
+      .replace(/\{targetLang\}/g, getLanguageName(getActiveLanguage(project)))
+
+    if (!content || !project?.glossary) {
+      return prompt
+    }
+
+    const entries = getGlossaryEntries(project.glossary, getActiveLanguage(project))
+    return prompt + buildGlossaryPrompt(findGlossaryTerms(content, entries))
   }
 
   // 验证 API 配置
-  async validateConfig(): Promise<boolean> {
+  async validateConfig(projectPath?: string): Promise<boolean> {
     try {
-      const config = this.getConfig()
-      
-      if (!config.apiKey) {
+      const config = this.getConfig(projectPath)
+      const provider = getProvider(config.provider)
+
+      if (provider.requiresApiKey && !config.apiKey) {
         return false
       }
 
       // 发送一个简单的测试请求
-      const baseUrl = config.baseUrl || 'https://api.openai.com/v1'
-      const response = await fetch(`${baseUrl}/models`, {
+      const request = provider.buildModelsRequest(config)
+      const response = await fetch(request.url, {
         method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${config.apiKey}`
-        }
+        headers: request.headers
       })
 
       return response.ok
@@ -0,0 +1,85 @@
+import { MarkdownBlock, parseMarkdownBlocks } from '../shared/markdownBlocks'
+import { hasTranslatableText } from './placeholderMasker'
+
+// 翻译分块：content 为需要翻译的文本，separator 为分块之后的空白（拼接时原样保留）
+export interface MarkdownChunk {
+  content: string
+  separator: string
+  translatable: boolean // 只包含空白或受保护内容占位符的分块不需要翻译
+}
+
+// 默认每个分块的最大字符数
+export const DEFAULT_CHUNK_SIZE = 6000
+
+// 当前分块已达到上限的该比例时，遇到标题就提前切分，让分块尽量按章节划分
+const HEADING_BREAK_RATIO = 0.5
+
+function createChunk(blocks: MarkdownBlock[]): MarkdownChunk {
+  const last = blocks[blocks.length - 1]
+  const content = blocks
+    .map((block, index) =>
+      index === blocks.length - 1 ? block.content : block.content + block.separator
+    )
+    .join('')
+
+  return {
+    content,
+    separator: last.separator,
+    translatable: hasTranslatableText(content)
+  }
+}
+
+/**
+ * 按标题和块边界将 Markdown/MDX 文本切分为不超过 maxChars 的分块
+ * 代码块、表格和 front matter 不会被拆开，单个超长的块独立成为一个分块
+ * 拼接所有分块的 content + separator 可以逐字节还原原文
+ */
+export function chunkMarkdown(
+  text: string,
+  maxChars: number = DEFAULT_CHUNK_SIZE
+): MarkdownChunk[] {
+  const blocks = parseMarkdownBlocks(text)
+  const chunks: MarkdownChunk[] = []
+
+  let current: MarkdownBlock[] = []
+  let currentLength = 0
+
+  const flush = (): void => {
+    if (current.length > 0) {
+      chunks.push(createChunk(current))
+      current = []
+      currentLength = 0
+    }
+  }
+
+  for (const block of blocks) {
+    // 文件开头的空行单独成块，避免被翻译结果的首尾空白清理吞掉
+    if (block.type === 'blank') {
+      flush()
+      chunks.push(createChunk([block]))
+      continue
+    }
+
+    const blockLength = block.content.length + block.separator.length
+    const exceedsLimit = currentLength + blockLength > maxChars
+    const isSectionBreak =
+      block.type === 'heading' && currentLength >= maxChars * HEADING_BREAK_RATIO
+
+    if (current.length > 0 && (exceedsLimit || isSectionBreak)) {
+      flush()
+    }
+
+    current.push(block)
+    currentLength += blockLength
+  }
+
+  flush()
+  return chunks
+}
+
+/**
+ * 将翻译后的分块重新拼接为文本
+ */
+export function joinMarkdownChunks(chunks: MarkdownChunk[]): string {
+  return chunks.map((chunk) => chunk.content + chunk.separator).join('')
+}
@@ -1,7 +1,20 @@
+import { createHash } from 'crypto'
 import { LLMService } from './llmService'
+import {
+  hasTranslatableText,
+  maskProtectedContent,
+  restoreProtectedContent
+} from './placeholderMasker'
+import {
+  applyCommentTranslations,
+  extractCodeComments,
+  supportsCommentTranslation
+} from './codeComments'
+import { translateBatchWithFallback, translateSegments } from './segmentTranslation'
 
 // Jupyter Notebook 的单元格类型
 export interface NotebookCell {
+  id?: string // nbformat 4.5 起每个单元格有唯一 id
   cell_type: 'markdown' | 'code' | 'raw'
   source: string[]
   metadata?: any
@@ -17,17 +30,61 @@ export interface JupyterNotebook {
   nbformat_minor: number
 }
 
+// 单个单元格的翻译结果，cellIndex 从 1 开始
+export interface NotebookCellResult {
+  cellIndex: number
+  cellType: 'markdown' | 'code'
+  status: 'translated' | 'reused' | 'skipped' | 'failed' // reused 为原文未变化，复用上次的译文；skipped 为代码单元格中没有可翻译的注释
+  comments?: number // 代码单元格中翻译的注释数量
+  error?: string
+}
+
 // 翻译结果
 export interface NotebookTranslationResult {
   translatedNotebook: JupyterNotebook
-  translatedCellsCount: number
+  translatedCellsCount: number // 翻译成功的 markdown 单元格数量
+  reusedCellsCount: number // 复用上次译文的单元格数量
   totalMarkdownCells: number
   errors: Array<{
     cellIndex: number
     error: string
   }>
+  cells: NotebookCellResult[] // 每个处理过的单元格（markdown 以及需要翻译注释的代码单元格）的结果
 }
 
+export interface NotebookTranslateOptions {
+  translateCodeComments?: boolean // 同时翻译代码单元格中的注释和文档字符串
+  concurrency?: number // 同时进行的翻译请求数
+  previous?: { original: string; translated: string } // 上次翻译时的原文和译文，原文未变化的单元格直接复用译文
+  retry?: { translated: string; cells: number[] } // 只重新翻译指定的单元格（从 1 开始），其余单元格保留现有译文
+  bilingual?: boolean // 保留原文单元格，在每个 markdown 单元格后插入对应的译文单元格
+  signal?: AbortSignal
+}
+
+// 双语 Notebook 中译文单元格 metadata 里的标记，sourceId 为对应原文单元格的 id
+interface TranslationCellMetadata {
+  role: 'translation'
+  sourceId?: string
+}
+
+// 上次翻译的单元格译文，byId 记录 id 对应的原文哈希和译文，byHash 按原文哈希查找译文
+interface CellTranslationCache {
+  byId: Map<string, { hash: string; source: string }>
+  byHash: Map<string, string>
+}
+
+// 相邻的小 markdown 单元格合并翻译：可合并的单元格最大字符数、每批最大字符数和单元格数
+const BATCH_CELL_MAX_CHARS = 1500
+const BATCH_MAX_CHARS = 6000
+const BATCH_MAX_CELLS = 10
+
+const DEFAULT_CONCURRENCY = 3
+
+const TRANSLATION_METADATA_KEY = 'open_doc_translate'
+
+const CODE_COMMENT_INSTRUCTIONS =
+  '\n这些片段是代码中的注释或文档字符串，只输出注释文本本身的译文，不要添加注释符号或引号。'
+
 export class NotebookProcessor {
   private llmService: LLMService
 
@@ -113,7 +170,8 @@ export class NotebookProcessor {
    */
   private async translateMarkdownCell(
     cellContent: string,
-    projectPath?: string
+    projectPath?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     try {
       // 如果单元格内容为空或只包含空白字符，直接返回
@@ -121,24 +179,342 @@ export class NotebookProcessor {
         return cellContent
       }
 
+      // 代码、链接等受保护内容替换为占位符，占位符缺失或重复时该单元格翻译失败，保留原文
+      const masked = maskProtectedContent(cellContent)
+      if (!hasTranslatableText(masked.text)) {
+        return cellContent
+      }
+
       // 调用翻译服务
-      const response = await this.llmService.translateText({
-        content: cellContent
-      }, projectPath)
+      const response = await this.llmService.translateText(
+        {
+          content: masked.text
+        },
+        projectPath,
+        { signal }
+      )
 
-      return response.translatedContent
+      return restoreProtectedContent(response.translatedContent, masked.placeholders)
     } catch (error) {
       console.error('翻译 markdown 单元格失败:', error)
       throw error
     }
   }
 
+  /**
+   * 将多个小的 markdown 单元格合并为一次请求翻译，没有可翻译文本的单元格保持原样
+   */
+  private async translateMarkdownCells(
+    contents: string[],
+    projectPath?: string,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const pending = contents
+      .map((content, index) => ({ content, index }))
+      .filter(({ content }) => hasTranslatableText(maskProtectedContent(content).text))
+    if (pending.length === 0) {
+      return contents
+    }
+
+    const translations = await translateSegments(
+      this.llmService,
+      pending.map(({ content }) => content),
+      projectPath,
+      { signal }
+    )
+    const results = [...contents]
+    pending.forEach(({ index }, i) => {
+      results[index] = translations[i]
+    })
+    return results
+  }
+
+  /**
+   * 翻译代码单元格中的注释和文档字符串，代码本身保持不变
+   * 没有可翻译的注释时返回 null
+   */
+  private async translateCodeCell(
+    cellContent: string,
+    language: string,
+    projectPath?: string,
+    signal?: AbortSignal
+  ): Promise<{ source: string; comments: number } | null> {
+    const comments = extractCodeComments(cellContent, language)
+    if (comments.length === 0) {
+      return null
+    }
+
+    const translations = await translateSegments(
+      this.llmService,
+      comments.map((comment) => comment.text),
+      projectPath,
+      { instructions: CODE_COMMENT_INSTRUCTIONS, signal }
+    )
+    return {
+      source: applyCommentTranslations(cellContent, comments, translations),
+      comments: comments.length
+    }
+  }
+
+  /**
+   * 找出新原文中相对旧原文新增或内容变化的单元格（从 0 开始的索引）
+   * 有 id 的单元格按 id 对比内容，否则按内容哈希判断旧原文中是否存在
+   */
+  getChangedCells(oldContent: string, newContent: string): number[] {
+    const oldCells = this.parseNotebook(oldContent).cells
+    const oldHashById = new Map(
+      oldCells.filter((cell) => cell.id).map((cell) => [cell.id!, this.hashCell(cell)])
+    )
+    const oldHashes = new Set(oldCells.map((cell) => this.hashCell(cell)))
+
+    return this.parseNotebook(newContent)
+      .cells.map((cell, index) => {
+        const hash = this.hashCell(cell)
+        const previousHash = cell.id ? oldHashById.get(cell.id) : undefined
+        return (previousHash !== undefined ? previousHash !== hash : !oldHashes.has(hash))
+          ? index
+          : -1
+      })
+      .filter((index) => index !== -1)
+  }
+
+  /**
+   * 从指定的单元格（从 1 开始）中找出译文与原文仍然相同的单元格
+   */
+  getUntranslatedCells(original: string, translated: string, cells: number[]): number[] {
+    const originalCells = this.parseNotebook(original).cells
+    const translatedCells = this.extractTranslation(this.parseNotebook(translated)).cells
+    return cells.filter((cellIndex) => {
+      const source = originalCells[cellIndex - 1]
+      const target = translatedCells[cellIndex - 1]
+      return (
+        !source ||
+        !target ||
+        this.mergeCellSource(source.source) === this.mergeCellSource(target.source)
+      )
+    })
+  }
+
+  private isTranslationCell(cell: NotebookCell): boolean {
+    return cell.metadata?.[TRANSLATION_METADATA_KEY]?.role === 'translation'
+  }
+
+  /**
+   * 检查是否为双语 Notebook（包含带译文标记的单元格）
+   */
+  isBilingualNotebook(notebook: JupyterNotebook): boolean {
+    return notebook.cells.some((cell) => this.isTranslationCell(cell))
+  }
+
+  /**
+   * 生成双语 Notebook：保留原文的所有单元格，在每个已翻译的 markdown 单元格后插入译文单元格
+   * translated 与 source 的单元格一一对应，译文与原文相同（未翻译或翻译失败）的单元格不插入译文
+   */
+  createBilingualNotebook(source: JupyterNotebook, translated: JupyterNotebook): JupyterNotebook {
+    const bilingual = JSON.parse(JSON.stringify(translated)) as JupyterNotebook
+    bilingual.cells = []
+
+    translated.cells.forEach((cell, index) => {
+      const sourceCell = source.cells[index]
+      if (cell.cell_type !== 'markdown' || !sourceCell) {
+        bilingual.cells.push(cell)
+        return
+      }
+
+      bilingual.cells.push(sourceCell)
+      if (this.mergeCellSource(cell.source) === this.mergeCellSource(sourceCell.source)) return
+
+      const marker: TranslationCellMetadata = { role: 'translation', sourceId: sourceCell.id }
+      const translationCell: NotebookCell = {
+        cell_type: 'markdown',
+        metadata: { ...cell.metadata, [TRANSLATION_METADATA_KEY]: marker },
+        source: cell.source
+      }
+      // nbformat 4.5 起单元格 id 必须唯一，且不超过 64 个字符
+      if (sourceCell.id) {
+        translationCell.id = `${sourceCell.id.slice(0, 52)}-translation`
+      }
+      bilingual.cells.push(translationCell)
+    })
+
+    return bilingual
+  }
+
+  /**
+   * 从双语 Notebook 中提取与原文单元格一一对应的译文：去掉译文单元格，用其内容替换对应的原文单元格
+   * 译文单元格按标记中的 sourceId 对应原文单元格，没有 id 时对应前面最近的原文单元格
+   * 不是双语 Notebook 时原样返回
+   */
+  extractTranslation(notebook: JupyterNotebook): JupyterNotebook {
+    if (!this.isBilingualNotebook(notebook)) {
+      return notebook
+    }
+
+    const result = JSON.parse(JSON.stringify(notebook)) as JupyterNotebook
+    result.cells = []
+    const indexById = new Map<string, number>()
+
+    for (const cell of notebook.cells) {
+      if (!this.isTranslationCell(cell)) {
+        if (cell.id) indexById.set(cell.id, result.cells.length)
+        result.cells.push(JSON.parse(JSON.stringify(cell)))
+        continue
+      }
+
+      const marker = cell.metadata[TRANSLATION_METADATA_KEY] as TranslationCellMetadata
+      const targetIndex =
+        marker.sourceId !== undefined ? indexById.get(marker.sourceId) : result.cells.length - 1
+      if (
+        targetIndex === undefined ||
+        targetIndex < 0 ||
+        result.cells[targetIndex].cell_type !== 'markdown'
+      ) {
+        console.warn('双语 Notebook 中有无法对应原文的译文单元格，已忽略')
+        continue
+      }
+      result.cells[targetIndex].source = cell.source
+    }
+
+    return result
+  }
+
+  /**
+   * 获取 Notebook 代码单元格的语言，优先使用 kernelspec
+   */
+  private getNotebookLanguage(notebook: JupyterNotebook): string {
+    return (
+      notebook.metadata?.kernelspec?.language || notebook.metadata?.language_info?.name || 'python'
+    )
+  }
+
+  private hashCell(cell: NotebookCell): string {
+    return createHash('sha1')
+      .update(`${cell.cell_type}:${this.mergeCellSource(cell.source)}`)
+      .digest('hex')
+  }
+
+  /**
+   * 根据上次翻译时的原文和译文建立单元格译文缓存
+   * 单元格数量一致时按位置对应，否则按单元格 id 对应；与原文相同（未翻译）的单元格不缓存
+   */
+  private buildTranslationCache(
+    previous: NonNullable<NotebookTranslateOptions['previous']>
+  ): CellTranslationCache | null {
+    let original: JupyterNotebook
+    let translated: JupyterNotebook
+    try {
+      original = this.parseNotebook(previous.original)
+      translated = this.extractTranslation(this.parseNotebook(previous.translated))
+    } catch (error) {
+      console.warn('解析上次翻译的 Notebook 失败，所有单元格重新翻译:', (error as Error).message)
+      return null
+    }
+
+    const translatedById = new Map(
+      translated.cells
+        .filter((cell) => cell.id)
+        .map((cell) => [cell.id!, cell] as [string, NotebookCell])
+    )
+    const cache: CellTranslationCache = { byId: new Map(), byHash: new Map() }
+
+    original.cells.forEach((cell, index) => {
+      const target =
+        original.cells.length === translated.cells.length
+          ? translated.cells[index]
+          : cell.id
+            ? translatedById.get(cell.id)
+            : undefined
+      if (!target || target.cell_type !== cell.cell_type) return
+
+      const source = this.mergeCellSource(target.source)
+      if (source === this.mergeCellSource(cell.source)) return
+
+      const hash = this.hashCell(cell)
+      if (cell.id) {
+        cache.byId.set(cell.id, { hash, source })
+      }
+      cache.byHash.set(hash, source)
+    })
+
+    return cache
+  }
+
+  /**
+   * 查找单元格上次的译文：有 id 时 id 相同且内容未变化才复用，否则按内容哈希查找
+   */
+  private findCachedTranslation(
+    cache: CellTranslationCache,
+    cell: NotebookCell
+  ): string | undefined {
+    const hash = this.hashCell(cell)
+    const byId = cell.id ? cache.byId.get(cell.id) : undefined
+    if (byId?.hash === hash) {
+      return byId.source
+    }
+    return cache.byHash.get(hash)
+  }
+
+  /**
+   * 将待翻译的 markdown 单元格按顺序分批，相邻的小单元格合并为一批，较大的单元格单独翻译
+   */
+  private createMarkdownBatches(notebook: JupyterNotebook, cellIndices: number[]): number[][] {
+    const batches: number[][] = []
+    let current: number[] = []
+    let currentChars = 0
+
+    for (const cellIndex of cellIndices) {
+      const length = this.mergeCellSource(notebook.cells[cellIndex].source).length
+      if (length > BATCH_CELL_MAX_CHARS) {
+        batches.push([cellIndex])
+        continue
+      }
+
+      if (
+        current.length > 0 &&
+        (current.length >= BATCH_MAX_CELLS || currentChars + length > BATCH_MAX_CHARS)
+      ) {
+        batches.push(current)
+        current = []
+        currentChars = 0
+      }
+      current.push(cellIndex)
+      currentChars += length
+    }
+
+    if (current.length > 0) {
+      batches.push(current)
+    }
+    return batches
+  }
+
+  // 以不超过 concurrency 的并发数依次执行任务，取消后不再开始新的任务
+  private async runWithConcurrency(
+    tasks: Array<() => Promise<void>>,
+    concurrency: number,
+    signal?: AbortSignal
+  ): Promise<void> {
+    let next = 0
+    const worker = async (): Promise<void> => {
+      while (next < tasks.length && !signal?.aborted) {
+        await tasks[next++]()
+      }
+    }
+    await Promise.all(
+      Array.from({ length: Math.max(1, Math.min(concurrency, tasks.length)) }, worker)
+    )
+  }
+
   /**
    * 翻译整个 Jupyter Notebook
+   * 相邻的小 markdown 单元格合并为一次请求，请求按配置的并发数同时进行
+   * 提供上次翻译的结果时，原文未变化的单元格直接复用已有译文
+   * 双语模式下先按原文单元格翻译，最后在每个原文 markdown 单元格后插入译文单元格
+   * 现有译文为双语 Notebook 时先提取出与原文对应的译文，因此上游变化只会更新受影响的单元格对
    */
   async translateNotebook(
     notebookContent: string,
-    projectPath?: string
+    projectPath?: string,
+    options: NotebookTranslateOptions = {}
   ): Promise<NotebookTranslationResult> {
     console.log('开始翻译 Jupyter Notebook...')
     
@@ -149,56 +525,177 @@ export class NotebookProcessor {
     const markdownCellIndices = this.getMarkdownCellIndices(notebook)
     console.log(`发现 ${markdownCellIndices.length} 个 markdown 单元格需要翻译`)
 
-    if (markdownCellIndices.length === 0) {
+    // 需要翻译注释时同时处理代码单元格，不支持的语言跳过
+    const language = this.getNotebookLanguage(notebook)
+    const translateComments =
+      !!options.translateCodeComments && supportsCommentTranslation(language)
+    if (options.translateCodeComments && !translateComments) {
+      console.log(`不支持翻译 ${language} 代码中的注释，跳过代码单元格`)
+    }
+
+    // 重试失败的单元格时以现有译文为基础，只处理指定的单元格
+    const baseNotebook = options.retry
+      ? this.extractTranslation(this.parseNotebook(options.retry.translated))
+      : notebook
+    if (baseNotebook.cells.length !== notebook.cells.length) {
+      throw new Error(
+        '现有译文与原文的单元格数量不一致，无法只重试失败的单元格，请重新翻译整个文件'
+      )
+    }
+    const retryCells = options.retry ? new Set(options.retry.cells) : null
+
+    const cellIndices = notebook.cells
+      .map((cell, index) => ({ cell, index }))
+      .filter(
+        ({ cell }) =>
+          cell.cell_type === 'markdown' || (translateComments && cell.cell_type === 'code')
+      )
+      .filter(({ index }) => !retryCells || retryCells.has(index + 1))
+      .map(({ index }) => index)
+
+    if (cellIndices.length === 0) {
       console.log('没有发现需要翻译的 markdown 单元格')
       return {
-        translatedNotebook: notebook,
+        translatedNotebook: options.bilingual
+          ? this.createBilingualNotebook(notebook, baseNotebook)
+          : baseNotebook,
         translatedCellsCount: 0,
+        reusedCellsCount: 0,
         totalMarkdownCells: 0,
-        errors: []
+        errors: [],
+        cells: []
       }
     }
 
     // 3. 复制 notebook 结构，避免修改原始数据
-    const translatedNotebook = JSON.parse(JSON.stringify(notebook)) as JupyterNotebook
+    const translatedNotebook = JSON.parse(JSON.stringify(baseNotebook)) as JupyterNotebook
     const errors: Array<{ cellIndex: number; error: string }> = []
+    const cells: NotebookCellResult[] = []
     let translatedCellsCount = 0
 
-    // 4. 逐个翻译 markdown 单元格
-    for (const cellIndex of markdownCellIndices) {
+    const getCellType = (cellIndex: number): 'markdown' | 'code' =>
+      notebook.cells[cellIndex].cell_type === 'code' ? 'code' : 'markdown'
+
+    const recordTranslated = (cellIndex: number, content: string, comments?: number): void => {
+      translatedNotebook.cells[cellIndex].source = this.formatTranslatedSource(content)
+      if (getCellType(cellIndex) === 'markdown') translatedCellsCount++
+      cells.push({
+        cellIndex: cellIndex + 1,
+        cellType: getCellType(cellIndex),
+        status: 'translated',
+        comments
+      })
+    }
+
+    const recordFailed = (cellIndex: number, error: unknown): void => {
+      const errorMessage = (error as Error).message
+      console.error(`翻译第 ${cellIndex + 1} 个单元格失败:`, errorMessage)
+
+      errors.push({
+        cellIndex: cellIndex + 1, // 用户友好的索引（从1开始）
+        error: errorMessage
+      })
+      cells.push({
+        cellIndex: cellIndex + 1,
+        cellType: getCellType(cellIndex),
+        status: 'failed',
+        error: errorMessage
+      })
+    }
+
+    // 4. 原文未变化的单元格复用上次的译文
+    const cache = options.previous ? this.buildTranslationCache(options.previous) : null
+    const pendingIndices = cellIndices.filter((cellIndex) => {
+      const cached = cache
+        ? this.findCachedTranslation(cache, notebook.cells[cellIndex])
+        : undefined
+      if (cached === undefined) return true
+
+      translatedNotebook.cells[cellIndex].source = this.formatTranslatedSource(cached)
+      cells.push({ cellIndex: cellIndex + 1, cellType: getCellType(cellIndex), status: 'reused' })
+      return false
+    })
+    const reusedCellsCount = cellIndices.length - pendingIndices.length
+    if (reusedCellsCount > 0) {
+      console.log(`${reusedCellsCount} 个单元格的原文没有变化，复用已有译文`)
+    }
+
+    // 5. markdown 单元格分批翻译，代码单元格只替换注释，outputs 保持不变
+    const getContent = (cellIndex: number): string =>
+      this.mergeCellSource(notebook.cells[cellIndex].source)
+    const translateBatch = (batch: number[]): Promise<void> =>
+      translateBatchWithFallback(batch, {
+        translateBatch: (cellIndices) => {
+          console.log(
+            `正在合并翻译第 ${cellIndices.map((cellIndex) => cellIndex + 1).join('、')} 个单元格...`
+          )
+          return this.translateMarkdownCells(
+            cellIndices.map(getContent),
+            projectPath,
+            options.signal
+          )
+        },
+        translateItem: (cellIndex) => {
+          console.log(`正在翻译第 ${cellIndex + 1} 个单元格...`)
+          return this.translateMarkdownCell(getContent(cellIndex), projectPath, options.signal)
+        },
+        onTranslated: (cellIndex, translation) => recordTranslated(cellIndex, translation),
+        onFailed: recordFailed
+      })
+
+    const translateCode = async (cellIndex: number): Promise<void> => {
       try {
-        console.log(`正在翻译第 ${cellIndex + 1} 个单元格...`)
-        
-        const originalCell = notebook.cells[cellIndex]
-        const cellContent = this.mergeCellSource(originalCell.source)
-        
-        // 翻译单元格内容
-        const translatedContent = await this.translateMarkdownCell(cellContent, projectPath)
-        
-        // 更新翻译后的单元格
-        translatedNotebook.cells[cellIndex].source = this.formatTranslatedSource(translatedContent)
-        
-        translatedCellsCount++
-        console.log(`第 ${cellIndex + 1} 个单元格翻译完成`)
-        
+        const cellContent = this.mergeCellSource(notebook.cells[cellIndex].source)
+        const result = await this.translateCodeCell(
+          cellContent,
+          language,
+          projectPath,
+          options.signal
+        )
+        if (result) {
+          recordTranslated(cellIndex, result.source, result.comments)
+        } else {
+          cells.push({ cellIndex: cellIndex + 1, cellType: 'code', status: 'skipped', comments: 0 })
+        }
       } catch (error) {
-        const errorMessage = (error as Error).message
-        console.error(`翻译第 ${cellIndex + 1} 个单元格失败:`, errorMessage)
-        
-        errors.push({
-          cellIndex: cellIndex + 1, // 用户友好的索引（从1开始）
-          error: errorMessage
-        })
+        recordFailed(cellIndex, error)
       }
     }
 
+    const batches = [
+      ...this.createMarkdownBatches(
+        notebook,
+        pendingIndices.filter((cellIndex) => getCellType(cellIndex) === 'markdown')
+      ),
+      ...pendingIndices
+        .filter((cellIndex) => getCellType(cellIndex) === 'code')
+        .map((cellIndex) => [cellIndex])
+    ].sort((a, b) => a[0] - b[0])
+
+    await this.runWithConcurrency(
+      batches.map(
+        (batch) => () =>
+          getCellType(batch[0]) === 'code' ? translateCode(batch[0]) : translateBatch(batch)
+      ),
+      options.concurrency || DEFAULT_CONCURRENCY,
+      options.signal
+    )
+
+    // 并发翻译的结果按单元格顺序排列
+    cells.sort((a, b) => a.cellIndex - b.cellIndex)
+    errors.sort((a, b) => a.cellIndex - b.cellIndex)
+
     console.log(`Jupyter Notebook 翻译完成：${translatedCellsCount}/${markdownCellIndices.length} 个单元格翻译成功`)
 
     return {
-      translatedNotebook,
+      translatedNotebook: options.bilingual
+        ? this.createBilingualNotebook(notebook, translatedNotebook)
+        : translatedNotebook,
       translatedCellsCount,
+      reusedCellsCount,
       totalMarkdownCells: markdownCellIndices.length,
-      errors
+      errors,
+      cells
     }
   }
 
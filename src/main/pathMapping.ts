@@ -0,0 +1,97 @@
+import { posix } from 'path'
+
+// 译文路径模板支持的变量：
+// {lang} 目标语言代码，{dir} 原文所在目录，{name} 不含扩展名的文件名，{ext} 带点的扩展名
+// 例如：i18n/{lang}/{dir}/{name}{ext}、docs/{lang}/{dir}/{name}{ext}、{dir}/{name}.{lang}{ext}
+
+// 将路径统一为 Git 使用的正斜杠格式
+function toPosixPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/')
+}
+
+// 清理模板展开后的路径：合并重复斜杠，去掉开头的 ./ 和 /
+function cleanPath(filePath: string): string {
+  return filePath
+    .replace(/\/{2,}/g, '/')
+    .replace(/^(\.\/)+/, '')
+    .replace(/^\/+/, '')
+}
+
+/**
+ * 根据路径模板计算原文文件对应的译文路径（返回正斜杠格式）
+ * 模板为空时译文与原文路径相同（原地覆盖）
+ */
+export function resolveTargetPath(
+  sourcePath: string,
+  template: string | undefined,
+  language: string
+): string {
+  const normalizedSource = toPosixPath(sourcePath)
+  if (!template || !template.trim()) {
+    return normalizedSource
+  }
+
+  const dir = posix.dirname(normalizedSource)
+  const ext = posix.extname(normalizedSource)
+  const name = posix.basename(normalizedSource, ext)
+
+  const target = template
+    .trim()
+    .replace(/\{lang\}/g, language)
+    .replace(/\{dir\}/g, dir === '.' ? '' : dir)
+    .replace(/\{name\}/g, name)
+    .replace(/\{ext\}/g, ext)
+
+  return cleanPath(target)
+}
+
+/**
+ * 判断模板是否将原文映射到自身（如 {dir}/{name}{ext}），这样的模板等同于原地覆盖原文
+ */
+export function isIdentityTemplate(template: string | undefined): boolean {
+  if (!template || !template.trim()) {
+    return false
+  }
+  return ['README.md', 'docs/guide/intro.md'].every(
+    (samplePath) => resolveTargetPath(samplePath, template, 'zh') === samplePath
+  )
+}
+
+/**
+ * 判断路径是否为按模板生成的译文文件，用于在扫描原文时排除译文
+ * 模板将原文映射到自身时译文与原文无法区分，所有文件都按原文处理
+ */
+export function isTargetPath(
+  filePath: string,
+  template: string | undefined,
+  language: string
+): boolean {
+  if (!template || !template.trim() || isIdentityTemplate(template)) {
+    return false
+  }
+
+  const escape = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+  // 先按变量切分模板，对字面量部分转义，再将变量替换为对应的正则
+  const pattern = cleanPath(template.trim())
+    .split(/(\{dir\}\/|\{dir\}|\{name\}|\{ext\}|\{lang\})/)
+    .map((part) => {
+      switch (part) {
+        case '{dir}/':
+          return '(?:.+/)?'
+        case '{dir}':
+          return '.*'
+        case '{name}':
+          return '[^/]+'
+        case '{ext}':
+          return '\\.[^/.]+'
+        case '{lang}':
+          return escape(language)
+        default:
+          return escape(part)
+      }
+    })
+    .join('')
+
+  return new RegExp(`^${pattern}$`).test(toPosixPath(filePath))
+}
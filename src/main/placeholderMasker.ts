@@ -0,0 +1,123 @@
+import { parseMarkdownBlocks, joinMarkdownBlocks } from '../shared/markdownBlocks'
+import { LLMError } from './llmErrors'
+
+// 替换受保护内容后的文本，placeholders[i] 为占位符 ⟦Pi⟧ 对应的原文
+export interface MaskedContent {
+  text: string
+  placeholders: string[]
+}
+
+const PLACEHOLDER_REGEX = /⟦P(\d+)⟧/g
+
+// 受保护的行内内容，按顺序匹配，先匹配到的优先：
+// 原文中本来就有的占位符、HTML 注释、MDX 注释表达式、MDX 的 import/export 语句、行内代码、URL
+const PROTECTED_PATTERNS: RegExp[] = [
+  /⟦P\d+⟧/,
+  /<!--[\s\S]*?-->/,
+  /\{\/\*[\s\S]*?\*\/\}/,
+  /(?<=^|\n[ \t]*\n)(?:import\s+(?:[\w*{]|['"])|export\s+(?:default|const|let|var|function|class|async|\{|\*))[^\n]*(?:\n(?![ \t]*\n)[^\n]*)*/,
+  /(?<ticks>`+)[^`\n](?:[^\n]*?[^`\n])?\k<ticks>(?!`)/,
+  /https?:\/\/[^\s<>()[\]"'`]*[^\s<>()[\]"'`.,;:!?]/
+]
+
+// 组合为一个正则，保证一次扫描中受保护的内容不会重叠（如行内代码中的 URL）
+const PROTECTED_REGEX = new RegExp(
+  PROTECTED_PATTERNS.map((pattern) => pattern.source).join('|'),
+  'g'
+)
+
+// 附加到提示词中的占位符说明
+export const PLACEHOLDER_PROMPT =
+  '\n\n文本中形如 ⟦P0⟧ 的占位符代表代码、链接等受保护的内容，必须原样保留在译文中对应的位置，不要翻译、修改、删除或重复。'
+
+export function hasPlaceholders(text: string): boolean {
+  return new RegExp(PLACEHOLDER_REGEX.source).test(text)
+}
+
+// 去掉占位符后是否还有需要翻译的文本，只有代码、链接等受保护内容时不必请求模型
+export function hasTranslatableText(text: string): boolean {
+  return text.replace(PLACEHOLDER_REGEX, '').trim() !== ''
+}
+
+/**
+ * 将围栏代码块、行内代码、URL、HTML 注释、MDX 的 import/export 语句和 {/* *\/} 注释替换为占位符
+ * 翻译后用 restoreProtectedContent 还原，保证这些内容逐字节不变
+ */
+export function maskProtectedContent(text: string): MaskedContent {
+  const placeholders: string[] = []
+  const createPlaceholder = (content: string): string => {
+    placeholders.push(content)
+    return `⟦P${placeholders.length - 1}⟧`
+  }
+
+  // 围栏代码块整体替换，分隔符保持不变；先用临时标记占位，避免被后面的行内规则再次匹配
+  const blocks = parseMarkdownBlocks(text).map((block) => {
+    if (block.type !== 'code') return block
+    placeholders.push(block.content)
+    return { ...block, content: `\uE000${placeholders.length - 1}\uE000` }
+  })
+
+  const masked = joinMarkdownBlocks(blocks)
+    .replace(PROTECTED_REGEX, (match) => createPlaceholder(match))
+    .replace(/\uE000(\d+)\uE000/g, (_, index) => `⟦P${index}⟧`)
+  return { text: masked, placeholders }
+}
+
+// 替换文本中已知的占位符，未知或不完整的占位符保持原样
+function replacePlaceholders(text: string, placeholders: string[]): string {
+  return text.replace(PLACEHOLDER_REGEX, (token, index) =>
+    Number(index) < placeholders.length ? placeholders[Number(index)] : token
+  )
+}
+
+/**
+ * 将译文中的占位符还原为原文内容，占位符缺失、重复或无法识别时抛出错误
+ */
+export function restoreProtectedContent(text: string, placeholders: string[]): string {
+  if (placeholders.length === 0) return text
+
+  const counts = new Array<number>(placeholders.length).fill(0)
+  for (const match of text.matchAll(PLACEHOLDER_REGEX)) {
+    const index = Number(match[1])
+    if (index >= placeholders.length) {
+      throw new LLMError('invalid_response', `译文中出现了原文没有的占位符 ${match[0]}`)
+    }
+    counts[index]++
+  }
+
+  const missing = counts
+    .map((count, index) => ({ count, index }))
+    .filter(({ count }) => count !== 1)
+  if (missing.length > 0) {
+    const tokens = missing
+      .slice(0, 5)
+      .map(({ index }) => `⟦P${index}⟧`)
+      .join('、')
+    throw new LLMError(
+      'invalid_response',
+      `译文中有 ${missing.length} 个受保护内容的占位符缺失或重复（${tokens}），为避免代码或链接被改动，已放弃本次翻译结果`
+    )
+  }
+
+  return replacePlaceholders(text, placeholders)
+}
+
+/**
+ * 包装流式输出的回调，将增量译文中的占位符还原后再输出
+ * 末尾可能是不完整的占位符，暂存到下一段增量再处理
+ */
+export function createRestoringDeltaHandler(
+  placeholders: string[],
+  onDelta: (delta: string, replace?: boolean) => void
+): (delta: string, replace?: boolean) => void {
+  let pending = ''
+
+  return (delta, replace) => {
+    const text = (replace ? '' : pending) + delta
+    const openIndex = text.lastIndexOf('⟦')
+    const cut = openIndex !== -1 && text.indexOf('⟧', openIndex) === -1 ? openIndex : text.length
+
+    pending = text.slice(cut)
+    onDelta(replacePlaceholders(text.slice(0, cut), placeholders), replace)
+  }
+}
@@ -0,0 +1,495 @@
+import { LLMService } from './llmService'
+import { MaskedContent, hasTranslatableText, maskProtectedContent } from './placeholderMasker'
+import { translateBatchWithFallback, translateSegments } from './segmentTranslation'
+
+// PO 文件中以空行分隔的一个块，通常是一个条目；raw 为原始文本，未修改的块原样输出
+interface PoEntry {
+  raw: string
+  lines: string[]
+  msgctxt?: string
+  msgid?: string // 只有注释的块没有 msgid
+  msgidPlural?: string
+  msgstr: string[] // 复数条目按 msgstr[n] 的序号保存
+  flags: string[]
+  obsolete: boolean // #~ 开头的废弃条目
+}
+
+interface PoCatalog {
+  entries: PoEntry[]
+  separators: string[] // separators[i] 为第 i 个块之后的空行
+  eol: string
+}
+
+// 条目统计，不含文件头和废弃条目
+export interface PoStats {
+  total: number
+  translated: number
+  fuzzy: number
+  untranslated: number
+}
+
+export interface PoTranslateOptions {
+  existing?: string // 现有译文，msgid 相同的条目沿用其中的译文和标记
+  targetLanguage?: string // 目标语言代码，用于补全文件头的 Language 和 Plural-Forms
+  signal?: AbortSignal
+}
+
+export interface PoTranslationResult {
+  content: string
+  translatedEntries: number
+  reusedEntries: number // 沿用现有译文的条目数量
+  errors: Array<{ msgid: string; error: string }>
+  stats: PoStats
+}
+
+const KEYWORD_REGEX = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"\s*$/
+const CONTINUATION_REGEX = /^"(.*)"\s*$/
+const BLOCK_SEPARATOR_REGEX = /(\r?\n(?:[ \t]*\r?\n)+)/
+
+// printf 风格（含 Python 的 %(name)s）和 {name} 风格的格式占位符
+// 不识别空格标志，避免把“100% sure”这类正文中的百分号当作占位符
+const FORMAT_SPECIFIER_REGEX =
+  /%(?:\([\w.]+\))?[-+#0]*(?:\d+|\*)?(?:\.\d+)?[sdifeEgGxXoucr%]|\{[\w.:!-]*\}/g
+
+// 每次请求合并的最大条目数和字符数
+const BATCH_MAX_ENTRIES = 20
+const BATCH_MAX_CHARS = 4000
+
+const PO_INSTRUCTIONS =
+  '\n这些片段是软件界面或文档的消息字符串，只输出译文本身，不要添加引号。保持片段首尾的标点风格和换行。'
+
+// 常见目标语言的复数形式，其余语言沿用文件头中已有的设置
+const PLURAL_FORMS: Record<string, string> = {
+  zh: 'nplurals=1; plural=0;',
+  ja: 'nplurals=1; plural=0;',
+  ko: 'nplurals=1; plural=0;',
+  vi: 'nplurals=1; plural=0;',
+  th: 'nplurals=1; plural=0;',
+  id: 'nplurals=1; plural=0;',
+  en: 'nplurals=2; plural=(n != 1);',
+  de: 'nplurals=2; plural=(n != 1);',
+  es: 'nplurals=2; plural=(n != 1);',
+  it: 'nplurals=2; plural=(n != 1);',
+  pt: 'nplurals=2; plural=(n != 1);',
+  fr: 'nplurals=2; plural=(n > 1);'
+}
+
+const unescapeString = (text: string): string =>
+  text.replace(
+    /\\(.)/g,
+    (_, char) => (({ n: '\n', t: '\t', r: '\r' }) as Record<string, string>)[char] ?? char
+  )
+
+const escapeString = (text: string): string =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+
+export class PoProcessor {
+  private llmService: LLMService
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService
+  }
+
+  /**
+   * 检查文件是否为 gettext 消息目录（.po 或模板 .pot）
+   */
+  static isPoFile(filePath: string): boolean {
+    return /\.pot?$/i.test(filePath)
+  }
+
+  private parseEntry(raw: string): PoEntry {
+    const lines = raw
+      .split(/\r?\n/)
+      .filter((line, index, all) => index < all.length - 1 || line !== '')
+    const entry: PoEntry = { raw, lines, msgstr: [], flags: [], obsolete: false }
+    let current: ((value: string) => void) | null = null
+
+    for (const line of lines) {
+      if (line.startsWith('#~')) {
+        entry.obsolete = true
+        continue
+      }
+      if (line.startsWith('#,')) {
+        entry.flags.push(
+          ...line
+            .slice(2)
+            .split(',')
+            .map((flag) => flag.trim())
+            .filter(Boolean)
+        )
+        continue
+      }
+      if (line.startsWith('#')) continue
+
+      const keyword = line.trim().match(KEYWORD_REGEX)
+      if (keyword) {
+        const [, name, index] = keyword
+        const set = (value: string): void => {
+          if (name === 'msgctxt') entry.msgctxt = (entry.msgctxt ?? '') + value
+          else if (name === 'msgid') entry.msgid = (entry.msgid ?? '') + value
+          else if (name === 'msgid_plural') entry.msgidPlural = (entry.msgidPlural ?? '') + value
+          else entry.msgstr[Number(index ?? 0)] = (entry.msgstr[Number(index ?? 0)] ?? '') + value
+        }
+        set(unescapeString(keyword[3]))
+        current = set
+        continue
+      }
+
+      const continuation = line.trim().match(CONTINUATION_REGEX)
+      if (continuation && current) {
+        current(unescapeString(continuation[1]))
+      }
+    }
+
+    return entry
+  }
+
+  private parseCatalog(content: string): PoCatalog {
+    const parts = content.split(BLOCK_SEPARATOR_REGEX)
+    const catalog: PoCatalog = {
+      entries: [],
+      separators: [],
+      eol: content.includes('\r\n') ? '\r\n' : '\n'
+    }
+    for (let i = 0; i < parts.length; i += 2) {
+      catalog.entries.push(this.parseEntry(parts[i]))
+      catalog.separators.push(parts[i + 1] ?? '')
+    }
+    return catalog
+  }
+
+  private stringifyCatalog(catalog: PoCatalog): string {
+    return catalog.entries.map((entry, index) => entry.raw + catalog.separators[index]).join('')
+  }
+
+  // msgctxt 和 msgid 共同确定一个条目
+  private getEntryKey(entry: PoEntry): string {
+    return entry.msgctxt === undefined ? entry.msgid! : `${entry.msgctxt}\u0004${entry.msgid}`
+  }
+
+  private isHeader(entry: PoEntry): boolean {
+    return entry.msgid === '' && entry.msgctxt === undefined
+  }
+
+  // 需要统计和翻译的普通条目
+  private isMessage(entry: PoEntry): boolean {
+    return entry.msgid !== undefined && !entry.obsolete && !this.isHeader(entry)
+  }
+
+  private isUntranslated(entry: PoEntry): boolean {
+    return entry.msgstr.length === 0 || entry.msgstr.every((value) => !value)
+  }
+
+  // 需要重新翻译：msgstr 为空，或者 msgmerge 标记为 fuzzy 并留有 #| 旧原文（原文已变化）
+  // 机器翻译后等待审校的 fuzzy 条目没有旧原文注释，保留现有译文
+  private needsTranslation(entry: PoEntry): boolean {
+    return (
+      this.isUntranslated(entry) ||
+      (entry.flags.includes('fuzzy') && entry.lines.some((line) => line.startsWith('#|')))
+    )
+  }
+
+  // 按 gettext 的习惯输出字符串，多行文本每行一个字符串，首行为空字符串
+  private formatField(keyword: string, value: string): string[] {
+    const lines = value.split(/(?<=\n)/)
+    if (lines.length <= 1) {
+      return [`${keyword} "${escapeString(value)}"`]
+    }
+    return [`${keyword} ""`, ...lines.map((line) => `"${escapeString(line)}"`)]
+  }
+
+  // 重新生成条目的文本：去掉 #| 旧原文注释，msgstr 不为空时替换译文
+  // fuzzy 为 true 时保留或添加 fuzzy 标记（机器翻译等待审校），否则去掉
+  private rebuildEntry(entry: PoEntry, eol: string, msgstr?: string[], fuzzy = false): PoEntry {
+    const otherFlags = entry.flags.filter((flag) => flag !== 'fuzzy')
+    const flags = fuzzy ? ['fuzzy', ...otherFlags] : otherFlags
+    const firstMsgstr = entry.lines.findIndex((line) => /^msgstr(\[\d+\])?\s/.test(line.trim()))
+    const head = msgstr && firstMsgstr !== -1 ? entry.lines.slice(0, firstMsgstr) : entry.lines
+
+    const lines: string[] = []
+    let hasFlagsLine = false
+    for (const line of head) {
+      if (line.startsWith('#|')) continue
+      if (line.startsWith('#,')) {
+        if (flags.length > 0 && !hasFlagsLine) lines.push(`#, ${flags.join(', ')}`)
+        hasFlagsLine = true
+        continue
+      }
+      lines.push(line)
+    }
+
+    // 原来没有标记行时，标记行放在注释之后、msgctxt/msgid 之前
+    if (!hasFlagsLine && flags.length > 0) {
+      const firstKeyword = lines.findIndex((line) => !line.startsWith('#'))
+      lines.splice(firstKeyword === -1 ? lines.length : firstKeyword, 0, `#, ${flags.join(', ')}`)
+    }
+
+    if (msgstr) {
+      if (entry.msgidPlural !== undefined) {
+        msgstr.forEach((value, index) => lines.push(...this.formatField(`msgstr[${index}]`, value)))
+      } else {
+        lines.push(...this.formatField('msgstr', msgstr[0]))
+      }
+    }
+
+    const trailing = /\r?\n$/.test(entry.raw) ? eol : ''
+    return this.parseEntry(lines.join(eol) + trailing)
+  }
+
+  private getPluralCount(header: PoEntry | undefined): number | null {
+    const match = header?.msgstr[0]?.match(/^Plural-Forms:\s*nplurals\s*=\s*(\d+)/m)
+    return match ? Number(match[1]) : null
+  }
+
+  // 补全模板文件头中为空的 Language 和未设置的 Plural-Forms
+  private updateHeader(header: PoEntry, eol: string, targetLanguage?: string): PoEntry {
+    if (!targetLanguage) return header
+
+    let text = header.msgstr[0] || ''
+    const language = targetLanguage.replace('-', '_')
+    const pluralForms = PLURAL_FORMS[targetLanguage.split('-')[0].toLowerCase()]
+
+    if (/^Language:[ \t]*$/m.test(text)) {
+      text = text.replace(/^Language:[ \t]*$/m, `Language: ${language}`)
+    } else if (!/^Language:/m.test(text)) {
+      text += `Language: ${language}\n`
+    }
+    if (pluralForms && /^Plural-Forms:.*INTEGER/m.test(text)) {
+      text = text.replace(/^Plural-Forms:.*$/m, `Plural-Forms: ${pluralForms}`)
+    } else if (pluralForms && !/^Plural-Forms:/m.test(text)) {
+      text += `Plural-Forms: ${pluralForms}\n`
+    }
+
+    return text === header.msgstr[0] ? header : this.rebuildEntry(header, eol, [text])
+  }
+
+  // 以最新的消息目录为准合并现有译文，msgid 与复数原文都相同的条目沿用现有条目
+  private mergeCatalogs(source: PoCatalog, existing: PoCatalog): number {
+    const existingByKey = new Map(
+      existing.entries
+        .filter((entry) => this.isMessage(entry))
+        .map((entry) => [this.getEntryKey(entry), entry])
+    )
+    const existingHeader = existing.entries.find((entry) => this.isHeader(entry) && !entry.obsolete)
+    let reused = 0
+
+    source.entries = source.entries.map((entry) => {
+      if (this.isHeader(entry)) return existingHeader ?? entry
+      if (!this.isMessage(entry)) return entry
+
+      const previous = existingByKey.get(this.getEntryKey(entry))
+      if (!previous || previous.msgidPlural !== entry.msgidPlural) return entry
+      if (!this.isUntranslated(previous)) reused++
+      return previous
+    })
+    return reused
+  }
+
+  // 格式占位符同样替换为占位符，避免被翻译或改动
+  private maskMessage(text: string): MaskedContent {
+    const masked = maskProtectedContent(text)
+    const maskedText = masked.text.replace(FORMAT_SPECIFIER_REGEX, (match) => {
+      masked.placeholders.push(match)
+      return `⟦P${masked.placeholders.length - 1}⟧`
+    })
+    return { text: maskedText, placeholders: masked.placeholders }
+  }
+
+  // 译文沿用原文首尾的空白和换行
+  private keepWhitespace(source: string, translation: string): string {
+    const leading = source.match(/^\s*/)![0]
+    const trailing = source.slice(leading.length).match(/\s*$/)![0]
+    return leading + translation.trim() + trailing
+  }
+
+  // 将待翻译的条目按顺序分批
+  private createBatches(entries: PoEntry[]): PoEntry[][] {
+    const batches: PoEntry[][] = []
+    let current: PoEntry[] = []
+    let chars = 0
+
+    for (const entry of entries) {
+      const length = entry.msgid!.length + (entry.msgidPlural?.length || 0)
+      if (
+        current.length > 0 &&
+        (current.length >= BATCH_MAX_ENTRIES || chars + length > BATCH_MAX_CHARS)
+      ) {
+        batches.push(current)
+        current = []
+        chars = 0
+      }
+      current.push(entry)
+      chars += length
+    }
+
+    if (current.length > 0) {
+      batches.push(current)
+    }
+    return batches
+  }
+
+  // 翻译一批条目，返回每个条目的单数和复数译文
+  private async translateEntries(
+    entries: PoEntry[],
+    projectPath?: string,
+    signal?: AbortSignal
+  ): Promise<Array<{ singular: string; plural?: string }>> {
+    const texts = entries.flatMap((entry) =>
+      entry.msgidPlural !== undefined ? [entry.msgid!, entry.msgidPlural] : [entry.msgid!]
+    )
+    const translations = await translateSegments(this.llmService, texts, projectPath, {
+      instructions: PO_INSTRUCTIONS,
+      mask: (text) => this.maskMessage(text),
+      signal
+    })
+
+    let index = 0
+    return entries.map((entry) => {
+      const singular = this.keepWhitespace(entry.msgid!, translations[index++])
+      if (entry.msgidPlural === undefined) return { singular }
+      return { singular, plural: this.keepWhitespace(entry.msgidPlural, translations[index++]) }
+    })
+  }
+
+  // 单数译文用于 msgstr[0]，其余形式使用复数译文；只有一种形式的语言（如中文）使用复数译文
+  private buildMsgstr(
+    translation: { singular: string; plural?: string },
+    pluralCount: number
+  ): string[] {
+    if (translation.plural === undefined) {
+      return [translation.singular]
+    }
+    if (pluralCount === 1) {
+      return [translation.plural]
+    }
+    return Array.from({ length: pluralCount }, (_, index) =>
+      index === 0 ? translation.singular : translation.plural!
+    )
+  }
+
+  /**
+   * 翻译消息目录：只翻译 msgstr 为空或原文已变化的 fuzzy 条目，其余条目、注释和标记保持不变
+   * 机器翻译的条目标记为 fuzzy，等待人工审校；提供现有译文时先按 msgctxt + msgid 合并
+   */
+  async translateCatalog(
+    content: string,
+    projectPath?: string,
+    options: PoTranslateOptions = {}
+  ): Promise<PoTranslationResult> {
+    const catalog = this.parseCatalog(content)
+    const reusedEntries = options.existing
+      ? this.mergeCatalogs(catalog, this.parseCatalog(options.existing))
+      : 0
+
+    const headerIndex = catalog.entries.findIndex(
+      (entry) => this.isHeader(entry) && !entry.obsolete
+    )
+    if (headerIndex !== -1) {
+      catalog.entries[headerIndex] = this.updateHeader(
+        catalog.entries[headerIndex],
+        catalog.eol,
+        options.targetLanguage
+      )
+    }
+    const pluralCount = this.getPluralCount(catalog.entries[headerIndex]) ?? 2
+
+    const pending = catalog.entries.filter(
+      (entry) => this.isMessage(entry) && this.needsTranslation(entry)
+    )
+    console.log(
+      `消息目录共 ${catalog.entries.filter((entry) => this.isMessage(entry)).length} 个条目，${pending.length} 个需要翻译`
+    )
+
+    const translatedEntries = new Map<PoEntry, PoEntry>()
+    const errors: Array<{ msgid: string; error: string }> = []
+
+    const record = (entry: PoEntry, translation: { singular: string; plural?: string }): void => {
+      translatedEntries.set(
+        entry,
+        this.rebuildEntry(entry, catalog.eol, this.buildMsgstr(translation, pluralCount), true)
+      )
+    }
+
+    for (const batch of this.createBatches(pending)) {
+      if (options.signal?.aborted) break
+
+      // 没有可翻译文字的条目（如只有格式占位符）直接使用原文
+      const translatable = batch.filter((entry) =>
+        hasTranslatableText(this.maskMessage(entry.msgid!).text)
+      )
+      batch
+        .filter((entry) => !translatable.includes(entry))
+        .forEach((entry) => record(entry, { singular: entry.msgid!, plural: entry.msgidPlural }))
+      if (translatable.length === 0) continue
+
+      await translateBatchWithFallback(translatable, {
+        translateBatch: (entries) => this.translateEntries(entries, projectPath, options.signal),
+        onTranslated: record,
+        onFailed: (entry, error) => {
+          console.error(`翻译消息 "${entry.msgid}" 失败:`, (error as Error).message)
+          errors.push({ msgid: entry.msgid!, error: (error as Error).message })
+        }
+      })
+    }
+
+    catalog.entries = catalog.entries.map((entry) => translatedEntries.get(entry) ?? entry)
+    const translated = this.stringifyCatalog(catalog)
+    console.log(`消息目录翻译完成：${translatedEntries.size}/${pending.length} 个条目翻译成功`)
+
+    return {
+      content: translated,
+      translatedEntries: translatedEntries.size,
+      reusedEntries,
+      errors,
+      stats: this.getStats(translated)
+    }
+  }
+
+  /**
+   * 保存时将人工修改过译文的 fuzzy 条目视为已审校，去掉 fuzzy 标记
+   * previous 为保存前的文件内容，没有条目需要修改时原样返回
+   */
+  markReviewed(previous: string, content: string): string {
+    const previousByKey = new Map(
+      this.parseCatalog(previous)
+        .entries.filter((entry) => this.isMessage(entry))
+        .map((entry) => [this.getEntryKey(entry), entry])
+    )
+    const catalog = this.parseCatalog(content)
+    let changed = false
+
+    catalog.entries = catalog.entries.map((entry) => {
+      if (!this.isMessage(entry) || !entry.flags.includes('fuzzy') || this.isUntranslated(entry))
+        return entry
+
+      const before = previousByKey.get(this.getEntryKey(entry))
+      if (!before || before.msgstr.join('\u0000') === entry.msgstr.join('\u0000')) return entry
+      changed = true
+      return this.rebuildEntry(entry, catalog.eol)
+    })
+
+    return changed ? this.stringifyCatalog(catalog) : content
+  }
+
+  /**
+   * 统计已翻译、fuzzy 和未翻译的条目数量，三者互不重叠：msgstr 为空的条目即使带有 fuzzy 标记也计为未翻译
+   */
+  getStats(content: string): PoStats {
+    const messages = this.parseCatalog(content).entries.filter((entry) => this.isMessage(entry))
+    const untranslated = messages.filter((entry) => this.isUntranslated(entry)).length
+    const fuzzy = messages.filter(
+      (entry) => entry.flags.includes('fuzzy') && !this.isUntranslated(entry)
+    ).length
+    return {
+      total: messages.length,
+      translated: messages.length - untranslated - fuzzy,
+      fuzzy,
+      untranslated
+    }
+  }
+}
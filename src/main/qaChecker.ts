@@ -0,0 +1,378 @@
+import { parseMarkdownBlocks } from '../shared/markdownBlocks'
+
+// 质量检查规则
+export type QARule =
+  | 'heading'
+  | 'code-block'
+  | 'link'
+  | 'inline-code'
+  | 'front-matter'
+  | 'html-tag'
+  | 'placeholder'
+  | 'directive' // reStructuredText 的指令结构
+
+// error 为几乎可以确定的结构错误，warning 为需要人工确认的差异
+export type QASeverity = 'error' | 'warning'
+
+export interface QAIssue {
+  rule: QARule
+  severity: QASeverity
+  message: string
+}
+
+// 保存在文件状态中的检查结果摘要，用于文件树显示
+export interface QASummary {
+  errors: number
+  warnings: number
+}
+
+// 从 Markdown 中提取的结构信息
+interface MarkdownStructure {
+  frontMatter: string | null
+  headingLevels: number[]
+  codeBlocks: string[]
+  prose: string // 去掉 Front Matter 和代码块之后的正文
+}
+
+const INLINE_CODE_REGEX = /(`+)([^`\n]|[^`\n][^\n]*?[^`\n])\1(?!`)/g
+const LINK_REGEX = /!?\[[^\]\n]*\]\(\s*<?([^)\s>]+)>?(?:\s+["'(][^)\n]*)?\)/g
+const REFERENCE_DEFINITION_REGEX = /^\s{0,3}\[[^\]\n]+\]:\s*<?([^\s>]+)>?/gm
+const AUTOLINK_REGEX = /<((?:https?|mailto):[^>\s]+)>/g
+const HTML_URL_REGEX = /\b(?:href|src)\s*=\s*["']([^"']+)["']/g
+const HTML_TAG_REGEX = /<(\/?)([A-Za-z][\w.:-]*)((?:\s[^<>]*?)?)(\/?)>/g
+const HTML_COMMENT_REGEX = /<!--[\s\S]*?-->/g
+const PLACEHOLDER_REGEX =
+  /\{\{[^{}\n]+\}\}|\$\{[^{}\n]+\}|\{[A-Za-z0-9_.]+\}|%\d+\$[sd]|%(?:\([\w]+\))?[sdif]/g
+const FRONT_MATTER_KEY_REGEX = /^([A-Za-z_][\w-]*)\s*:/gm
+
+// 代码块中的注释允许翻译，比较代码时忽略
+const BLOCK_COMMENT_REGEX = /\/\*[\s\S]*?\*\/|<!--[\s\S]*?-->/g
+const LINE_COMMENT_REGEX = /(^|\s)(\/\/|#|--)(\s.*)?$/
+
+// 没有结束标签的 HTML 元素
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr'
+])
+
+function analyzeMarkdown(text: string): MarkdownStructure {
+  const structure: MarkdownStructure = {
+    frontMatter: null,
+    headingLevels: [],
+    codeBlocks: [],
+    prose: ''
+  }
+  const proseParts: string[] = []
+
+  for (const block of parseMarkdownBlocks(text)) {
+    switch (block.type) {
+      case 'frontmatter':
+        structure.frontMatter = block.content
+        break
+      case 'heading':
+        structure.headingLevels.push(block.content.trim().match(/^#+/)?.[0].length || 0)
+        break
+      case 'code':
+        structure.codeBlocks.push(block.content)
+        break
+      case 'blank':
+        break
+      default:
+        proseParts.push(block.content)
+    }
+
+    // 标题中的链接、行内代码等同样需要检查
+    if (block.type === 'heading') {
+      proseParts.push(block.content)
+    }
+  }
+
+  structure.prose = proseParts.join('\n\n')
+  return structure
+}
+
+function collect(text: string, regex: RegExp, group: number = 0): string[] {
+  return Array.from(text.matchAll(regex), (match) => match[group])
+}
+
+function countValues(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1)
+  }
+  return counts
+}
+
+// 比较两组值的出现次数，返回译文中缺少和多出的值（每个值只返回一次）
+function diffValues(
+  source: string[],
+  translation: string[]
+): { missing: string[]; extra: string[] } {
+  const sourceCounts = countValues(source)
+  const translationCounts = countValues(translation)
+  const missing = [...sourceCounts].filter(
+    ([value, count]) => (translationCounts.get(value) || 0) < count
+  )
+  const extra = [...translationCounts].filter(
+    ([value, count]) => (sourceCounts.get(value) || 0) < count
+  )
+  return { missing: missing.map(([value]) => value), extra: extra.map(([value]) => value) }
+}
+
+const stripInlineCode = (text: string): string => text.replace(INLINE_CODE_REGEX, '')
+
+function getCodeInfo(block: string): string {
+  return block
+    .split('\n')[0]
+    .trim()
+    .replace(/^(`{3,}|~{3,})/, '')
+    .trim()
+}
+
+// 去掉围栏和注释后的代码行，忽略行尾空白和空行
+function getCodeLines(block: string): string[] {
+  const lines = block.split('\n').slice(1)
+  if (lines.length > 0 && /^\s{0,3}(`{3,}|~{3,})\s*$/.test(lines[lines.length - 1])) {
+    lines.pop()
+  }
+
+  return lines
+    .join('\n')
+    .replace(BLOCK_COMMENT_REGEX, '')
+    .split('\n')
+    .map((line) => line.replace(LINE_COMMENT_REGEX, '').trimEnd())
+    .filter((line) => line.trim() !== '')
+}
+
+function checkHeadings(source: MarkdownStructure, translation: MarkdownStructure): QAIssue[] {
+  if (source.headingLevels.length !== translation.headingLevels.length) {
+    return [
+      {
+        rule: 'heading',
+        severity: 'error',
+        message: `标题数量不一致：原文 ${source.headingLevels.length} 个，译文 ${translation.headingLevels.length} 个`
+      }
+    ]
+  }
+
+  return source.headingLevels
+    .map((level, index) => ({ index, level, translated: translation.headingLevels[index] }))
+    .filter(({ level, translated }) => level !== translated)
+    .map(
+      ({ index, level, translated }): QAIssue => ({
+        rule: 'heading',
+        severity: 'error',
+        message: `第 ${index + 1} 个标题级别不一致：原文 H${level}，译文 H${translated}`
+      })
+    )
+}
+
+function checkCodeBlocks(source: MarkdownStructure, translation: MarkdownStructure): QAIssue[] {
+  if (source.codeBlocks.length !== translation.codeBlocks.length) {
+    return [
+      {
+        rule: 'code-block',
+        severity: 'error',
+        message: `代码块数量不一致：原文 ${source.codeBlocks.length} 个，译文 ${translation.codeBlocks.length} 个`
+      }
+    ]
+  }
+
+  const issues: QAIssue[] = []
+  source.codeBlocks.forEach((block, index) => {
+    const translated = translation.codeBlocks[index]
+    if (block === translated) return
+
+    if (getCodeInfo(block) !== getCodeInfo(translated)) {
+      issues.push({
+        rule: 'code-block',
+        severity: 'error',
+        message: `第 ${index + 1} 个代码块的语言标记被修改：原文「${getCodeInfo(block)}」，译文「${getCodeInfo(translated)}」`
+      })
+    } else if (getCodeLines(block).join('\n') !== getCodeLines(translated).join('\n')) {
+      issues.push({
+        rule: 'code-block',
+        severity: 'error',
+        message: `第 ${index + 1} 个代码块的代码被修改（注释以外的内容与原文不一致）`
+      })
+    }
+  })
+  return issues
+}
+
+function checkLinks(source: MarkdownStructure, translation: MarkdownStructure): QAIssue[] {
+  const extractUrls = (prose: string): string[] => {
+    const text = stripInlineCode(prose)
+    return [
+      ...collect(text, LINK_REGEX, 1),
+      ...collect(text, REFERENCE_DEFINITION_REGEX, 1),
+      ...collect(text, AUTOLINK_REGEX, 1),
+      ...collect(text, HTML_URL_REGEX, 1)
+    ]
+  }
+
+  const { missing, extra } = diffValues(extractUrls(source.prose), extractUrls(translation.prose))
+  return [
+    // 页内锚点可能随译文标题生成，修改后不一定是错误
+    ...missing.map(
+      (url): QAIssue => ({
+        rule: 'link',
+        severity: url.startsWith('#') ? 'warning' : 'error',
+        message: `链接地址丢失或被修改：${url}`
+      })
+    ),
+    ...extra.map(
+      (url): QAIssue => ({
+        rule: 'link',
+        severity: 'warning',
+        message: `译文中出现原文没有的链接地址：${url}`
+      })
+    )
+  ]
+}
+
+function checkInlineCode(source: MarkdownStructure, translation: MarkdownStructure): QAIssue[] {
+  const { missing } = diffValues(
+    collect(source.prose, INLINE_CODE_REGEX),
+    collect(translation.prose, INLINE_CODE_REGEX)
+  )
+  return missing.map(
+    (code): QAIssue => ({
+      rule: 'inline-code',
+      severity: 'warning',
+      message: `行内代码丢失或被修改：${code}`
+    })
+  )
+}
+
+function checkFrontMatter(source: MarkdownStructure, translation: MarkdownStructure): QAIssue[] {
+  if (source.frontMatter === null) return []
+  if (translation.frontMatter === null) {
+    return [{ rule: 'front-matter', severity: 'error', message: '译文缺少 Front Matter' }]
+  }
+
+  const { missing, extra } = diffValues(
+    collect(source.frontMatter, FRONT_MATTER_KEY_REGEX, 1),
+    collect(translation.frontMatter, FRONT_MATTER_KEY_REGEX, 1)
+  )
+  return [
+    ...missing.map(
+      (key): QAIssue => ({
+        rule: 'front-matter',
+        severity: 'error',
+        message: `Front Matter 缺少字段：${key}`
+      })
+    ),
+    ...extra.map(
+      (key): QAIssue => ({
+        rule: 'front-matter',
+        severity: 'warning',
+        message: `Front Matter 多出字段：${key}`
+      })
+    )
+  ]
+}
+
+function checkHtmlTags(source: MarkdownStructure, translation: MarkdownStructure): QAIssue[] {
+  // 按标签名统计开始标签和结束标签的数量，自闭合标签和空元素不参与
+  const countTags = (prose: string): Map<string, { open: number; close: number }> => {
+    const counts = new Map<string, { open: number; close: number }>()
+    const text = stripInlineCode(prose).replace(HTML_COMMENT_REGEX, '')
+    for (const match of text.matchAll(HTML_TAG_REGEX)) {
+      const [, closing, name, , selfClosing] = match
+      if (selfClosing || VOID_ELEMENTS.has(name.toLowerCase())) continue
+
+      const count = counts.get(name) || { open: 0, close: 0 }
+      if (closing) {
+        count.close++
+      } else {
+        count.open++
+      }
+      counts.set(name, count)
+    }
+    return counts
+  }
+
+  const sourceTags = countTags(source.prose)
+  const translationTags = countTags(translation.prose)
+  const names = new Set([...sourceTags.keys(), ...translationTags.keys()])
+  const issues: QAIssue[] = []
+
+  for (const name of names) {
+    const expected = sourceTags.get(name) || { open: 0, close: 0 }
+    const actual = translationTags.get(name) || { open: 0, close: 0 }
+    if (expected.open === actual.open && expected.close === actual.close) continue
+
+    issues.push({
+      rule: 'html-tag',
+      severity: 'error',
+      message:
+        actual.open !== actual.close && expected.open === expected.close
+          ? `标签 <${name}> 未闭合：译文中有 ${actual.open} 个开始标签、${actual.close} 个结束标签`
+          : `标签 <${name}> 的数量与原文不一致：原文 ${expected.open}/${expected.close}，译文 ${actual.open}/${actual.close}（开始/结束）`
+    })
+  }
+  return issues
+}
+
+function checkPlaceholders(source: MarkdownStructure, translation: MarkdownStructure): QAIssue[] {
+  const { missing, extra } = diffValues(
+    collect(stripInlineCode(source.prose), PLACEHOLDER_REGEX),
+    collect(stripInlineCode(translation.prose), PLACEHOLDER_REGEX)
+  )
+  return [
+    ...missing.map(
+      (token): QAIssue => ({
+        rule: 'placeholder',
+        severity: 'error',
+        message: `占位符丢失或被修改：${token}`
+      })
+    ),
+    ...extra.map(
+      (token): QAIssue => ({
+        rule: 'placeholder',
+        severity: 'warning',
+        message: `译文中出现原文没有的占位符：${token}`
+      })
+    )
+  ]
+}
+
+/**
+ * 对比原文和译文的 Markdown 结构，检查标题、代码块、链接、行内代码、Front Matter、HTML/JSX 标签和占位符
+ * 只检查结构是否一致，不评价译文本身
+ */
+export function runQAChecks(source: string, translation: string): QAIssue[] {
+  if (!translation.trim()) return []
+
+  const sourceStructure = analyzeMarkdown(source)
+  const translationStructure = analyzeMarkdown(translation)
+
+  return [
+    ...checkHeadings(sourceStructure, translationStructure),
+    ...checkCodeBlocks(sourceStructure, translationStructure),
+    ...checkLinks(sourceStructure, translationStructure),
+    ...checkInlineCode(sourceStructure, translationStructure),
+    ...checkFrontMatter(sourceStructure, translationStructure),
+    ...checkHtmlTags(sourceStructure, translationStructure),
+    ...checkPlaceholders(sourceStructure, translationStructure)
+  ]
+}
+
+export function summarizeQAIssues(issues: QAIssue[]): QASummary {
+  return {
+    errors: issues.filter((issue) => issue.severity === 'error').length,
+    warnings: issues.filter((issue) => issue.severity === 'warning').length
+  }
+}
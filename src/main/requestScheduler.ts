@@ -0,0 +1,179 @@
+import { LLMError, getErrorCategory, isTransientError } from './llmErrors'
+
+// 请求速率限制，未设置的项不做限制
+export interface RateLimits {
+  requestsPerMinute?: number
+  tokensPerMinute?: number
+  maxRetries?: number
+}
+
+export interface ScheduleOptions<T> {
+  estimatedTokens?: number // 预估的 token 用量，用于 TPM 限制
+  signal?: AbortSignal
+  getUsedTokens?: (result: T) => number | undefined // 请求完成后的实际 token 用量，用于修正预估值
+  onRetry?: (attempt: number, error: Error) => void
+}
+
+interface WindowEntry {
+  time: number
+  tokens: number
+}
+
+const WINDOW_MS = 60 * 1000
+const DEFAULT_MAX_RETRIES = 3
+const BASE_BACKOFF_MS = 1000
+const MAX_BACKOFF_MS = 60 * 1000
+
+// 可被取消的等待
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMError('cancelled', '翻译已取消'))
+      return
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(new LLMError('cancelled', '翻译已取消'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// 解析 Retry-After 响应头，支持秒数和 HTTP 日期两种格式
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return undefined
+}
+
+// 粗略估算文本的 token 数
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 3)
+}
+
+/**
+ * LLM 请求调度器：所有翻译共享同一个实例
+ * 按滑动窗口限制每分钟的请求数和 token 数，对限流和网络错误进行带抖动的指数退避重试
+ */
+export class RequestScheduler {
+  private getLimits: () => RateLimits
+  private window: WindowEntry[] = []
+  private pausedUntil = 0 // 收到 429 后所有请求暂停到该时间
+  private queue: Promise<void> = Promise.resolve() // 保证等待额度的请求按先后顺序获得额度
+
+  constructor(getLimits: () => RateLimits) {
+    this.getLimits = getLimits
+  }
+
+  async schedule<T>(task: () => Promise<T>, options: ScheduleOptions<T> = {}): Promise<T> {
+    const maxRetries = this.getLimits().maxRetries ?? DEFAULT_MAX_RETRIES
+
+    for (let attempt = 0; ; attempt++) {
+      const entry = await this.acquire(options.estimatedTokens || 0, options.signal)
+
+      try {
+        const result = await task()
+        const usedTokens = options.getUsedTokens?.(result)
+        if (usedTokens !== undefined) {
+          entry.tokens = usedTokens
+        }
+        return result
+      } catch (error) {
+        const category = getErrorCategory(error)
+        if (options.signal?.aborted || !isTransientError(category) || attempt >= maxRetries) {
+          throw error
+        }
+
+        const retryAfter = error instanceof LLMError ? error.retryAfterMs : undefined
+        const delay = retryAfter ?? this.getBackoffDelay(attempt)
+
+        // 限流时暂停所有请求，避免其他并发任务继续触发 429
+        if (category === 'rate_limit') {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay)
+        }
+
+        console.warn(
+          `LLM 请求失败（${category}），${Math.round(delay / 1000)} 秒后进行第 ${attempt + 1} 次重试`
+        )
+        options.onRetry?.(attempt + 1, error as Error)
+        await sleep(delay, options.signal)
+      }
+    }
+  }
+
+  // 带抖动的指数退避：基础延迟的 50%~100%
+  private getBackoffDelay(attempt: number): number {
+    const exponential = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt), MAX_BACKOFF_MS)
+    return Math.round(exponential * (0.5 + Math.random() * 0.5))
+  }
+
+  // 排队等待请求额度
+  private acquire(tokens: number, signal?: AbortSignal): Promise<WindowEntry> {
+    const result = this.queue.then(() => this.waitForCapacity(tokens, signal))
+    this.queue = result.then(
+      () => undefined,
+      () => undefined
+    )
+    return result
+  }
+
+  private async waitForCapacity(tokens: number, signal?: AbortSignal): Promise<WindowEntry> {
+    for (;;) {
+      const now = Date.now()
+      this.window = this.window.filter((entry) => now - entry.time < WINDOW_MS)
+
+      const waitMs = Math.max(this.pausedUntil - now, this.getRateLimitWait(tokens, now))
+      if (waitMs <= 0) {
+        const entry = { time: now, tokens }
+        this.window.push(entry)
+        return entry
+      }
+
+      await sleep(waitMs, signal)
+    }
+  }
+
+  // 计算满足 RPM / TPM 限制还需要等待的时间
+  private getRateLimitWait(tokens: number, now: number): number {
+    const { requestsPerMinute, tokensPerMinute } = this.getLimits()
+    let waitMs = 0
+
+    if (requestsPerMinute && this.window.length >= requestsPerMinute) {
+      const oldest = this.window[this.window.length - requestsPerMinute]
+      waitMs = Math.max(waitMs, oldest.time + WINDOW_MS - now)
+    }
+
+    if (tokensPerMinute && this.window.length > 0) {
+      let usedTokens = this.window.reduce((sum, entry) => sum + entry.tokens, 0)
+      if (usedTokens + tokens > tokensPerMinute) {
+        // 找到足够多的记录过期后的时间点；单个请求超过限制时等窗口清空后放行
+        let expireAt = this.window[this.window.length - 1].time
+        for (const entry of this.window) {
+          usedTokens -= entry.tokens
+          if (usedTokens + tokens <= tokensPerMinute) {
+            expireAt = entry.time
+            break
+          }
+        }
+        waitMs = Math.max(waitMs, expireAt + WINDOW_MS - now)
+      }
+    }
+
+    return waitMs
+  }
+}
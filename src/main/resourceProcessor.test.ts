@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { LLMService } from './llmService'
+import { ResourceProcessor } from './resourceProcessor'
+
+const DICTIONARY: Record<string, string> = {
+  Welcome: '欢迎',
+  Monday: '星期一',
+  Tuesday: '星期二',
+  Install: '安装',
+  'Run the installer': '运行安装程序',
+  'and restart.': '然后重启。',
+  Done: '完成'
+}
+
+// 按词典逐词替换，保留合并翻译的片段标记和占位符
+const llmService = {
+  translateText: async (request: { content: string }) => ({
+    translatedContent: Object.entries(DICTIONARY).reduce(
+      (text, [source, target]) => text.split(source).join(target),
+      request.content
+    )
+  })
+} as unknown as LLMService
+
+const SOURCE = `en:
+  title: Welcome
+  days:
+    - Monday
+    - "Tuesday" # 注释
+  steps:
+  - name: Install
+    description: |
+      Run the installer
+      and restart.
+  - name: Done
+    optional: true
+  tags: [beta]
+`
+
+describe('YAML 资源文件', () => {
+  const processor = new ResourceProcessor(llmService)
+  const languages = { sourceLanguage: 'en', targetLanguage: 'zh' }
+
+  it('翻译序列中的标量、块标量和映射项，其余结构保持原样', async () => {
+    const result = await processor.translateResource(SOURCE, 'locales/en.yml', undefined, languages)
+    expect(result.errors).toEqual([])
+    expect(result.translatedStrings).toBe(6)
+    expect(result.content).toBe(`zh:
+  title: 欢迎
+  days:
+    - 星期一
+    - "星期二" # 注释
+  steps:
+  - name: 安装
+    description: |
+      运行安装程序
+      然后重启。
+  - name: 完成
+    optional: true
+  tags: [beta]
+`)
+  })
+
+  it('序列项按下标对应，与 JSON 数组一致', async () => {
+    const previous = await processor.translateResource(SOURCE, 'en.yml', undefined, languages)
+    const result = await processor.translateResource(
+      SOURCE.replace('- Monday', '- Sunday'),
+      'en.yml',
+      undefined,
+      { ...languages, previous: { original: SOURCE, translated: previous.content } }
+    )
+    expect(result.reusedStrings).toBe(5)
+    expect(result.content).toContain('    - Sunday\n    - "星期二"')
+
+    const missing = previous.content.replace('  - name: 完成\n    optional: true\n', '')
+    expect(processor.validateResource('en.yml', SOURCE, missing, languages)).toEqual([
+      { severity: 'error', message: '译文缺少键 steps.1.name' }
+    ])
+  })
+})
@@ -0,0 +1,543 @@
+import { LLMService } from './llmService'
+import { MaskedContent, maskProtectedContent } from './placeholderMasker'
+import { translateBatchWithFallback, translateSegments } from './segmentTranslation'
+import { BLOCK_HEADER_REGEX, FrontMatterField, formatValue, parseInlineValue } from './frontMatter'
+
+// 资源文件中一个需要翻译的字符串，path 为从根节点到该值的键
+interface ResourceString {
+  path: string[]
+  value: string
+}
+
+// YAML 中字符串值所在的位置，prefix 为值之前的内容（缩进、键和冒号）
+interface YamlString
+  extends ResourceString,
+    Pick<FrontMatterField, 'style' | 'start' | 'end' | 'indent' | 'suffix'> {
+  prefix: string
+}
+
+interface YamlDocument {
+  strings: YamlString[]
+  localeRoot: number | null // Rails 风格以语言代码为唯一顶层键时，该键所在的行
+}
+
+export interface ResourceTranslateOptions {
+  previous?: { original: string; translated: string } // 上次翻译时的原文和现有译文，原文未变化的键沿用现有译文
+  sourceLanguage?: string
+  targetLanguage?: string
+  signal?: AbortSignal
+}
+
+export interface ResourceTranslationResult {
+  content: string
+  translatedStrings: number
+  reusedStrings: number
+  errors: Array<{ key: string; error: string }>
+}
+
+// 资源文件的结构问题，error 为缺少键，warning 为占位符或标签与原文不一致
+export interface ResourceIssue {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// Docusaurus（message/description）和 react-intl（defaultMessage/description）的消息对象只翻译消息本身
+const MESSAGE_KEYS = ['message', 'defaultMessage']
+
+// 序列项，如 - value、- key: value
+const YAML_ITEM_REGEX = /^([ \t]*)-(?=[ \t]|$)[ \t]*(.*)$/
+const YAML_KEY_REGEX =
+  /^([ \t]*)([\w$@/.-]+|"(?:[^"\\]|\\.)*"|'(?:[^']|'')*')([ \t]*:)(?=[ \t]|$)[ \t]*(.*)$/
+
+// HTML 标签和 react-intl 的富文本标签，如 <b>、<0>、</link>
+const TAG_REGEX = /<\/?[A-Za-z0-9][\w.:-]*(?:\s[^<>]*)?\/?>/g
+// 插值参数：i18next 的 {{name}}、Rails 的 %{name}、ICU 的 {name} 和 {count, number}
+const ARGUMENT_REGEX =
+  /\{\{[^{}]*\}\}|%?\{\s*[\w.]+\s*(?:,\s*(?:number|date|time|spellout|ordinal|duration)\s*(?:,[^{}]*)?)?\}/g
+// ICU 复数和选择的开头连同第一个分支，如 {count, plural, one {
+const ICU_SELECT_REGEX =
+  /\{\s*[\w.]+\s*,\s*(?:plural|selectordinal|select)\s*,(?:\s*offset:\d+)?\s*(?:=\d+|[\w-]+)\s*\{/g
+// 分支之间的分隔，如 } other {
+const ICU_BRANCH_REGEX = /\}\s*(?:=\d+|[\w-]+)\s*\{/g
+
+// 每次请求合并的最大字符串数和字符数
+const BATCH_MAX_STRINGS = 30
+const BATCH_MAX_CHARS = 4000
+
+const RESOURCE_INSTRUCTIONS =
+  '\n这些片段是网站或应用界面中的文字（按钮、菜单、提示等），译文应简洁，只输出译文本身，不要添加引号。'
+
+const getIndentWidth = (line: string): number => line.match(/^[ \t]*/)![0].length
+
+const unquoteKey = (key: string): string => {
+  if (key.startsWith('"')) return JSON.parse(key)
+  if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'")
+  return key
+}
+
+const getStringKey = (path: string[]): string => JSON.stringify(path)
+
+// 显示给用户的键名，忽略语言代码根键
+const getDisplayKey = (path: string[]): string => path.filter(Boolean).join('.')
+
+// 语言代码比较时忽略大小写和分隔符，只写主语言（如 zh）时也视为相同
+const isSameLocale = (key: string, language?: string): boolean => {
+  if (!language) return false
+  const normalize = (code: string): string => code.toLowerCase().replace(/_/g, '-')
+  return (
+    normalize(key) === normalize(language) || normalize(key) === normalize(language).split('-')[0]
+  )
+}
+
+export class ResourceProcessor {
+  private llmService: LLMService
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService
+  }
+
+  /**
+   * 检查文件是否为键值形式的界面文字资源文件（JSON 或 YAML）
+   */
+  static isResourceFile(filePath: string): boolean {
+    return /\.(json|ya?ml)$/i.test(filePath)
+  }
+
+  private isJson(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith('.json')
+  }
+
+  private parseJson(content: string, filePath: string): unknown {
+    try {
+      return JSON.parse(content)
+    } catch (error) {
+      throw new Error(`资源文件 ${filePath} 不是有效的 JSON: ${(error as Error).message}`)
+    }
+  }
+
+  // 遍历 JSON 中需要翻译的字符串，用 map 的返回值替换
+  private mapJsonStrings(
+    node: unknown,
+    path: string[],
+    map: (path: string[], value: string) => string
+  ): unknown {
+    if (typeof node === 'string') {
+      return map(path, node)
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, index) => this.mapJsonStrings(item, [...path, String(index)], map))
+    }
+    if (!node || typeof node !== 'object') {
+      return node
+    }
+
+    const object = node as Record<string, unknown>
+    const messageKey = MESSAGE_KEYS.find((key) => typeof object[key] === 'string')
+    if (messageKey) {
+      return { ...object, [messageKey]: map([...path, messageKey], object[messageKey] as string) }
+    }
+    return Object.fromEntries(
+      Object.entries(object).map(([key, value]) => [
+        key,
+        this.mapJsonStrings(value, [...path, key], map)
+      ])
+    )
+  }
+
+  // 按缩进找出 YAML 中各个字符串值的路径，处理映射和序列中的单行标量和块标量
+  // 序列项的路径为其下标，与 JSON 数组一致；跨行的普通标量、集合等其它结构保持原样
+  private parseYaml(content: string, locale?: string): YamlDocument {
+    const lines = content.split('\n').map((line) => line.replace(/\r$/, ''))
+    const strings: YamlString[] = []
+    const rootKeys: Array<{ line: number; key: string }> = []
+    // item 表示序列项，items 为其下已出现的序列项数量
+    const stack: Array<{ indent: number; key: string; item: boolean; items: number }> = []
+    let rootItems = 0
+
+    // 记录第 i 行中 rest 部分的值，indent 为键或序列项的缩进，返回值所占的最后一行
+    const addValue = (i: number, path: string[], rest: string, indent: number): number => {
+      const prefix = lines[i].slice(0, lines[i].length - rest.length)
+      if (BLOCK_HEADER_REGEX.test(rest)) {
+        let end = i + 1
+        while (
+          end < lines.length &&
+          (lines[end].trim() === '' || getIndentWidth(lines[end]) > indent)
+        ) {
+          end++
+        }
+        // 末尾的空行不属于块内容
+        while (end > i + 1 && lines[end - 1].trim() === '') {
+          end--
+        }
+        if (end === i + 1) return i
+
+        const blockIndent = lines[i + 1].match(/^\s*/)![0]
+        const value = lines
+          .slice(i + 1, end)
+          .map((blockLine) =>
+            blockLine.startsWith(blockIndent)
+              ? blockLine.slice(blockIndent.length)
+              : blockLine.trim()
+          )
+          .join('\n')
+        strings.push({
+          path,
+          value,
+          style: 'block',
+          start: i + 1,
+          end,
+          indent: blockIndent,
+          suffix: '',
+          prefix
+        })
+        return end - 1
+      }
+
+      const parsed = parseInlineValue(rest)
+      // 下一行缩进更深说明值跨行，不处理；不加引号的布尔值和空值不是字符串
+      const next = lines[i + 1] || ''
+      if (
+        !parsed ||
+        parsed.value.trim() === '' ||
+        (next.trim() !== '' && getIndentWidth(next) > indent)
+      )
+        return i
+      if (parsed.style === 'plain' && /^(true|false|yes|no|on|off|null|~)$/i.test(parsed.value))
+        return i
+
+      strings.push({ path, ...parsed, start: i, end: i + 1, indent: '', prefix })
+      return i
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+      let line = lines[i]
+      if (!line.trim() || /^\s*#/.test(line)) continue
+
+      const item = line.match(YAML_ITEM_REGEX)
+      if (item) {
+        const indent = item[1].length
+        // 与序列项缩进相同的键是序列所属的键（如 key: 之后不缩进的 - value），同缩进的序列项是兄弟项
+        while (
+          stack.length > 0 &&
+          (stack[stack.length - 1].indent > indent ||
+            (stack[stack.length - 1].item && stack[stack.length - 1].indent === indent))
+        ) {
+          stack.pop()
+        }
+        const parent = stack[stack.length - 1]
+        const key = String(parent ? parent.items++ : rootItems++)
+        const path = [...stack.map((frame) => frame.key), key]
+        stack.push({ indent, key, item: true, items: 0 })
+
+        const rest = item[2]
+        if (rest === '' || rest.startsWith('#') || YAML_ITEM_REGEX.test(rest)) continue
+        if (!YAML_KEY_REGEX.test(rest)) {
+          i = addValue(i, path, rest, indent)
+          continue
+        }
+        // 序列项是映射（- key: value）时，把 - 换成空格后按键继续处理
+        line = line.slice(0, indent) + ' ' + line.slice(indent + 1)
+      }
+
+      const match = line.match(YAML_KEY_REGEX)
+      if (!match) continue
+
+      const indent = match[1].length
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop()
+      }
+      const key = unquoteKey(match[2])
+      const path = [...stack.map((frame) => frame.key), key]
+      const rest = match[4]
+      if (indent === 0) {
+        rootKeys.push({ line: i, key })
+      }
+
+      if (rest === '' || rest.startsWith('#')) {
+        stack.push({ indent, key, item: false, items: 0 })
+        continue
+      }
+      i = addValue(i, path, rest, indent)
+    }
+
+    // 以语言代码为唯一顶层键时（如 Rails 的 en:），比较和输出时忽略该键
+    const localeRoot =
+      rootKeys.length === 1 && isSameLocale(rootKeys[0].key, locale) ? rootKeys[0].line : null
+    if (localeRoot !== null) {
+      strings.forEach((item) => (item.path = ['', ...item.path.slice(1)]))
+    }
+    return { strings, localeRoot }
+  }
+
+  private extractStrings(content: string, filePath: string, locale?: string): ResourceString[] {
+    if (!this.isJson(filePath)) {
+      return this.parseYaml(content, locale).strings
+    }
+
+    const strings: ResourceString[] = []
+    this.mapJsonStrings(this.parseJson(content, filePath), [], (path, value) => {
+      strings.push({ path, value })
+      return value
+    })
+    return strings
+  }
+
+  // 用译文替换字符串的值，translations 的键为 getStringKey 的结果
+  private applyTranslations(
+    content: string,
+    filePath: string,
+    translations: Map<string, string>,
+    options: ResourceTranslateOptions
+  ): string {
+    if (this.isJson(filePath)) {
+      const result = this.mapJsonStrings(
+        this.parseJson(content, filePath),
+        [],
+        (path, value) => translations.get(getStringKey(path)) ?? value
+      )
+      // 沿用原文的缩进和末尾换行
+      const indent = content.match(/^[ \t]+(?=")/m)?.[0] || 2
+      return JSON.stringify(result, null, indent) + (/\n$/.test(content) ? '\n' : '')
+    }
+
+    const { strings, localeRoot } = this.parseYaml(content, options.sourceLanguage)
+    const lines = content.split('\n')
+    const lineEnding = (line: string): string => (line.endsWith('\r') ? '\r' : '')
+
+    // 从后往前替换，块标量的行数变化不影响前面字符串的行号
+    for (let index = strings.length - 1; index >= 0; index--) {
+      const item = strings[index]
+      const translation = translations.get(getStringKey(item.path))
+      if (translation === undefined || translation === item.value) continue
+
+      const ending = lineEnding(lines[item.start])
+      if (item.style === 'block') {
+        const blockLines = translation
+          .split('\n')
+          .map((line) => (line ? item.indent + line : line) + ending)
+        lines.splice(item.start, item.end - item.start, ...blockLines)
+      } else {
+        lines[item.start] = item.prefix + formatValue(item, translation) + item.suffix + ending
+      }
+    }
+
+    if (localeRoot !== null && options.targetLanguage) {
+      lines[localeRoot] = lines[localeRoot].replace(/^[^:]+(?=:)/, options.targetLanguage)
+    }
+    return lines.join('\n')
+  }
+
+  /**
+   * 替换界面文字中的受保护内容：HTML 标签、插值参数，以及 ICU 复数和选择的语法部分
+   * ICU 各分支中的文字仍然交给模型翻译
+   */
+  maskResourceText(text: string): MaskedContent {
+    const masked = maskProtectedContent(text)
+    const protect = (match: string): string => {
+      masked.placeholders.push(match)
+      return `⟦P${masked.placeholders.length - 1}⟧`
+    }
+
+    // 先替换复数和选择的分支开头，避免只有一个单词的分支（如 male {He}）被当作参数
+    const hasSelect = masked.text.search(ICU_SELECT_REGEX) !== -1
+    let result = hasSelect
+      ? masked.text.replace(ICU_SELECT_REGEX, protect).replace(ICU_BRANCH_REGEX, protect)
+      : masked.text
+    result = result.replace(ARGUMENT_REGEX, protect).replace(TAG_REGEX, protect)
+    if (hasSelect) {
+      // 分支中的 # 代表数量，其余的大括号都属于 ICU 语法
+      result = result.replace(/[{}#]/g, protect)
+    }
+    return { text: result, placeholders: masked.placeholders }
+  }
+
+  // 去掉受保护的内容后还有文字时才需要翻译，只有参数、标签或数字的值保持原样
+  private isTranslatable(value: string): boolean {
+    return /\p{L}/u.test(this.maskResourceText(value).text.replace(/⟦P\d+⟧/g, ''))
+  }
+
+  // 译文沿用原文首尾的空白
+  private keepWhitespace(source: string, translation: string): string {
+    const leading = source.match(/^\s*/)![0]
+    const trailing = source.slice(leading.length).match(/\s*$/)![0]
+    return leading + translation.trim() + trailing
+  }
+
+  // 将待翻译的字符串按顺序分批
+  private createBatches(strings: ResourceString[]): ResourceString[][] {
+    const batches: ResourceString[][] = []
+    let current: ResourceString[] = []
+    let chars = 0
+
+    for (const item of strings) {
+      if (
+        current.length > 0 &&
+        (current.length >= BATCH_MAX_STRINGS || chars + item.value.length > BATCH_MAX_CHARS)
+      ) {
+        batches.push(current)
+        current = []
+        chars = 0
+      }
+      current.push(item)
+      chars += item.value.length
+    }
+
+    if (current.length > 0) {
+      batches.push(current)
+    }
+    return batches
+  }
+
+  private async translateStrings(
+    strings: ResourceString[],
+    projectPath?: string,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    const translations = await translateSegments(
+      this.llmService,
+      strings.map((item) => item.value),
+      projectPath,
+      {
+        instructions: RESOURCE_INSTRUCTIONS,
+        mask: (text) => this.maskResourceText(text),
+        signal
+      }
+    )
+    return translations.map((translation, index) =>
+      this.keepWhitespace(strings[index].value, translation)
+    )
+  }
+
+  /**
+   * 翻译资源文件中的字符串值，键和文件结构保持不变
+   * 提供 previous 时只翻译原文新增或变化的键，其余键沿用现有译文
+   */
+  async translateResource(
+    content: string,
+    filePath: string,
+    projectPath?: string,
+    options: ResourceTranslateOptions = {}
+  ): Promise<ResourceTranslationResult> {
+    const strings = this.extractStrings(content, filePath, options.sourceLanguage)
+    const translations = new Map<string, string>()
+    let reusedStrings = 0
+
+    if (options.previous) {
+      const previousSource = new Map(
+        this.extractStrings(options.previous.original, filePath, options.sourceLanguage).map(
+          (item) => [getStringKey(item.path), item.value]
+        )
+      )
+      const previousTarget = new Map(
+        this.extractStrings(options.previous.translated, filePath, options.targetLanguage).map(
+          (item) => [getStringKey(item.path), item.value]
+        )
+      )
+      // 译文与原文相同的键（如上次翻译失败时保留的原文）不沿用，重新翻译
+      for (const item of strings) {
+        const key = getStringKey(item.path)
+        const target = previousTarget.get(key)
+        if (
+          previousSource.get(key) === item.value &&
+          target !== undefined &&
+          target !== item.value
+        ) {
+          translations.set(key, previousTarget.get(key)!)
+          reusedStrings++
+        }
+      }
+    }
+
+    const pending = strings.filter(
+      (item) => !translations.has(getStringKey(item.path)) && this.isTranslatable(item.value)
+    )
+    console.log(
+      `资源文件共 ${strings.length} 个字符串，${reusedStrings} 个沿用现有译文，${pending.length} 个需要翻译`
+    )
+
+    const errors: Array<{ key: string; error: string }> = []
+    let translatedStrings = 0
+    for (const batch of this.createBatches(pending)) {
+      if (options.signal?.aborted) break
+
+      await translateBatchWithFallback(batch, {
+        translateBatch: (items) => this.translateStrings(items, projectPath, options.signal),
+        onTranslated: (item, translation) => {
+          translations.set(getStringKey(item.path), translation)
+          translatedStrings++
+        },
+        onFailed: (item, error) => {
+          console.error(`翻译键 ${getDisplayKey(item.path)} 失败:`, (error as Error).message)
+          errors.push({ key: getDisplayKey(item.path), error: (error as Error).message })
+        }
+      })
+    }
+
+    console.log(`资源文件翻译完成：${translatedStrings}/${pending.length} 个字符串翻译成功`)
+    return {
+      content: this.applyTranslations(content, filePath, translations, options),
+      translatedStrings,
+      reusedStrings,
+      errors
+    }
+  }
+
+  /**
+   * 返回 keys 中译文仍与原文相同或缺失的键，用于判断翻译失败的键是否已被手动译好
+   */
+  getUntranslatedKeys(
+    filePath: string,
+    original: string,
+    translated: string,
+    keys: string[],
+    languages: { sourceLanguage?: string; targetLanguage?: string } = {}
+  ): string[] {
+    const targets = new Map(
+      this.extractStrings(translated, filePath, languages.targetLanguage).map((item) => [
+        getStringKey(item.path),
+        item.value
+      ])
+    )
+    return this.extractStrings(original, filePath, languages.sourceLanguage)
+      .filter((item) => keys.includes(getDisplayKey(item.path)))
+      .filter((item) => {
+        const target = targets.get(getStringKey(item.path))
+        return target === undefined || target === item.value
+      })
+      .map((item) => getDisplayKey(item.path))
+  }
+
+  /**
+   * 检查译文是否保留了原文的所有键，以及每个值中的插值参数、ICU 语法和标签
+   */
+  validateResource(
+    filePath: string,
+    original: string,
+    translated: string,
+    languages: { sourceLanguage?: string; targetLanguage?: string } = {}
+  ): ResourceIssue[] {
+    const targets = new Map(
+      this.extractStrings(translated, filePath, languages.targetLanguage).map((item) => [
+        getStringKey(item.path),
+        item.value
+      ])
+    )
+    const issues: ResourceIssue[] = []
+
+    for (const item of this.extractStrings(original, filePath, languages.sourceLanguage)) {
+      const key = getDisplayKey(item.path)
+      const target = targets.get(getStringKey(item.path))
+      if (target === undefined) {
+        issues.push({ severity: 'error', message: `译文缺少键 ${key}` })
+        continue
+      }
+
+      const expected = this.maskResourceText(item.value).placeholders.slice().sort()
+      const actual = this.maskResourceText(target).placeholders.slice().sort()
+      if (expected.join('\u0000') !== actual.join('\u0000')) {
+        issues.push({ severity: 'warning', message: `键 ${key} 的参数或标签与原文不一致` })
+      }
+    }
+    return issues
+  }
+}
@@ -0,0 +1,423 @@
+import { LLMService, TranslationStreamOptions } from './llmService'
+import { LLMError } from './llmErrors'
+import {
+  MaskedContent,
+  createRestoringDeltaHandler,
+  hasTranslatableText,
+  restoreProtectedContent
+} from './placeholderMasker'
+
+// reStructuredText 中整体保留不翻译的区域
+// directive 为指令及其参数和选项，directive-body 为代码等指令的内容，comment 包括注释和超链接目标
+// 表格的列宽依赖字符宽度，翻译后很容易破坏对齐，整体保留
+type RstRegionKind =
+  | 'directive'
+  | 'directive-body'
+  | 'literal'
+  | 'comment'
+  | 'table'
+  | 'doctest'
+  | 'adornment'
+
+interface RstRegion {
+  kind: RstRegionKind
+  start: number // 起始行
+  end: number // 结束行（不含）
+  indent: number
+  name?: string // 指令名
+}
+
+interface RstDocument {
+  regions: RstRegion[]
+  literalMarkers: number[] // 以 :: 结尾、引出字面量块的正文行
+}
+
+const EXPLICIT_MARKUP_REGEX = /^\s*\.\.(?:\s|$)/
+const DIRECTIVE_REGEX = /^\s*\.\.\s+(?:\|[^|]+\|\s+)?([\w.+:-]+?)::(?:\s|$)/
+const FOOTNOTE_REGEX = /^\s*\.\.\s+\[[^\]]+\]/
+const ADORNMENT_REGEX = /^([!-/:-@[-`{-~])\1{2,}\s*$/
+const GRID_TABLE_REGEX = /^\s*\+[-=+]+\+\s*$/
+const SIMPLE_TABLE_REGEX = /^\s*=+(?:\s+=+)+\s*$/
+const DOCTEST_REGEX = /^\s*>>>(?:\s|$)/
+const LITERAL_MARKER_REGEX = /::\s*$/
+const ROLE_NAME_REGEX = /:([\w.+-]+(?::[\w.+-]+)*):`/g
+
+// 内容为代码或配置、不需要翻译的指令，其余指令（note、warning 等）的内容作为正文翻译
+const LITERAL_DIRECTIVES = new Set([
+  'code',
+  'code-block',
+  'sourcecode',
+  'literalinclude',
+  'include',
+  'raw',
+  'math',
+  'highlight',
+  'parsed-literal',
+  'toctree',
+  'testcode',
+  'testoutput',
+  'testsetup',
+  'testcleanup',
+  'doctest',
+  'ipython',
+  'jupyter-execute',
+  'graphviz',
+  'digraph',
+  'csv-table',
+  'productionlist',
+  'currentmodule',
+  'module',
+  'index',
+  'only'
+])
+
+// 受保护的行内内容，按顺序匹配：已有的占位符、行内字面量、角色、超链接引用、解释文本、
+// 脚注引用、替换引用、简单引用、URL、字段列表的字段名和脚注标记
+const PROTECTED_PATTERNS: RegExp[] = [
+  /⟦P\d+⟧/,
+  /``\S(?:[\s\S]*?\S)?``/,
+  /:[\w.+-]+(?::[\w.+-]+)*:`[^`]+`/,
+  /`[^`]+`:[\w.+-]+(?::[\w.+-]+)*:/,
+  /`[^`]+`__?/,
+  /`[^`]+`/,
+  /\[(?:\d+|#[\w-]*|\*|[A-Za-z][\w.-]*)\]_/,
+  /\|[^|\s](?:[^|\n]*[^|\s])?\|(?:__?)?/,
+  /\b[A-Za-z][\w-]*[A-Za-z0-9]__?(?![\w])/,
+  /https?:\/\/[^\s<>()[\]"'`]*[^\s<>()[\]"'`.,;:!?]/,
+  /(?<=^|\n)[ \t]*\.\.[ \t]+\[[^\]\n]+\]/,
+  /(?<=^|\n)[ \t]*:(?![ \t])[^:`\n]*[^ \t:`\n]:(?=[ \t\n]|$)/
+]
+
+const PROTECTED_REGEX = new RegExp(
+  PROTECTED_PATTERNS.map((pattern) => pattern.source).join('|'),
+  'g'
+)
+
+const RST_INSTRUCTIONS =
+  '\n\n待翻译的内容是 reStructuredText 文档，请保持每一行的缩进、空行以及列表和枚举标记不变，只翻译正文文字。'
+
+// 全角字符在 docutils 中按两个字符宽度计算
+const WIDE_CHAR_REGEX =
+  /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA000-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/
+
+const isBlankLine = (line: string): boolean => line.trim() === ''
+const getIndent = (line: string): number => line.match(/^\s*/)![0].length
+
+export class RstProcessor {
+  private llmService: LLMService
+
+  constructor(llmService: LLMService) {
+    this.llmService = llmService
+  }
+
+  /**
+   * 检查文件是否为 reStructuredText 文件
+   */
+  static isRstFile(filePath: string): boolean {
+    return filePath.toLowerCase().endsWith('.rst')
+  }
+
+  // 查找缩进大于 indent 的内容块的结束行（不含末尾的空行）
+  private findIndentedEnd(lines: string[], from: number, indent: number): number {
+    let end = from
+    for (let i = from; i < lines.length; i++) {
+      if (isBlankLine(lines[i])) continue
+      if (getIndent(lines[i]) <= indent) break
+      end = i + 1
+    }
+    return end
+  }
+
+  // 简单表格以 === 分隔线开始，到后面紧跟空行的分隔线结束
+  private findSimpleTableEnd(lines: string[], start: number): number {
+    let borders = 1
+    for (let i = start + 1; i < lines.length; i++) {
+      if (!SIMPLE_TABLE_REGEX.test(lines[i])) continue
+      borders++
+      if (borders >= 2 && (i + 1 >= lines.length || isBlankLine(lines[i + 1]))) {
+        return i + 1
+      }
+    }
+    return lines.length
+  }
+
+  /**
+   * 按行识别需要整体保留的区域
+   */
+  private parseDocument(lines: string[]): RstDocument {
+    const regions: RstRegion[] = []
+    const literalMarkers: number[] = []
+    let literalIndent: number | null = null // 上一段以 :: 结尾时，字面量块需要比该缩进更深
+    let i = 0
+
+    while (i < lines.length) {
+      const line = lines[i]
+      if (isBlankLine(line)) {
+        i++
+        continue
+      }
+
+      const indent = getIndent(line)
+      if (literalIndent !== null) {
+        const parentIndent = literalIndent
+        literalIndent = null
+        if (indent > parentIndent) {
+          const end = this.findIndentedEnd(lines, i, parentIndent)
+          regions.push({ kind: 'literal', start: i, end, indent })
+          i = end
+          continue
+        }
+      }
+
+      if (EXPLICIT_MARKUP_REGEX.test(line)) {
+        const directive = line.match(DIRECTIVE_REGEX)
+        if (directive) {
+          // 指令行之后直到空行、缩进更深的行为参数和选项
+          let headerEnd = i + 1
+          while (
+            headerEnd < lines.length &&
+            !isBlankLine(lines[headerEnd]) &&
+            getIndent(lines[headerEnd]) > indent
+          ) {
+            headerEnd++
+          }
+          const name = directive[1]
+          regions.push({ kind: 'directive', start: i, end: headerEnd, indent, name })
+
+          const bodyEnd = this.findIndentedEnd(lines, headerEnd, indent)
+          const bodyStart =
+            lines.slice(headerEnd, bodyEnd).findIndex((item) => !isBlankLine(item)) + headerEnd
+          if (bodyEnd > headerEnd && (LITERAL_DIRECTIVES.has(name) || name.startsWith('auto'))) {
+            regions.push({
+              kind: 'directive-body',
+              start: bodyStart,
+              end: bodyEnd,
+              indent: getIndent(lines[bodyStart])
+            })
+            i = bodyEnd
+          } else {
+            i = headerEnd
+          }
+          continue
+        }
+
+        // 脚注和引文的正文需要翻译，标记在行内保护
+        if (!FOOTNOTE_REGEX.test(line)) {
+          const end = this.findIndentedEnd(lines, i + 1, indent)
+          regions.push({ kind: 'comment', start: i, end: Math.max(end, i + 1), indent })
+          i = Math.max(end, i + 1)
+          continue
+        }
+      }
+
+      if (GRID_TABLE_REGEX.test(line)) {
+        let end = i + 1
+        while (end < lines.length && /^\s*[+|]/.test(lines[end])) end++
+        regions.push({ kind: 'table', start: i, end, indent })
+        i = end
+        continue
+      }
+
+      if (SIMPLE_TABLE_REGEX.test(line)) {
+        const end = this.findSimpleTableEnd(lines, i)
+        regions.push({ kind: 'table', start: i, end, indent })
+        i = end
+        continue
+      }
+
+      if (DOCTEST_REGEX.test(line)) {
+        let end = i + 1
+        while (end < lines.length && !isBlankLine(lines[end])) end++
+        regions.push({ kind: 'doctest', start: i, end, indent })
+        i = end
+        continue
+      }
+
+      if (ADORNMENT_REGEX.test(line)) {
+        regions.push({ kind: 'adornment', start: i, end: i + 1, indent })
+        i++
+        continue
+      }
+
+      // 正文行，段落最后一行以 :: 结尾时后面的缩进块为字面量块
+      if (LITERAL_MARKER_REGEX.test(line) && (i + 1 >= lines.length || isBlankLine(lines[i + 1]))) {
+        literalMarkers.push(i)
+        literalIndent = indent
+      }
+      i++
+    }
+
+    return { regions, literalMarkers }
+  }
+
+  /**
+   * 将指令、字面量块、注释、表格等区域以及角色、行内字面量、引用等行内内容替换为占位符
+   * 只留下需要翻译的正文
+   */
+  maskContent(content: string): MaskedContent {
+    const lines = content.split('\n')
+    const { regions, literalMarkers } = this.parseDocument(lines)
+    const placeholders: string[] = []
+    const createMarker = (text: string): string => {
+      placeholders.push(text)
+      return `\uE000${placeholders.length - 1}\uE000`
+    }
+
+    // 区域整体替换为一个占位符，首行的缩进保留在占位符之外
+    const output: Array<string | null> = [...lines]
+    for (const region of regions) {
+      const leading = lines[region.start].match(/^\s*/)![0]
+      const text = lines.slice(region.start, region.end).join('\n').slice(leading.length)
+      output[region.start] = leading + createMarker(text)
+      for (let i = region.start + 1; i < region.end; i++) output[i] = null
+    }
+
+    // 引出字面量块的 :: 保持不变，避免被译成全角冒号
+    for (const index of literalMarkers) {
+      output[index] = output[index]!.replace(
+        /::(\s*)$/,
+        (_, trailing) => createMarker('::') + trailing
+      )
+    }
+
+    const masked = output
+      .filter((line): line is string => line !== null)
+      .join('\n')
+      .replace(PROTECTED_REGEX, (match) => {
+        placeholders.push(match)
+        return `⟦P${placeholders.length - 1}⟧`
+      })
+      .replace(/\uE000(\d+)\uE000/g, (_, index) => `⟦P${index}⟧`)
+    return { text: masked, placeholders }
+  }
+
+  // 计算标题的显示宽度，全角字符按两个字符计算
+  private getDisplayWidth(text: string): number {
+    return Array.from(text).reduce((width, char) => width + (WIDE_CHAR_REGEX.test(char) ? 2 : 1), 0)
+  }
+
+  /**
+   * 译文标题变长时加长对应的上划线和下划线，避免 docutils 报告标题下划线过短
+   */
+  fixSectionAdornments(content: string): string {
+    const lines = content.split('\n')
+    const { regions } = this.parseDocument(lines)
+    const adornments = new Set(
+      regions.filter((region) => region.kind === 'adornment').map((region) => region.start)
+    )
+
+    for (const index of adornments) {
+      if (index === 0 || isBlankLine(lines[index - 1]) || adornments.has(index - 1)) continue
+
+      const width = this.getDisplayWidth(lines[index - 1].trimEnd())
+      const underline = lines[index].trimEnd()
+      if (underline.length >= width) continue
+
+      lines[index] = underline[0].repeat(width)
+      // 带上划线的标题，上划线与下划线等长
+      if (adornments.has(index - 2) && lines[index - 2].trimEnd()[0] === underline[0]) {
+        lines[index - 2] = lines[index]
+      }
+    }
+
+    return lines.join('\n')
+  }
+
+  // 提取指令和字面量块的结构描述，用于对比原文和译文
+  private describeStructure(content: string): string[] {
+    const lines = content.split('\n')
+    return this.parseDocument(lines)
+      .regions.filter((region) => region.kind === 'directive' || region.kind === 'literal')
+      .map((region) => {
+        if (region.kind === 'literal') {
+          return `字面量块（缩进 ${region.indent}）`
+        }
+        const next = lines.slice(region.end).find((line) => !isBlankLine(line))
+        const hasBody = next !== undefined && getIndent(next) > region.indent
+        return `指令 ${region.name}（缩进 ${region.indent}${hasBody ? '' : '，无内容'}）`
+      })
+  }
+
+  private countRoles(content: string): Map<string, number> {
+    const counts = new Map<string, number>()
+    for (const match of content.matchAll(ROLE_NAME_REGEX)) {
+      counts.set(match[1], (counts.get(match[1]) || 0) + 1)
+    }
+    return counts
+  }
+
+  /**
+   * 检查译文的指令、字面量块和角色是否与原文一致
+   */
+  validateStructure(original: string, translated: string): { isValid: boolean; errors: string[] } {
+    const errors: string[] = []
+    const source = this.describeStructure(original)
+    const target = this.describeStructure(translated)
+
+    if (source.length !== target.length) {
+      errors.push(`原文有 ${source.length} 个指令和字面量块，译文有 ${target.length} 个`)
+    } else {
+      source.forEach((item, index) => {
+        if (item !== target[index]) {
+          errors.push(
+            `第 ${index + 1} 个指令或字面量块不一致：原文为${item}，译文为${target[index]}`
+          )
+        }
+      })
+    }
+
+    const sourceRoles = this.countRoles(original)
+    const targetRoles = this.countRoles(translated)
+    for (const [role, count] of sourceRoles) {
+      if ((targetRoles.get(role) || 0) < count) {
+        errors.push(
+          `角色 :${role}: 缺失（原文 ${count} 处，译文 ${targetRoles.get(role) || 0} 处）`
+        )
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    }
+  }
+
+  /**
+   * 翻译 reStructuredText 文档：只把正文交给模型，翻译后检查指令结构是否与原文一致
+   * 结构不一致时抛出错误，不保存译文
+   */
+  async translateRst(
+    content: string,
+    projectPath?: string,
+    options: TranslationStreamOptions = {}
+  ): Promise<string> {
+    const masked = this.maskContent(content)
+    if (!hasTranslatableText(masked.text)) {
+      return content
+    }
+
+    const response = await this.llmService.translateDocument(masked.text, projectPath, {
+      signal: options.signal,
+      instructions: RST_INSTRUCTIONS,
+      onDelta: options.onDelta
+        ? createRestoringDeltaHandler(masked.placeholders, options.onDelta)
+        : undefined
+    })
+
+    // 模型输出会去掉首尾空白，按原文补回末尾的换行
+    const restored = restoreProtectedContent(response.translatedContent, masked.placeholders)
+    const translated =
+      this.fixSectionAdornments(restored.trimEnd()) + content.slice(content.trimEnd().length)
+
+    const validation = this.validateStructure(content, translated)
+    if (!validation.isValid) {
+      throw new LLMError(
+        'invalid_response',
+        `译文的 reStructuredText 结构与原文不一致：${validation.errors[0]}`
+      )
+    }
+
+    options.onDelta?.(translated, true)
+    return translated
+  }
+}
@@ -0,0 +1,108 @@
+import { LLMService } from './llmService'
+import { LLMError, getErrorCategory } from './llmErrors'
+import { MaskedContent, maskProtectedContent, restoreProtectedContent } from './placeholderMasker'
+
+// 合并翻译多段文本时的片段标记
+const SEGMENT_MARKER_REGEX = /^⟦#(\d+)⟧[ \t]*$/m
+
+const SEGMENT_INSTRUCTIONS =
+  '\n\n待翻译的文本由多个片段组成，每个片段以单独一行的 ⟦#序号⟧ 标记开头。请逐个翻译片段，原样保留所有标记行及其顺序，不要合并、拆分或省略片段。'
+
+// 分批翻译时的回调，translateItem 为逐个翻译的方式，默认为只含一项的 translateBatch
+export interface BatchTranslationHandlers<T, R> {
+  translateBatch: (items: T[]) => Promise<R[]>
+  translateItem?: (item: T) => Promise<R>
+  onTranslated: (item: T, result: R) => void
+  onFailed: (item: T, error: unknown) => void
+}
+
+export interface SegmentTranslationOptions {
+  instructions?: string // 附加在片段格式说明之后的要求
+  mask?: (text: string) => MaskedContent // 替换受保护内容的方式，默认按 Markdown 处理
+  signal?: AbortSignal
+}
+
+/**
+ * 将多段文本合并为一次请求翻译，每段以单独一行的 ⟦#序号⟧ 标记开头
+ * 每段单独替换受保护内容，占位符按段依次编号，避免未闭合的代码块吞掉后面的片段
+ * 返回与输入一一对应的译文，标记缺失或顺序错乱时抛出错误
+ */
+export async function translateSegments(
+  llmService: LLMService,
+  texts: string[],
+  projectPath?: string,
+  options: SegmentTranslationOptions = {}
+): Promise<string[]> {
+  const mask = options.mask || maskProtectedContent
+  const placeholders: string[] = []
+  const joined = texts
+    .map((text, index) => {
+      const masked = mask(text)
+      const offset = placeholders.length
+      placeholders.push(...masked.placeholders)
+      const renumbered = masked.text.replace(/⟦P(\d+)⟧/g, (_, n) => `⟦P${Number(n) + offset}⟧`)
+      return `⟦#${index + 1}⟧\n${renumbered}`
+    })
+    .join('\n\n')
+
+  const response = await llmService.translateText(
+    {
+      content: joined,
+      instructions: SEGMENT_INSTRUCTIONS + (options.instructions || '')
+    },
+    projectPath,
+    { signal: options.signal }
+  )
+
+  const parts = restoreProtectedContent(response.translatedContent, placeholders).split(
+    SEGMENT_MARKER_REGEX
+  )
+  // split 的结果为 [标记之前的内容, 序号, 译文, 序号, 译文, ...]
+  const translations: string[] = []
+  for (let i = 1; i < parts.length; i += 2) {
+    if (Number(parts[i]) !== translations.length + 1) break
+    translations.push(parts[i + 1].trim())
+  }
+
+  if (translations.length !== texts.length) {
+    throw new LLMError(
+      'invalid_response',
+      `合并翻译的 ${texts.length} 个片段中有片段标记缺失或顺序错乱`
+    )
+  }
+  return translations
+}
+
+/**
+ * 合并翻译一批内容，失败时（取消除外）改为逐个翻译，避免一项内容影响整批
+ * 每一项的结果通过 onTranslated / onFailed 回调返回，本函数不会抛出错误
+ */
+export async function translateBatchWithFallback<T, R>(
+  items: T[],
+  handlers: BatchTranslationHandlers<T, R>
+): Promise<void> {
+  if (items.length > 1) {
+    try {
+      const results = await handlers.translateBatch(items)
+      items.forEach((item, index) => handlers.onTranslated(item, results[index]))
+      return
+    } catch (error) {
+      if (getErrorCategory(error) === 'cancelled') {
+        items.forEach((item) => handlers.onFailed(item, error))
+        return
+      }
+      console.warn('合并翻译失败，改为逐个翻译:', (error as Error).message)
+    }
+  }
+
+  const translateItem =
+    handlers.translateItem ||
+    (async (item: T): Promise<R> => (await handlers.translateBatch([item]))[0])
+  for (const item of items) {
+    try {
+      handlers.onTranslated(item, await translateItem(item))
+    } catch (error) {
+      handlers.onFailed(item, error)
+    }
+  }
+}
@@ -0,0 +1,241 @@
+// 差异操作类型
+export type DiffOpType = 'equal' | 'insert' | 'delete'
+
+// 单个差异操作，oldIndex / newIndex 分别指向旧序列和新序列中的位置
+export interface DiffOp {
+  type: DiffOpType
+  oldIndex: number
+  newIndex: number
+}
+
+// 行级差异中的单行
+export interface DiffLine {
+  type: 'unchanged' | 'added' | 'removed' | 'changed'
+  content: string
+  oldLineNumber?: number
+  newLineNumber?: number
+}
+
+// 连续的差异块
+export interface DiffHunk {
+  type: 'added' | 'removed' | 'changed'
+  oldStart: number // 从 1 开始的行号
+  oldCount: number
+  newStart: number // 从 1 开始的行号
+  newCount: number
+}
+
+export interface LineDiffResult {
+  lines: DiffLine[]
+  hunks: DiffHunk[]
+}
+
+// Myers 算法允许的最大编辑距离，超过后退化为整段替换，避免占用过多内存
+const MAX_EDIT_DISTANCE = 2000
+
+/**
+ * 使用 Myers 算法计算两个字符串序列之间的最短编辑脚本
+ */
+export function diffSequences(a: string[], b: string[]): DiffOp[] {
+  // 先去掉公共前缀和后缀，缩小需要比较的范围
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const ops: DiffOp[] = []
+  for (let i = 0; i < prefix; i++) {
+    ops.push({ type: 'equal', oldIndex: i, newIndex: i })
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix)
+  const middleB = b.slice(prefix, b.length - suffix)
+  for (const op of myersDiff(middleA, middleB)) {
+    ops.push({ type: op.type, oldIndex: op.oldIndex + prefix, newIndex: op.newIndex + prefix })
+  }
+
+  for (let i = suffix; i > 0; i--) {
+    ops.push({ type: 'equal', oldIndex: a.length - i, newIndex: b.length - i })
+  }
+
+  return ops
+}
+
+// Myers O(ND) 差异算法，只保存每一步需要的对角线范围
+function myersDiff(a: string[], b: string[]): DiffOp[] {
+  const n = a.length
+  const m = b.length
+
+  if (n === 0 && m === 0) return []
+  if (n === 0) return b.map((_, j) => ({ type: 'insert' as const, oldIndex: 0, newIndex: j }))
+  if (m === 0) return a.map((_, i) => ({ type: 'delete' as const, oldIndex: i, newIndex: 0 }))
+
+  const max = n + m
+  const offset = max + 1
+  const v = new Int32Array(2 * max + 3)
+  const trace: Int32Array[] = []
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return replaceAll(a, b)
+    }
+
+    // 保存进入第 d 步之前 k ∈ [-(d+1), d+1] 范围内的状态，用于回溯
+    trace.push(v.slice(offset - d - 1, offset + d + 2))
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1]
+      } else {
+        x = v[offset + k - 1] + 1
+      }
+      let y = x - k
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+
+      v[offset + k] = x
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m)
+      }
+    }
+  }
+
+  return replaceAll(a, b)
+}
+
+// 根据保存的状态回溯出编辑脚本
+function backtrack(trace: Int32Array[], n: number, m: number): DiffOp[] {
+  const ops: DiffOp[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d]
+    const getX = (k: number): number => snapshot[k + d + 1]
+    const k = x - y
+
+    const prevK = k === -d || (k !== d && getX(k - 1) < getX(k + 1)) ? k + 1 : k - 1
+    const prevX = getX(prevK)
+    const prevY = prevX - prevK
+
+    while (x > prevX && y > prevY) {
+      x--
+      y--
+      ops.push({ type: 'equal', oldIndex: x, newIndex: y })
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'insert', oldIndex: x, newIndex: y - 1 })
+      } else {
+        ops.push({ type: 'delete', oldIndex: x - 1, newIndex: y })
+      }
+    }
+
+    x = prevX
+    y = prevY
+  }
+
+  return ops.reverse()
+}
+
+// 差异过大时，直接视为整段删除再整段插入
+function replaceAll(a: string[], b: string[]): DiffOp[] {
+  return [
+    ...a.map((_, i) => ({ type: 'delete' as const, oldIndex: i, newIndex: 0 })),
+    ...b.map((_, j) => ({ type: 'insert' as const, oldIndex: a.length, newIndex: j }))
+  ]
+}
+
+// 将文本拆分为行，兼容 \r\n 换行
+export function splitLines(text: string): string[] {
+  if (!text) return []
+  return text.replace(/\r\n/g, '\n').split('\n')
+}
+
+/**
+ * 计算两段文本的行级差异，并将连续的删除/新增合并为差异块
+ */
+export function diffLines(oldText: string, newText: string): LineDiffResult {
+  const oldLines = splitLines(oldText)
+  const newLines = splitLines(newText)
+  const ops = diffSequences(oldLines, newLines)
+
+  const lines: DiffLine[] = []
+  const hunks: DiffHunk[] = []
+
+  let i = 0
+  while (i < ops.length) {
+    const op = ops[i]
+
+    if (op.type === 'equal') {
+      lines.push({
+        type: 'unchanged',
+        content: newLines[op.newIndex],
+        oldLineNumber: op.oldIndex + 1,
+        newLineNumber: op.newIndex + 1
+      })
+      i++
+      continue
+    }
+
+    // 收集连续的非 equal 操作
+    const deleted: DiffOp[] = []
+    const inserted: DiffOp[] = []
+    while (i < ops.length && ops[i].type !== 'equal') {
+      if (ops[i].type === 'delete') {
+        deleted.push(ops[i])
+      } else {
+        inserted.push(ops[i])
+      }
+      i++
+    }
+
+    const hunkType: DiffHunk['type'] =
+      deleted.length > 0 && inserted.length > 0
+        ? 'changed'
+        : deleted.length > 0
+          ? 'removed'
+          : 'added'
+
+    hunks.push({
+      type: hunkType,
+      oldStart: deleted.length > 0 ? deleted[0].oldIndex + 1 : op.oldIndex + 1,
+      oldCount: deleted.length,
+      newStart: inserted.length > 0 ? inserted[0].newIndex + 1 : op.newIndex + 1,
+      newCount: inserted.length
+    })
+
+    for (const del of deleted) {
+      lines.push({
+        type: 'removed',
+        content: oldLines[del.oldIndex],
+        oldLineNumber: del.oldIndex + 1
+      })
+    }
+
+    for (const ins of inserted) {
+      lines.push({
+        type: hunkType === 'changed' ? 'changed' : 'added',
+        content: newLines[ins.newIndex],
+        newLineNumber: ins.newIndex + 1
+      })
+    }
+  }
+
+  return { lines, hunks }
+}
@@ -0,0 +1,388 @@
+import { app, dialog } from 'electron'
+import { join } from 'path'
+import { promises as fs } from 'fs'
+
+const MEMORY_FILE = 'translation-memory.json'
+
+// 翻译记忆条目：source / target 保留原始文本，匹配时使用标准化后的原文
+export interface TranslationMemoryEntry {
+  source: string
+  target: string
+  sourceLanguage: string
+  targetLanguage: string
+  updatedAt: string
+}
+
+// 模糊匹配结果，score 为 0~1 的相似度
+export interface TranslationMemoryMatch {
+  entry: TranslationMemoryEntry
+  score: number
+}
+
+export interface TranslationMemoryStats {
+  total: number
+  languagePairs: Array<{ sourceLanguage: string; targetLanguage: string; count: number }>
+}
+
+// 默认的模糊匹配相似度阈值
+export const DEFAULT_FUZZY_THRESHOLD = 0.75
+
+// 合并连续空白，匹配时忽略缩进和换行差异
+export function normalizeSegment(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function getPairKey(sourceLanguage: string, targetLanguage: string): string {
+  return `${sourceLanguage.toLowerCase()}|${targetLanguage.toLowerCase()}`
+}
+
+function getEntryKey(source: string, sourceLanguage: string, targetLanguage: string): string {
+  return `${getPairKey(sourceLanguage, targetLanguage)}|${normalizeSegment(source)}`
+}
+
+// 统计字符二元组，用于计算相似度
+function getBigrams(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>()
+  const normalized = normalizeSegment(text).toLowerCase()
+  for (let i = 0; i < normalized.length - 1; i++) {
+    const bigram = normalized.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1)
+  }
+  return bigrams
+}
+
+// 模糊匹配使用的原文特征：标准化后的长度及字符二元组
+interface SegmentProfile {
+  length: number
+  bigrams: Map<string, number>
+  size: number // 二元组总数
+}
+
+function getProfile(normalized: string): SegmentProfile {
+  return {
+    length: normalized.length,
+    bigrams: getBigrams(normalized),
+    size: Math.max(normalized.length - 1, 0)
+  }
+}
+
+// Dice 系数：两段文本共有的二元组占比
+function getSimilarity(
+  a: Map<string, number>,
+  aSize: number,
+  b: Map<string, number>,
+  bSize: number
+): number {
+  if (aSize === 0 || bSize === 0) return 0
+
+  let intersection = 0
+  for (const [bigram, count] of a) {
+    intersection += Math.min(count, b.get(bigram) || 0)
+  }
+  return (2 * intersection) / (aSize + bSize)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+// TMX 要求的日期格式：YYYYMMDDThhmmssZ
+function formatTmxDate(iso: string): string {
+  return iso.replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z')
+}
+
+function parseTmxDate(value: string | undefined): string {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/)
+  if (!match) return new Date().toISOString()
+  return new Date(
+    `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`
+  ).toISOString()
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*"([^"]*)"`, 'i'))
+  return match ? unescapeXml(match[1]) : undefined
+}
+
+/**
+ * 将翻译记忆导出为 TMX 1.4 文本
+ */
+export function toTMX(entries: TranslationMemoryEntry[]): string {
+  const sourceLanguage = entries[0]?.sourceLanguage || 'en'
+  const units = entries.map((entry) =>
+    [
+      `    <tu creationdate="${formatTmxDate(entry.updatedAt)}">`,
+      `      <tuv xml:lang="${escapeXml(entry.sourceLanguage)}"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${escapeXml(entry.targetLanguage)}"><seg>${escapeXml(entry.target)}</seg></tuv>`,
+      '    </tu>'
+    ].join('\n')
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="open-doc-translate" creationtoolversion="1.0" segtype="paragraph" o-tmf="json" adminlang="en" srclang="${escapeXml(sourceLanguage)}" datatype="plaintext"/>`,
+    '  <body>',
+    ...units,
+    '  </body>',
+    '</tmx>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * 解析 TMX 文本，以 header 的 srclang（或每个翻译单元的第一个语言）为原文，其余语言各生成一个条目
+ * seg 中的内联标记只保留文本内容
+ */
+export function parseTMX(xml: string): TranslationMemoryEntry[] {
+  const header = xml.match(/<header\b[^>]*>/i)?.[0]
+  const headerSource = header ? getAttribute(header, 'srclang') : undefined
+  const entries: TranslationMemoryEntry[] = []
+
+  for (const unitMatch of xml.matchAll(/<tu\b([^>]*)>([\s\S]*?)<\/tu>/gi)) {
+    const updatedAt = parseTmxDate(
+      getAttribute(unitMatch[1], 'changedate') || getAttribute(unitMatch[1], 'creationdate')
+    )
+    const variants: Array<{ language: string; text: string }> = []
+
+    for (const variantMatch of unitMatch[2].matchAll(/<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/gi)) {
+      const language =
+        getAttribute(variantMatch[1], 'xml:lang') || getAttribute(variantMatch[1], 'lang')
+      const seg = variantMatch[2].match(/<seg>([\s\S]*?)<\/seg>/i)
+      if (language && seg) {
+        variants.push({ language, text: unescapeXml(seg[1].replace(/<[^>]+>/g, '')) })
+      }
+    }
+
+    const source =
+      (headerSource && headerSource !== '*all*'
+        ? variants.find((variant) => variant.language.toLowerCase() === headerSource.toLowerCase())
+        : undefined) || variants[0]
+    if (!source || !source.text.trim()) continue
+
+    for (const variant of variants) {
+      if (variant === source || !variant.text.trim()) continue
+      entries.push({
+        source: source.text,
+        target: variant.text,
+        sourceLanguage: source.language,
+        targetLanguage: variant.language,
+        updatedAt
+      })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * 本地翻译记忆库：保存在用户数据目录，所有项目共享
+ * 以语言对和标准化后的原文段落为键，同一原文只保留最新的译文
+ */
+export class TranslationMemory {
+  private memoryPath: string
+  private entries = new Map<string, TranslationMemoryEntry>()
+  // 按语言对索引的原文特征，在加载和写入条目时计算，模糊匹配时直接使用
+  private profiles = new Map<string, Map<string, SegmentProfile>>()
+  private loading: Promise<void> | null = null
+  private saving: Promise<void> = Promise.resolve() // 串行写入，避免并发保存互相覆盖
+
+  constructor() {
+    this.memoryPath = join(app.getPath('userData'), MEMORY_FILE)
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const data = JSON.parse(await fs.readFile(this.memoryPath, 'utf-8'))
+          const entries: TranslationMemoryEntry[] = Array.isArray(data?.entries) ? data.entries : []
+          for (const entry of entries) {
+            this.setEntry(
+              getEntryKey(entry.source, entry.sourceLanguage, entry.targetLanguage),
+              entry
+            )
+          }
+          console.log(`已加载 ${this.entries.size} 条翻译记忆`)
+        } catch (error) {
+          console.log('翻译记忆文件不存在或损坏，使用空的翻译记忆:', (error as Error).message)
+        }
+      })()
+    }
+    return this.loading
+  }
+
+  // 写入条目；原文是键的一部分，同一键的原文特征不变，只在新增键时计算
+  private setEntry(key: string, entry: TranslationMemoryEntry): void {
+    if (!this.entries.has(key)) {
+      const pair = getPairKey(entry.sourceLanguage, entry.targetLanguage)
+      let pairProfiles = this.profiles.get(pair)
+      if (!pairProfiles) {
+        pairProfiles = new Map()
+        this.profiles.set(pair, pairProfiles)
+      }
+      pairProfiles.set(key, getProfile(normalizeSegment(entry.source)))
+    }
+    this.entries.set(key, entry)
+  }
+
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .then(() =>
+        fs.writeFile(
+          this.memoryPath,
+          JSON.stringify({ entries: [...this.entries.values()] }),
+          'utf-8'
+        )
+      )
+      .catch((error) => console.error('保存翻译记忆失败:', error))
+    return this.saving
+  }
+
+  // 添加或更新翻译记忆，返回实际写入的条目数
+  async addEntries(
+    entries: Array<Omit<TranslationMemoryEntry, 'updatedAt'> & { updatedAt?: string }>
+  ): Promise<number> {
+    await this.load()
+
+    const now = new Date().toISOString()
+    let count = 0
+    for (const entry of entries) {
+      if (!entry.source.trim() || !entry.target.trim()) continue
+
+      const key = getEntryKey(entry.source, entry.sourceLanguage, entry.targetLanguage)
+      if (this.entries.get(key)?.target === entry.target) continue
+
+      this.setEntry(key, { ...entry, updatedAt: entry.updatedAt || now })
+      count++
+    }
+
+    if (count > 0) {
+      await this.save()
+    }
+    return count
+  }
+
+  // 精确匹配：标准化后原文完全相同
+  async lookup(
+    source: string,
+    sourceLanguage: string,
+    targetLanguage: string
+  ): Promise<TranslationMemoryEntry | null> {
+    await this.load()
+    return this.entries.get(getEntryKey(source, sourceLanguage, targetLanguage)) || null
+  }
+
+  // 模糊匹配：返回相似度不低于阈值的条目，按相似度从高到低排序
+  async findSimilar(
+    source: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    threshold: number = DEFAULT_FUZZY_THRESHOLD,
+    limit: number = 3
+  ): Promise<TranslationMemoryMatch[]> {
+    await this.load()
+
+    const profile = getProfile(normalizeSegment(source))
+    const matches: TranslationMemoryMatch[] = []
+
+    const pairProfiles = this.profiles.get(getPairKey(sourceLanguage, targetLanguage))
+    for (const [key, candidate] of pairProfiles || []) {
+      // 长度相差过大时相似度不可能达到阈值
+      const shorter = Math.min(candidate.length, profile.length)
+      const longer = Math.max(candidate.length, profile.length)
+      if (longer === 0 || (2 * shorter) / (shorter + longer) < threshold) continue
+
+      const score = getSimilarity(profile.bigrams, profile.size, candidate.bigrams, candidate.size)
+      const entry = this.entries.get(key)
+      if (entry && score >= threshold) {
+        matches.push({ entry, score })
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit)
+  }
+
+  async getStats(): Promise<TranslationMemoryStats> {
+    await this.load()
+
+    const pairs = new Map<
+      string,
+      { sourceLanguage: string; targetLanguage: string; count: number }
+    >()
+    for (const entry of this.entries.values()) {
+      const key = `${entry.sourceLanguage}|${entry.targetLanguage}`
+      const pair = pairs.get(key) || {
+        sourceLanguage: entry.sourceLanguage,
+        targetLanguage: entry.targetLanguage,
+        count: 0
+      }
+      pair.count++
+      pairs.set(key, pair)
+    }
+
+    return { total: this.entries.size, languagePairs: [...pairs.values()] }
+  }
+
+  async clear(): Promise<void> {
+    await this.load()
+    this.entries.clear()
+    this.profiles.clear()
+    await this.save()
+  }
+
+  // 选择文件导入 TMX，返回导入的条目数，用户取消时返回 null
+  async importTMX(): Promise<number | null> {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      title: '导入翻译记忆',
+      filters: [{ name: 'TMX', extensions: ['tmx', 'xml'] }]
+    })
+
+    if (result.canceled || !result.filePaths[0]) {
+      return null
+    }
+
+    const xml = await fs.readFile(result.filePaths[0], 'utf-8')
+    const entries = parseTMX(xml)
+    if (entries.length === 0) {
+      throw new Error('文件中没有可导入的翻译单元')
+    }
+
+    return this.addEntries(entries)
+  }
+
+  // 导出为 TMX 文件，返回导出的条目数，用户取消时返回 null
+  async exportTMX(): Promise<number | null> {
+    await this.load()
+
+    const result = await dialog.showSaveDialog({
+      title: '导出翻译记忆',
+      defaultPath: 'translation-memory.tmx',
+      filters: [{ name: 'TMX', extensions: ['tmx'] }]
+    })
+
+    if (result.canceled || !result.filePath) {
+      return null
+    }
+
+    const entries = [...this.entries.values()]
+    await fs.writeFile(result.filePath, toTMX(entries), 'utf-8')
+    return entries.length
+  }
+}
@@ -42,11 +42,47 @@ declare global {
         getFileStatus: (projectPath: string, filePath: string, upstreamBranch: string, workingBranch: string) => Promise<FileStatus>
         syncFileStatuses: (projectPath: string, watchDirectories: string[], fileTypes: string[], upstreamBranch: string, workingBranch: string) => Promise<void>
         getFileContent: (projectPath: string, filePath: string, upstreamBranch: string, workingBranch: string) => Promise<FileContent>
-        saveFileContent: (projectPath: string, filePath: string, content: string) => Promise<void>
-        translateFile: (projectPath: string, filePath: string, upstreamBranch: string, workingBranch: string) => Promise<void>
+        getSourceDiff: (
+          projectPath: string,
+          filePath: string,
+          upstreamBranch: string,
+          workingBranch: string
+        ) => Promise<SourceDiff | null>
+        saveFileContent: (projectPath: string, filePath: string, content: string) => Promise<string>
+        translateFile: (
+          projectPath: string,
+          filePath: string,
+          upstreamBranch: string,
+          workingBranch: string,
+          options?: TranslateFileOptions
+        ) => Promise<TranslateFileResult>
+        cancelTranslation: (projectPath: string, filePath: string) => Promise<boolean>
+        translateSegment: (
+          projectPath: string,
+          content: string,
+          context?: { before?: string; after?: string }
+        ) => Promise<string>
+        checkGlossary: (
+          projectPath: string,
+          original: string,
+          translated: string
+        ) => Promise<GlossaryViolation[]>
+        runQAChecks: (
+          projectPath: string,
+          filePath: string,
+          original: string,
+          translated: string
+        ) => Promise<QAIssue[]>
+        onTranslationDelta: (callback: (event: TranslationDeltaEvent) => void) => () => void
         clearProjectCache: (projectPath: string) => Promise<void>
         clearBranchCache: (projectPath: string, workingBranch: string, upstreamBranch: string) => Promise<void>
       }
+      memory: {
+        getStats: () => Promise<TranslationMemoryStats>
+        importTMX: () => Promise<number | null>
+        exportTMX: () => Promise<number | null>
+        clear: () => Promise<boolean>
+      }
       git: {
         getStatus: (projectPath: string) => Promise<GitFileStatus[]>
         stageFile: (projectPath: string, filePath: string) => Promise<boolean>
@@ -71,6 +107,10 @@ interface FileItem {
   modified?: boolean
   children?: FileItem[]
   lastHash?: string
+  qa?: QASummary
+  failedCells?: number[]
+  failedKeys?: string[]
+  poStats?: PoStats
 }
 
 interface FileStatus {
@@ -78,6 +118,92 @@ interface FileStatus {
   status: 'translated' | 'outdated' | 'untranslated'
   modified?: boolean
   lastHash?: string
+  qa?: QASummary
+  failedCells?: number[]
+  failedKeys?: string[]
+  poStats?: PoStats
+}
+
+interface SourceDiffLine {
+  type: 'unchanged' | 'added' | 'removed' | 'changed'
+  content: string
+  oldLineNumber?: number
+  newLineNumber?: number
+}
+
+interface SourceDiffHunk {
+  type: 'added' | 'removed' | 'changed'
+  oldStart: number
+  oldCount: number
+  newStart: number
+  newCount: number
+}
+
+interface SourceDiff {
+  oldHash: string
+  newHash: string
+  lines: SourceDiffLine[]
+  hunks: SourceDiffHunk[]
+  changedCells?: number[] // Notebook 中新增或内容变化的单元格索引（从 0 开始）
+}
+
+interface TranslateFileOptions {
+  mode?: 'full' | 'incremental'
+  stream?: boolean
+  retryFailedCells?: boolean
+}
+
+interface TranslationDeltaEvent {
+  projectPath: string
+  filePath: string
+  delta: string
+  replace: boolean
+}
+
+interface GlossaryViolation {
+  term: string
+  expected: string
+  doNotTranslate: boolean
+  occurrences: number
+}
+
+interface QAIssue {
+  rule:
+    | 'heading'
+    | 'code-block'
+    | 'link'
+    | 'inline-code'
+    | 'front-matter'
+    | 'html-tag'
+    | 'placeholder'
+    | 'directive'
+  severity: 'error' | 'warning'
+  message: string
+}
+
+interface QASummary {
+  errors: number
+  warnings: number
+}
+
+interface PoStats {
+  total: number
+  translated: number
+  fuzzy: number
+  untranslated: number
+}
+
+interface TranslateFileResult {
+  mode: 'full' | 'incremental'
+  translatedBlocks?: number
+  reusedBlocks?: number
+  failedCells?: number[]
+  failedKeys?: string[]
+}
+
+interface TranslationMemoryStats {
+  total: number
+  languagePairs: Array<{ sourceLanguage: string; targetLanguage: string; count: number }>
 }
 
 interface FileContent {
@@ -85,4 +211,6 @@ interface FileContent {
   translated: string
   status: 'translated' | 'outdated' | 'untranslated'
   hasChanges?: boolean
+  failedCells?: number[]
+  failedKeys?: string[]
 }
@@ -1,4 +1,4 @@
-import { contextBridge, ipcRenderer } from 'electron'
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
 
 // Custom APIs for renderer
@@ -33,15 +33,76 @@ const api = {
       ipcRenderer.invoke('files:sync-file-statuses', projectPath, watchDirectories, fileTypes, upstreamBranch, workingBranch),
     getFileContent: (projectPath: string, filePath: string, upstreamBranch: string, workingBranch: string) => 
       ipcRenderer.invoke('files:get-file-content', projectPath, filePath, upstreamBranch, workingBranch),
+    getSourceDiff: (
+      projectPath: string,
+      filePath: string,
+      upstreamBranch: string,
+      workingBranch: string
+    ) =>
+      ipcRenderer.invoke(
+        'files:get-source-diff',
+        projectPath,
+        filePath,
+        upstreamBranch,
+        workingBranch
+      ),
     saveFileContent: (projectPath: string, filePath: string, content: string) => 
       ipcRenderer.invoke('files:save-file-content', projectPath, filePath, content),
-    translateFile: (projectPath: string, filePath: string, upstreamBranch: string, workingBranch: string) => 
-      ipcRenderer.invoke('files:translate-file', projectPath, filePath, upstreamBranch, workingBranch),
+    translateFile: (
+      projectPath: string,
+      filePath: string,
+      upstreamBranch: string,
+      workingBranch: string,
+      options?: { mode?: 'full' | 'incremental'; stream?: boolean; retryFailedCells?: boolean }
+    ) =>
+      ipcRenderer.invoke(
+        'files:translate-file',
+        projectPath,
+        filePath,
+        upstreamBranch,
+        workingBranch,
+        options
+      ),
+    cancelTranslation: (projectPath: string, filePath: string) =>
+      ipcRenderer.invoke('files:cancel-translation', projectPath, filePath),
+    translateSegment: (
+      projectPath: string,
+      content: string,
+      context?: { before?: string; after?: string }
+    ) => ipcRenderer.invoke('files:translate-segment', projectPath, content, context),
+    checkGlossary: (projectPath: string, original: string, translated: string) =>
+      ipcRenderer.invoke('files:check-glossary', projectPath, original, translated),
+    runQAChecks: (projectPath: string, filePath: string, original: string, translated: string) =>
+      ipcRenderer.invoke('files:run-qa', projectPath, filePath, original, translated),
+    // 监听流式翻译的增量输出，返回取消监听的函数
+    onTranslationDelta: (
+      callback: (event: {
+        projectPath: string
+        filePath: string
+        delta: string
+        replace: boolean
+      }) => void
+    ) => {
+      const listener = (
+        _: IpcRendererEvent,
+        data: { projectPath: string; filePath: string; delta: string; replace: boolean }
+      ): void => callback(data)
+      ipcRenderer.on('files:translation-delta', listener)
+      return () => {
+        ipcRenderer.removeListener('files:translation-delta', listener)
+      }
+    },
     clearProjectCache: (projectPath: string) => 
       ipcRenderer.invoke('files:clear-project-cache', projectPath),
     clearBranchCache: (projectPath: string, workingBranch: string, upstreamBranch: string) => 
       ipcRenderer.invoke('files:clear-branch-cache', projectPath, workingBranch, upstreamBranch)
   },
+  memory: {
+    getStats: () => ipcRenderer.invoke('memory:get-stats'),
+    importTMX: () => ipcRenderer.invoke('memory:import-tmx'),
+    exportTMX: () => ipcRenderer.invoke('memory:export-tmx'),
+    clear: () => ipcRenderer.invoke('memory:clear')
+  },
   git: {
     getStatus: (projectPath: string) => ipcRenderer.invoke('git:get-status', projectPath),
     stageFile: (projectPath: string, filePath: string) => ipcRenderer.invoke('git:stage-file', projectPath, filePath),
@@ -31,6 +31,7 @@ function App(): React.JSX.Element {
         <MainWorkArea 
           activeFile={activeFile}
           onFileChange={setActiveFile}
+          onFileStatusChange={handleFileTreeRefresh}
         />
       </div>
     </div>
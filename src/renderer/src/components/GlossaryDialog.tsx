@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react'
+import { GlossaryEntry, ProjectConfig } from '../types/config'
+import { configService } from '../services/configService'
+import { getLanguageName, getTargetLanguages } from '../utils/languages'
+import './GlossaryDialog.css'
+
+interface GlossaryDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  project: ProjectConfig | null
+}
+
+const createEmptyEntry = (): GlossaryEntry => ({
+  term: '',
+  translation: '',
+  doNotTranslate: false,
+  caseSensitive: false
+})
+
+const GlossaryDialog: React.FC<GlossaryDialogProps> = ({ isOpen, onClose, project }) => {
+  const [entries, setEntries] = useState<GlossaryEntry[]>([])
+  const [filter, setFilter] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setEntries(project?.glossary ? project.glossary.map((entry) => ({ ...entry })) : [])
+      setFilter('')
+    }
+  }, [isOpen, project])
+
+  const handleAddEntry = (): void => {
+    setEntries((prev) => [...prev, createEmptyEntry()])
+    setFilter('')
+  }
+
+  const handleChangeEntry = (index: number, updates: Partial<GlossaryEntry>): void => {
+    setEntries((prev) => prev.map((entry, i) => (i === index ? { ...entry, ...updates } : entry)))
+  }
+
+  const handleDeleteEntry = (index: number): void => {
+    setEntries((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSave = async (): Promise<void> => {
+    if (!project) return
+
+    const glossary = entries
+      .map((entry) => ({
+        ...entry,
+        term: entry.term.trim(),
+        translation: entry.translation.trim(),
+        language: entry.language || undefined
+      }))
+      .filter((entry) => entry.term !== '')
+
+    const invalid = glossary.find((entry) => !entry.doNotTranslate && entry.translation === '')
+    if (invalid) {
+      alert(`请填写术语「${invalid.term}」的译法，或勾选"不翻译"`)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await configService.updateProject(project.path, { glossary })
+      onClose()
+    } catch (error) {
+      console.error('保存术语表失败:', error)
+      alert('保存术语表失败: ' + (error as Error).message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isOpen) {
+    return null
+  }
+
+  const targetLanguages = getTargetLanguages(project)
+  const keyword = filter.trim().toLowerCase()
+  const visibleEntries = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(
+      ({ entry }) =>
+        !keyword ||
+        entry.term.toLowerCase().includes(keyword) ||
+        entry.translation.toLowerCase().includes(keyword)
+    )
+
+  return (
+    <div className="glossary-dialog-overlay">
+      <div className="glossary-dialog">
+        <div className="dialog-header">
+          <h2>📖 项目术语表</h2>
+          <button className="close-btn" onClick={onClose}>
+            ×
+          </button>
+        </div>
+
+        <div className="dialog-content">
+          <div className="glossary-toolbar">
+            <input
+              type="text"
+              className="input"
+              placeholder="搜索术语..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+            />
+            <button className="btn btn-primary" onClick={handleAddEntry}>
+              ➕ 添加术语
+            </button>
+          </div>
+          <p className="glossary-help">
+            翻译时只会把原文中出现的术语加入提示词；翻译完成后编辑区会提示未按术语表翻译的术语。
+          </p>
+
+          {entries.length === 0 ? (
+            <div className="empty-state">
+              <p>还没有术语，点击上方按钮添加第一个术语</p>
+            </div>
+          ) : (
+            <table className="glossary-table">
+              <thead>
+                <tr>
+                  <th>术语</th>
+                  <th>译法</th>
+                  <th>不翻译</th>
+                  <th>区分大小写</th>
+                  <th>适用语言</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map(({ entry, index }) => (
+                  <tr key={index}>
+                    <td>
+                      <input
+                        type="text"
+                        className="input"
+                        placeholder="pull request"
+                        value={entry.term}
+                        onChange={(e) => handleChangeEntry(index, { term: e.target.value })}
+                      />
+                    </td>
+                    <td>
+                      <input
+                        type="text"
+                        className="input"
+                        placeholder={entry.doNotTranslate ? '保持原文' : '拉取请求'}
+                        value={entry.translation}
+                        disabled={entry.doNotTranslate}
+                        onChange={(e) => handleChangeEntry(index, { translation: e.target.value })}
+                      />
+                    </td>
+                    <td className="glossary-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={!!entry.doNotTranslate}
+                        onChange={(e) =>
+                          handleChangeEntry(index, { doNotTranslate: e.target.checked })
+                        }
+                      />
+                    </td>
+                    <td className="glossary-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={!!entry.caseSensitive}
+                        onChange={(e) =>
+                          handleChangeEntry(index, { caseSensitive: e.target.checked })
+                        }
+                      />
+                    </td>
+                    <td>
+                      <select
+                        className="input"
+                        value={entry.language || ''}
+                        onChange={(e) =>
+                          handleChangeEntry(index, { language: e.target.value || undefined })
+                        }
+                      >
+                        <option value="">全部</option>
+                        {targetLanguages.map((language) => (
+                          <option key={language} value={language}>
+                            {getLanguageName(language)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <button
+                        className="btn btn-sm btn-danger"
+                        onClick={() => handleDeleteEntry(index)}
+                      >
+                        删除
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="glossary-actions">
+          <button className="btn btn-primary" onClick={handleSave} disabled={isSaving || !project}>
+            {isSaving ? '保存中...' : '保存'}
+          </button>
+          <button className="btn btn-secondary" onClick={onClose}>
+            取消
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default GlossaryDialog
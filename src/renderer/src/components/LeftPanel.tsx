@@ -2,10 +2,16 @@ import React, { useState, useEffect, forwardRef, useImperativeHandle } from 'rea
 import { configService } from '../services/configService'
 import { fileService, FileItem } from '../services/fileService'
 import { gitService } from '../services/gitService'
-import { AppConfig, ProjectConfig, PromptTemplate } from '../types/config'
+import {
+  translationMemoryService,
+  TranslationMemoryStats
+} from '../services/translationMemoryService'
+import { AppConfig, LLMProviderType, ProjectConfig, PromptTemplate } from '../types/config'
 import { GitFileStatus, GitCommit } from '../../../preload/index.d'
+import { LLM_PROVIDER_LABELS, requiresApiKey } from '../utils/llmProviders'
 import TranslationDialog from './TranslationDialog'
 import PromptTemplateDialog from './PromptTemplateDialog'
+import GlossaryDialog from './GlossaryDialog'
 import './LeftPanel.css'
 
 interface LeftPanelProps {
@@ -33,25 +39,47 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['docs', 'guides']))
   const [isTranslationDialogOpen, setIsTranslationDialogOpen] = useState(false)
   const [isPromptTemplateDialogOpen, setIsPromptTemplateDialogOpen] = useState(false)
+    const [isGlossaryDialogOpen, setIsGlossaryDialogOpen] = useState(false)
   
   // 配置相关状态
   const [config, setConfig] = useState<AppConfig | null>(null)
   const [activeProject, setActiveProject] = useState<ProjectConfig | null>(null)
   const [settingsForm, setSettingsForm] = useState({
+      provider: 'openai',
     apiKey: '',
     model: 'gpt-4',
     baseUrl: '',
+      apiVersion: '',
     temperature: 0.3,
     maxTokens: 4000,
     concurrency: 3,
+      chunkSize: 6000,
+      chunkRetries: 2,
+      requestsPerMinute: 0,
+      tokensPerMinute: 0,
+      maxRetries: 3,
     globalPrompt: '',
     customPrompt: '',
     originUrl: '',
     upstreamUrl: '',
     watchDirectories: '',
-    fileTypes: ''
+      fileTypes: '',
+      targetPathTemplate: '',
+      sourceLanguage: '',
+      targetLanguages: '',
+      frontMatterKeys: '',
+      translateCodeComments: false,
+      bilingualNotebooks: false,
+      bilingualMarkdown: false,
+      bilingualWrapper: '',
+      projectProvider: '',
+      projectApiKey: '',
+      projectModel: '',
+      projectBaseUrl: '',
+      projectApiVersion: ''
   })
   const [isSaving, setIsSaving] = useState(false)
+    const [memoryStats, setMemoryStats] = useState<TranslationMemoryStats | null>(null)
 
   // 文件树相关状态
   const [files, setFiles] = useState<FileItem[]>([])
@@ -286,16 +314,23 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
         const loadedConfig = configService.getConfig()
         if (loadedConfig) {
           setConfig(loadedConfig)
-          setSettingsForm(prev => ({
-            ...prev,
-            apiKey: loadedConfig.llmConfig.apiKey,
-            model: loadedConfig.llmConfig.model,
-            baseUrl: loadedConfig.llmConfig.baseUrl || '',
-            temperature: loadedConfig.llmConfig.temperature || 0.3,
-            maxTokens: loadedConfig.llmConfig.maxTokens || 4000,
-            concurrency: loadedConfig.llmConfig.concurrency || 3,
-            globalPrompt: loadedConfig.globalPrompt
-          }))
+            setSettingsForm((prev) => ({
+              ...prev,
+              provider: loadedConfig.llmConfig.provider || 'openai',
+              apiKey: loadedConfig.llmConfig.apiKey,
+              model: loadedConfig.llmConfig.model,
+              baseUrl: loadedConfig.llmConfig.baseUrl || '',
+              apiVersion: loadedConfig.llmConfig.apiVersion || '',
+              temperature: loadedConfig.llmConfig.temperature || 0.3,
+              maxTokens: loadedConfig.llmConfig.maxTokens || 4000,
+              concurrency: loadedConfig.llmConfig.concurrency || 3,
+              chunkSize: loadedConfig.llmConfig.chunkSize || 6000,
+              chunkRetries: loadedConfig.llmConfig.chunkRetries ?? 2,
+              requestsPerMinute: loadedConfig.llmConfig.requestsPerMinute || 0,
+              tokensPerMinute: loadedConfig.llmConfig.tokensPerMinute || 0,
+              maxRetries: loadedConfig.llmConfig.maxRetries ?? 3,
+              globalPrompt: loadedConfig.globalPrompt
+            }))
         }
       } catch (error) {
         console.error('加载配置失败:', error)
@@ -309,12 +344,19 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
       setConfig(newConfig)
       setSettingsForm(prev => ({
         ...prev,
+          provider: newConfig.llmConfig.provider || 'openai',
         apiKey: newConfig.llmConfig.apiKey,
         model: newConfig.llmConfig.model,
         baseUrl: newConfig.llmConfig.baseUrl || '',
+          apiVersion: newConfig.llmConfig.apiVersion || '',
         temperature: newConfig.llmConfig.temperature || 0.3,
         maxTokens: newConfig.llmConfig.maxTokens || 4000,
         concurrency: newConfig.llmConfig.concurrency || 3,
+          chunkSize: newConfig.llmConfig.chunkSize || 6000,
+          chunkRetries: newConfig.llmConfig.chunkRetries ?? 2,
+          requestsPerMinute: newConfig.llmConfig.requestsPerMinute || 0,
+          tokensPerMinute: newConfig.llmConfig.tokensPerMinute || 0,
+          maxRetries: newConfig.llmConfig.maxRetries ?? 3,
         globalPrompt: newConfig.globalPrompt
       }))
       
@@ -323,14 +365,27 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
         const active = newConfig.projects.find(p => p.path === newConfig.activeProjectPath)
         if (active) {
           setActiveProject(active)
-          setSettingsForm(prev => ({
-            ...prev,
-            customPrompt: active.customPrompt || '',
-            originUrl: active.originUrl,
-            upstreamUrl: active.upstreamUrl,
-            watchDirectories: active.watchDirectories.join(', '),
-            fileTypes: active.fileTypes.join(', ')
-          }))
+            setSettingsForm((prev) => ({
+              ...prev,
+              customPrompt: active.customPrompt || '',
+              originUrl: active.originUrl,
+              upstreamUrl: active.upstreamUrl,
+              watchDirectories: active.watchDirectories.join(', '),
+              fileTypes: active.fileTypes.join(', '),
+              targetPathTemplate: active.targetPathTemplate || '',
+              sourceLanguage: active.sourceLanguage || '',
+              targetLanguages: (active.targetLanguages || []).join(', '),
+              frontMatterKeys: (active.frontMatterKeys || []).join(', '),
+              translateCodeComments: !!active.translateCodeComments,
+              bilingualNotebooks: !!active.bilingualNotebooks,
+              bilingualMarkdown: !!active.bilingualMarkdown,
+              bilingualWrapper: active.bilingualWrapper || '',
+              projectProvider: active.llmConfig?.provider || '',
+              projectApiKey: active.llmConfig?.apiKey || '',
+              projectModel: active.llmConfig?.model || '',
+              projectBaseUrl: active.llmConfig?.baseUrl || '',
+              projectApiVersion: active.llmConfig?.apiVersion || ''
+            }))
           
           // 检查实际的上游远程URL并更新配置
           checkAndUpdateUpstreamUrl(active)
@@ -347,6 +402,16 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
     return unsubscribe
   }, [])
 
+    // 切换到设置页时刷新翻译记忆统计
+    useEffect(() => {
+      if (activeTab === 'settings') {
+        translationMemoryService
+          .getStats()
+          .then(setMemoryStats)
+          .catch((error) => console.error('加载翻译记忆统计失败:', error))
+      }
+    }, [activeTab])
+
   // 监听项目变化，自动加载文件树
   useEffect(() => {
     if (activeProject) {
@@ -361,30 +426,64 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
     setIsSaving(true)
     try {
       // 更新全局配置
-      const updatedConfig: AppConfig = {
-        ...config,
-        llmConfig: {
-          apiKey: settingsForm.apiKey,
-          model: settingsForm.model,
-          baseUrl: settingsForm.baseUrl,
-          temperature: settingsForm.temperature,
-          maxTokens: settingsForm.maxTokens,
-          concurrency: settingsForm.concurrency
-        },
-        globalPrompt: settingsForm.globalPrompt
-      }
+        const updatedConfig: AppConfig = {
+          ...config,
+          llmConfig: {
+            provider: settingsForm.provider as LLMProviderType,
+            apiKey: settingsForm.apiKey,
+            model: settingsForm.model,
+            baseUrl: settingsForm.baseUrl,
+            apiVersion: settingsForm.apiVersion.trim() || undefined,
+            temperature: settingsForm.temperature,
+            maxTokens: settingsForm.maxTokens,
+            concurrency: settingsForm.concurrency,
+            chunkSize: settingsForm.chunkSize,
+            chunkRetries: settingsForm.chunkRetries,
+            requestsPerMinute: settingsForm.requestsPerMinute || undefined,
+            tokensPerMinute: settingsForm.tokensPerMinute || undefined,
+            maxRetries: settingsForm.maxRetries
+          },
+          globalPrompt: settingsForm.globalPrompt
+        }
 
       await configService.saveConfig(updatedConfig)
 
       // 如果有活动项目，更新项目配置
       if (activeProject) {
-        const projectUpdates: Partial<ProjectConfig> = {
-          customPrompt: settingsForm.customPrompt || undefined,
-          originUrl: settingsForm.originUrl,
-          upstreamUrl: settingsForm.upstreamUrl,
-          watchDirectories: settingsForm.watchDirectories.split(',').map(s => s.trim()).filter(Boolean),
-          fileTypes: settingsForm.fileTypes.split(',').map(s => s.trim()).filter(Boolean)
-        }
+          const projectUpdates: Partial<ProjectConfig> = {
+            customPrompt: settingsForm.customPrompt || undefined,
+            originUrl: settingsForm.originUrl,
+            upstreamUrl: settingsForm.upstreamUrl,
+            watchDirectories: settingsForm.watchDirectories
+              .split(',')
+              .map((s) => s.trim())
+              .filter(Boolean),
+            fileTypes: settingsForm.fileTypes
+              .split(',')
+              .map((s) => s.trim())
+              .filter(Boolean),
+            targetPathTemplate: settingsForm.targetPathTemplate.trim() || undefined,
+            sourceLanguage: settingsForm.sourceLanguage.trim() || undefined,
+            targetLanguages: settingsForm.targetLanguages
+              .split(',')
+              .map((s) => s.trim())
+              .filter(Boolean),
+            frontMatterKeys: settingsForm.frontMatterKeys
+              .split(',')
+              .map((s) => s.trim())
+              .filter(Boolean),
+            translateCodeComments: settingsForm.translateCodeComments,
+            bilingualNotebooks: settingsForm.bilingualNotebooks,
+            bilingualMarkdown: settingsForm.bilingualMarkdown,
+            bilingualWrapper: settingsForm.bilingualWrapper.trim() || undefined,
+            llmConfig: {
+              provider: (settingsForm.projectProvider as LLMProviderType) || undefined,
+              apiKey: settingsForm.projectApiKey.trim() || undefined,
+              model: settingsForm.projectModel.trim() || undefined,
+              baseUrl: settingsForm.projectBaseUrl.trim() || undefined,
+              apiVersion: settingsForm.projectApiVersion.trim() || undefined
+            }
+          }
 
         await configService.updateProject(activeProject.path, projectUpdates)
       }
@@ -401,10 +500,24 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
   const handleFormChange = (field: keyof typeof settingsForm, value: string) => {
     setSettingsForm(prev => ({
       ...prev,
-      [field]: field === 'temperature' ? parseFloat(value) || 0.3 : 
-               field === 'maxTokens' ? parseInt(value) || 32000 : 
-               field === 'concurrency' ? parseInt(value) || 3 : 
-               value
+        [field]:
+          field === 'temperature'
+            ? parseFloat(value) || 0.3
+            : field === 'maxTokens'
+              ? parseInt(value) || 32000
+              : field === 'concurrency'
+                ? parseInt(value) || 3
+                : field === 'chunkSize'
+                  ? parseInt(value) || 6000
+                  : field === 'chunkRetries'
+                    ? Math.max(parseInt(value) || 0, 0)
+                    : field === 'requestsPerMinute'
+                      ? Math.max(parseInt(value) || 0, 0)
+                      : field === 'tokensPerMinute'
+                        ? Math.max(parseInt(value) || 0, 0)
+                        : field === 'maxRetries'
+                          ? Math.max(parseInt(value) || 0, 0)
+                          : value
     }))
   }
 
@@ -426,6 +539,52 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
     }
   }
 
+    const loadMemoryStats = async (): Promise<void> => {
+      try {
+        setMemoryStats(await translationMemoryService.getStats())
+      } catch (error) {
+        console.error('加载翻译记忆统计失败:', error)
+      }
+    }
+
+    const handleImportMemory = async (): Promise<void> => {
+      try {
+        const count = await translationMemoryService.importTMX()
+        if (count === null) return
+        alert(`已导入 ${count} 条翻译记忆`)
+        await loadMemoryStats()
+      } catch (error) {
+        console.error('导入翻译记忆失败:', error)
+        alert('导入翻译记忆失败: ' + (error as Error).message)
+      }
+    }
+
+    const handleExportMemory = async (): Promise<void> => {
+      try {
+        const count = await translationMemoryService.exportTMX()
+        if (count !== null) {
+          alert(`已导出 ${count} 条翻译记忆`)
+        }
+      } catch (error) {
+        console.error('导出翻译记忆失败:', error)
+        alert('导出翻译记忆失败: ' + (error as Error).message)
+      }
+    }
+
+    const handleClearMemory = async (): Promise<void> => {
+      if (!confirm('确定要清空翻译记忆吗？此操作不可恢复，建议先导出备份。')) {
+        return
+      }
+
+      try {
+        await translationMemoryService.clear()
+        await loadMemoryStats()
+      } catch (error) {
+        console.error('清空翻译记忆失败:', error)
+        alert('清空翻译记忆失败: ' + (error as Error).message)
+      }
+    }
+
   const handleOpenPromptTemplateDialog = () => {
     setIsPromptTemplateDialogOpen(true)
   }
@@ -578,6 +737,42 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
           {!file.children && <span className="file-status">{getStatusIcon(file.status)}</span>}
           <span className="file-name">{file.name}</span>
           {file.modified && <span className="modified-indicator">M</span>}
+            {!file.children && file.qa && (file.qa.errors > 0 || file.qa.warnings > 0) && (
+              <span
+                className={`qa-badge ${file.qa.errors > 0 ? 'error' : 'warning'}`}
+                title={`质量检查：${file.qa.errors} 个错误，${file.qa.warnings} 个警告`}
+              >
+                {file.qa.errors > 0 ? file.qa.errors : file.qa.warnings}
+              </span>
+            )}
+            {!file.children && file.failedCells && file.failedCells.length > 0 && (
+              <span
+                className="partial-badge"
+                title={`部分翻译失败：第 ${file.failedCells.join('、')} 个单元格仍为原文，可在编辑区重试`}
+              >
+                部分
+              </span>
+            )}
+            {!file.children && file.failedKeys && file.failedKeys.length > 0 && (
+              <span
+                className="partial-badge"
+                title={`部分翻译失败：${file.failedKeys.join('、')} 仍为原文，可在编辑区重试`}
+              >
+                部分
+              </span>
+            )}
+            {!file.children &&
+              file.poStats &&
+              file.poStats.untranslated + file.poStats.fuzzy > 0 && (
+                <span
+                  className="po-badge"
+                  title={`消息目录：共 ${file.poStats.total} 条，已翻译 ${file.poStats.translated} 条，未翻译 ${file.poStats.untranslated} 条，待审校（fuzzy）${file.poStats.fuzzy} 条`}
+                >
+                  {file.poStats.untranslated > 0 && `未译 ${file.poStats.untranslated}`}
+                  {file.poStats.untranslated > 0 && file.poStats.fuzzy > 0 && ' · '}
+                  {file.poStats.fuzzy > 0 && `模糊 ${file.poStats.fuzzy}`}
+                </span>
+              )}
         </div>
         {file.children && expandedFolders.has(file.path) && (
           <div className="file-children">
@@ -886,11 +1081,29 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
       <div className="settings-section">
         <h3>LLM 服务配置</h3>
         <div className="setting-item">
+            <label>服务类型:</label>
+            <select
+              className="input"
+              value={settingsForm.provider}
+              onChange={(e) => handleFormChange('provider', e.target.value)}
+            >
+              {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderType[]).map((provider) => (
+                <option key={provider} value={provider}>
+                  {LLM_PROVIDER_LABELS[provider]}
+                </option>
+              ))}
+            </select>
+            <small className="help-text">
+              Azure OpenAI 的 Base URL 填写资源地址，模型名称填写部署名称；本地服务默认地址为
+              http://localhost:11434/v1
+            </small>
+          </div>
+          <div className="setting-item">
           <label>API Key:</label>
           <input 
             type="password" 
             className="input" 
-            placeholder="输入API Key"
+            placeholder={requiresApiKey(settingsForm.provider as LLMProviderType) ? '输入API Key' : '本地服务可留空'}
             value={settingsForm.apiKey}
             onChange={(e) => handleFormChange('apiKey', e.target.value)}
           />
@@ -915,6 +1128,18 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
             onChange={(e) => handleFormChange('baseUrl', e.target.value)}
           />
         </div>
+          {settingsForm.provider === 'azure' && (
+            <div className="setting-item">
+              <label>API Version:</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="2024-06-01"
+                value={settingsForm.apiVersion}
+                onChange={(e) => handleFormChange('apiVersion', e.target.value)}
+              />
+            </div>
+          )}
         <div className="setting-item">
           <label>Temperature:</label>
           <input 
@@ -961,6 +1186,78 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
             并发翻译任务数量，控制同时翻译的文件数量
           </small>
         </div>
+          <div className="setting-item">
+            <label>Chunk Size:</label>
+            <input
+              type="number"
+              className="input"
+              placeholder="6000"
+              min="500"
+              step="500"
+              value={settingsForm.chunkSize}
+              onChange={(e) => handleFormChange('chunkSize', e.target.value)}
+            />
+            <small className="help-text">
+              分块字符数，超过该长度的文档会按标题和段落拆分后逐块翻译
+            </small>
+          </div>
+          <div className="setting-item">
+            <label>Chunk Retries:</label>
+            <input
+              type="number"
+              className="input"
+              placeholder="2"
+              min="0"
+              max="5"
+              value={settingsForm.chunkRetries}
+              onChange={(e) => handleFormChange('chunkRetries', e.target.value)}
+            />
+            <small className="help-text">单个分块翻译失败后的重试次数</small>
+          </div>
+          <div className="setting-item">
+            <label>Requests / Minute:</label>
+            <input
+              type="number"
+              className="input"
+              placeholder="0"
+              min="0"
+              value={settingsForm.requestsPerMinute}
+              onChange={(e) => handleFormChange('requestsPerMinute', e.target.value)}
+            />
+            <small className="help-text">
+              每分钟最多发送的请求数，所有并发翻译共享，0 表示不限制
+            </small>
+          </div>
+          <div className="setting-item">
+            <label>Tokens / Minute:</label>
+            <input
+              type="number"
+              className="input"
+              placeholder="0"
+              min="0"
+              step="1000"
+              value={settingsForm.tokensPerMinute}
+              onChange={(e) => handleFormChange('tokensPerMinute', e.target.value)}
+            />
+            <small className="help-text">
+              每分钟最多消耗的 token 数（按估算值控制），0 表示不限制
+            </small>
+          </div>
+          <div className="setting-item">
+            <label>Max Retries:</label>
+            <input
+              type="number"
+              className="input"
+              placeholder="3"
+              min="0"
+              max="10"
+              value={settingsForm.maxRetries}
+              onChange={(e) => handleFormChange('maxRetries', e.target.value)}
+            />
+            <small className="help-text">
+              遇到限流（429）或网络错误时的重试次数，优先按 Retry-After 等待，否则指数退避
+            </small>
+          </div>
       </div>
 
       <div className="settings-section">
@@ -982,6 +1279,9 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
             value={settingsForm.globalPrompt}
             onChange={(e) => handleFormChange('globalPrompt', e.target.value)}
           />
+            <small className="help-text">
+              {'提示词中的 {sourceLang} 和 {targetLang} 会替换为项目的原文语言和当前目标语言'}
+            </small>
         </div>
         {activeProject && (
           <div className="setting-item">
@@ -1000,6 +1300,38 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
         )}
       </div>
 
+        <div className="settings-section">
+          <h3>翻译记忆</h3>
+          <div className="setting-item">
+            <label>
+              已保存 {memoryStats?.total ?? 0} 条
+              {memoryStats && memoryStats.languagePairs.length > 0 && (
+                <>
+                  （
+                  {memoryStats.languagePairs
+                    .map((pair) => `${pair.sourceLanguage} → ${pair.targetLanguage}: ${pair.count}`)
+                    .join('，')}
+                  ）
+                </>
+              )}
+            </label>
+            <div className="prompt-template-actions">
+              <button className="btn btn-secondary btn-sm" onClick={handleImportMemory}>
+                📥 导入 TMX
+              </button>
+              <button className="btn btn-secondary btn-sm" onClick={handleExportMemory}>
+                📤 导出 TMX
+              </button>
+              <button className="btn btn-secondary btn-sm" onClick={handleClearMemory}>
+                🗑️ 清空
+              </button>
+            </div>
+            <small className="help-text">
+              保存译文时按段落写入翻译记忆；翻译时完全相同的段落直接复用，相似段落作为参考提供给模型
+            </small>
+          </div>
+        </div>
+
       {activeProject && (
         <div className="settings-section">
           <h3>项目配置</h3>
@@ -1062,6 +1394,196 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
             />
             <small className="help-text">用逗号分隔多个文件类型</small>
           </div>
+            <div className="setting-item">
+              <label>译文路径模板:</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="留空则原地覆盖原文（如：i18n/{lang}/{dir}/{name}{ext}）"
+                value={settingsForm.targetPathTemplate}
+                onChange={(e) => handleFormChange('targetPathTemplate', e.target.value)}
+              />
+              <small className="help-text">
+                {
+                  '可用变量：{lang} 当前目标语言，{dir} 原文目录，{name} 文件名（不含扩展名），{ext} 扩展名。例如 docs/{lang}/{dir}/{name}{ext} 或 {dir}/{name}.{lang}{ext}'
+                }
+              </small>
+            </div>
+            <div className="setting-item">
+              <label>原文语言代码:</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="en"
+                value={settingsForm.sourceLanguage}
+                onChange={(e) => handleFormChange('sourceLanguage', e.target.value)}
+              />
+              <small className="help-text">用于替换提示词中的 {'{sourceLang}'} 变量</small>
+            </div>
+            <div className="setting-item">
+              <label>目标语言代码:</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="zh-CN, ja, ko"
+                value={settingsForm.targetLanguages}
+                onChange={(e) => handleFormChange('targetLanguages', e.target.value)}
+              />
+              <small className="help-text">
+                {
+                  '用逗号分隔多个目标语言，可在顶部工具栏切换当前语言；用于提示词中的 {targetLang} 和路径模板中的 {lang} 变量'
+                }
+              </small>
+            </div>
+            <div className="setting-item">
+              <label>Front Matter 翻译字段:</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="title, description, sidebar_label"
+                value={settingsForm.frontMatterKeys}
+                onChange={(e) => handleFormChange('frontMatterKeys', e.target.value)}
+              />
+              <small className="help-text">
+                用逗号分隔，只翻译这些顶层字段的值，其余字段（如
+                slug、id、tags）保持不变；留空使用默认字段
+              </small>
+            </div>
+            <div className="setting-item">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={settingsForm.translateCodeComments}
+                  onChange={(e) =>
+                    setSettingsForm((prev) => ({
+                      ...prev,
+                      translateCodeComments: e.target.checked
+                    }))
+                  }
+                />{' '}
+                翻译 Notebook 代码单元格中的注释
+              </label>
+              <small className="help-text">
+                翻译 # 注释和 Python 文档字符串，代码和输出保持不变；语言取自 Notebook 的 kernelspec
+              </small>
+            </div>
+            <div className="setting-item">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={settingsForm.bilingualNotebooks}
+                  onChange={(e) =>
+                    setSettingsForm((prev) => ({ ...prev, bilingualNotebooks: e.target.checked }))
+                  }
+                />{' '}
+                Notebook 双语对照
+              </label>
+              <small className="help-text">
+                保留原文单元格，在每个 markdown 单元格后插入其译文；上游更新后只刷新变化的单元格对
+              </small>
+            </div>
+            <div className="setting-item">
+              <label>
+                <input
+                  type="checkbox"
+                  checked={settingsForm.bilingualMarkdown}
+                  onChange={(e) =>
+                    setSettingsForm((prev) => ({ ...prev, bilingualMarkdown: e.target.checked }))
+                  }
+                />{' '}
+                Markdown 双语对照
+              </label>
+              <small className="help-text">
+                每个段落、标题、列表等原文块之后紧跟其译文，代码块和 Front Matter
+                只保留一份；上游更新后只刷新变化的段落
+              </small>
+            </div>
+            {settingsForm.bilingualMarkdown && (
+              <div className="setting-item">
+                <label>译文包裹模板:</label>
+                <textarea
+                  className="prompt-textarea"
+                  rows={3}
+                  placeholder={'<div class="translation">\n\n{translation}\n\n</div>'}
+                  value={settingsForm.bilingualWrapper}
+                  onChange={(e) => handleFormChange('bilingualWrapper', e.target.value)}
+                />
+                <small className="help-text">
+                  可选，{'{translation}'} 处替换为译文，用于为译文添加样式或 MDX
+                  组件；留空时译文直接跟在原文之后
+                </small>
+              </div>
+            )}
+            <div className="setting-item">
+              <label>术语表:</label>
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => setIsGlossaryDialogOpen(true)}
+              >
+                📖 管理术语表（{activeProject.glossary?.length || 0} 条）
+              </button>
+              <small className="help-text">
+                统一专有名词和产品名称的译法，或指定保持原文不翻译的术语
+              </small>
+            </div>
+            <div className="setting-item">
+              <label>项目 LLM 服务:</label>
+              <select
+                className="input"
+                value={settingsForm.projectProvider}
+                onChange={(e) => handleFormChange('projectProvider', e.target.value)}
+              >
+                <option value="">沿用全局配置</option>
+                {(Object.keys(LLM_PROVIDER_LABELS) as LLMProviderType[]).map((provider) => (
+                  <option key={provider} value={provider}>
+                    {LLM_PROVIDER_LABELS[provider]}
+                  </option>
+                ))}
+              </select>
+              <small className="help-text">以下各项留空时沿用全局 LLM 服务配置</small>
+            </div>
+            <div className="setting-item">
+              <label>项目 API Key:</label>
+              <input
+                type="password"
+                className="input"
+                placeholder="沿用全局配置"
+                value={settingsForm.projectApiKey}
+                onChange={(e) => handleFormChange('projectApiKey', e.target.value)}
+              />
+            </div>
+            <div className="setting-item">
+              <label>项目模型:</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="沿用全局配置"
+                value={settingsForm.projectModel}
+                onChange={(e) => handleFormChange('projectModel', e.target.value)}
+              />
+            </div>
+            <div className="setting-item">
+              <label>项目 Base URL:</label>
+              <input
+                type="text"
+                className="input"
+                placeholder="沿用全局配置"
+                value={settingsForm.projectBaseUrl}
+                onChange={(e) => handleFormChange('projectBaseUrl', e.target.value)}
+              />
+            </div>
+            {(settingsForm.projectProvider || settingsForm.provider) === 'azure' && (
+              <div className="setting-item">
+                <label>项目 API Version:</label>
+                <input
+                  type="text"
+                  className="input"
+                  placeholder="沿用全局配置"
+                  value={settingsForm.projectApiVersion}
+                  onChange={(e) => handleFormChange('projectApiVersion', e.target.value)}
+                />
+              </div>
+            )}
         </div>
       )}
 
@@ -1117,11 +1639,18 @@ const LeftPanel = forwardRef<LeftPanelRef, LeftPanelProps>(({
       />
 
       {/* 提示词模板对话框 */}
-      <PromptTemplateDialog
-        isOpen={isPromptTemplateDialogOpen}
-        onClose={handleClosePromptTemplateDialog}
-        onSelectTemplate={handleSelectTemplate}
-      />
+        <PromptTemplateDialog
+          isOpen={isPromptTemplateDialogOpen}
+          onClose={handleClosePromptTemplateDialog}
+          onSelectTemplate={handleSelectTemplate}
+        />
+
+        {/* 术语表对话框 */}
+        <GlossaryDialog
+          isOpen={isGlossaryDialogOpen}
+          onClose={() => setIsGlossaryDialogOpen(false)}
+          project={activeProject}
+        />
     </div>
   )
 })
@@ -1,20 +1,69 @@
 import React, { useState, useEffect } from 'react'
-import { fileService, FileContent } from '../services/fileService'
+import {
+  fileService,
+  FileContent,
+  GlossaryViolation,
+  QAIssue,
+  SourceDiff,
+  SourceDiffLine,
+  TranslationMode
+} from '../services/fileService'
 import { configService } from '../services/configService'
+import { getActiveLanguage } from '../utils/languages'
+import { ERROR_CATEGORY_LABELS, parseTranslationError } from '../utils/translationErrors'
+import { isLLMConfigured } from '../utils/llmProviders'
+import SegmentEditor from './SegmentEditor'
+import NotebookView from './NotebookView'
+import MarkdownPreview from './MarkdownPreview'
 import './MainWorkArea.css'
 
 interface MainWorkAreaProps {
   activeFile: string | null
   onFileChange: (file: string | null) => void
+  onFileStatusChange?: () => void // 翻译或保存后通知文件树刷新状态
 }
 
-const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange }) => {
+const QA_RULE_LABELS: Record<QAIssue['rule'], string> = {
+  heading: '标题',
+  'code-block': '代码块',
+  link: '链接',
+  'inline-code': '行内代码',
+  'front-matter': 'Front Matter',
+  'html-tag': '标签',
+  placeholder: '占位符',
+  directive: '指令'
+}
+
+// 按单元格或条目翻译的文件不输出流式译文：Notebook、gettext 消息目录和 JSON/YAML 资源文件
+const NON_STREAMING_FILE_REGEX = /\.(ipynb|pot?|json|ya?ml)$/i
+
+const MainWorkArea: React.FC<MainWorkAreaProps> = ({
+  activeFile,
+  onFileChange,
+  onFileStatusChange
+}) => {
   const [fileContent, setFileContent] = useState<FileContent | null>(null)
   const [translatedContent, setTranslatedContent] = useState('')
   const [isTranslating, setIsTranslating] = useState(false)
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [sourceDiff, setSourceDiff] = useState<SourceDiff | null>(null)
+  const [activeLanguage, setActiveLanguage] = useState('')
+  const [glossaryViolations, setGlossaryViolations] = useState<GlossaryViolation[]>([])
+  const [qaIssues, setQAIssues] = useState<QAIssue[]>([])
+  const [viewMode, setViewMode] = useState<'split' | 'segments' | 'preview'>('split') // 整篇编辑、逐段对照或渲染预览
+  const [showNotebookJson, setShowNotebookJson] = useState(false) // Notebook 默认按单元格显示，可切换为 JSON 源码
+
+  // 监听目标语言切换，切换后重新加载当前文件的译文
+  useEffect(() => {
+    const unsubscribe = configService.onConfigChange((config) => {
+      const project = config.projects.find((p) => p.path === config.activeProjectPath)
+      setActiveLanguage(project ? getActiveLanguage(project) : '')
+    })
+
+    return unsubscribe
+  }, [])
 
   useEffect(() => {
     const loadFileContent = async () => {
@@ -23,6 +72,7 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
         setTranslatedContent('')
         setHasUnsavedChanges(false)
         setError(null)
+        setSourceDiff(null)
         return
       }
 
@@ -47,6 +97,18 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
         setFileContent(content)
         setTranslatedContent(content.translated)
         setHasUnsavedChanges(false)
+
+        // 已过时的文件加载上游原文差异
+        if (content.status === 'outdated') {
+          await loadSourceDiff(
+            activeProject.path,
+            activeFile,
+            activeProject.upstreamBranch,
+            activeProject.workingBranch
+          )
+        } else {
+          setSourceDiff(null)
+        }
       } catch (err) {
         console.error('加载文件内容失败:', err)
         setError((err as Error).message)
@@ -59,12 +121,68 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
     }
 
     loadFileContent()
-  }, [activeFile])
+  }, [activeFile, activeLanguage])
+
+  // 译文变化后检查结构并按术语表检查，编辑时延迟执行，翻译过程中不检查
+  useEffect(() => {
+    if (!fileContent || !activeFile || isTranslating) {
+      setGlossaryViolations([])
+      setQAIssues([])
+      return
+    }
+
+    const projectPath = configService.getConfig()?.activeProjectPath
+    if (!projectPath) return
 
-  const handleTranslate = async () => {
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const [violations, issues] = await Promise.all([
+          fileService.checkGlossary(projectPath, fileContent.original, translatedContent),
+          fileService.runQAChecks(projectPath, activeFile, fileContent.original, translatedContent)
+        ])
+        if (!cancelled) {
+          setGlossaryViolations(violations)
+          setQAIssues(issues)
+        }
+      } catch (checkError) {
+        console.error('译文检查失败:', checkError)
+      }
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [activeFile, fileContent, translatedContent, isTranslating])
+
+  const loadSourceDiff = async (
+    projectPath: string,
+    filePath: string,
+    upstreamBranch: string,
+    workingBranch: string
+  ): Promise<void> => {
+    try {
+      const diff = await fileService.getSourceDiff(
+        projectPath,
+        filePath,
+        upstreamBranch,
+        workingBranch
+      )
+      setSourceDiff(diff)
+    } catch (diffError) {
+      console.error('加载原文差异失败:', diffError)
+      setSourceDiff(null)
+    }
+  }
+
+  // retryFailedCells 为 true 时只重新翻译 Notebook 上次失败的单元格或资源文件上次失败的键
+  const handleTranslate = async (mode: TranslationMode = 'full', retryFailedCells = false) => {
     if (!fileContent || !activeFile) return
     
     setIsTranslating(true)
+    const previousTranslation = translatedContent
+    let unsubscribeDelta: (() => void) | null = null
     try {
       const config = configService.getConfig()
       const activeProject = config?.projects.find(p => p.path === config.activeProjectPath)
@@ -74,33 +192,51 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
       }
 
       // 检查 LLM 配置
-      if (!config?.llmConfig?.apiKey) {
-        // 如果没有 API Key，使用模拟翻译
-        setTimeout(() => {
-          const translated = fileContent.original
-            .replace(/OpenDoc Translate/g, 'OpenDoc Translate')
-            .replace(/Getting Started/g, '开始使用')
-            .replace(/API Reference/g, 'API 参考')
-            .replace(/Authentication/g, '认证')
-            .replace(/Endpoints/g, '端点')
-            .replace(/Parameters/g, '参数')
-            .replace(/Response/g, '响应')
-          
-          setTranslatedContent(translated)
-          setHasUnsavedChanges(true)
-          setIsTranslating(false)
-        }, 2000)
+      if (!isLLMConfigured(config, activeProject)) {
+        alert('请先在设置中配置 LLM API Key')
         return
       }
 
+      // 整篇翻译 Markdown、rST 等文档时流式显示译文，其余文件翻译期间保留现有内容
+      const stream = mode === 'full' && !NON_STREAMING_FILE_REGEX.test(activeFile)
+      if (stream) {
+        setTranslatedContent('')
+        unsubscribeDelta = fileService.onTranslationDelta((event) => {
+          if (event.projectPath !== activeProject.path || event.filePath !== activeFile) return
+          setTranslatedContent((prev) => (event.replace ? event.delta : prev + event.delta))
+        })
+      }
+
       // 使用主进程的翻译服务，通过 IPC 调用，避免 CSP 限制
-      await fileService.translateFile(
+      const result = await fileService.translateFile(
         activeProject.path,
         activeFile,
         activeProject.upstreamBranch,
-        activeProject.workingBranch
+        activeProject.workingBranch,
+        { mode, stream, retryFailedCells }
       )
-      
+
+      if (result.failedCells) {
+        alert(
+          `部分单元格翻译失败，已保留原文：第 ${result.failedCells.join('、')} 个单元格。可以稍后点击"重试失败的单元格"`
+        )
+      }
+      if (result.failedKeys) {
+        alert(
+          `部分键翻译失败，已保留原文：${result.failedKeys.join('、')}。可以稍后点击"重试失败的键"`
+        )
+      }
+
+      if (result.mode === 'incremental') {
+        console.log(
+          `增量翻译完成: 重新翻译 ${result.translatedBlocks} 个块，复用 ${result.reusedBlocks} 个块`
+        )
+      } else if (result.reusedBlocks) {
+        console.log(
+          `翻译完成: 复用已有译文或翻译记忆 ${result.reusedBlocks} 个块，重新翻译 ${result.translatedBlocks} 个块`
+        )
+      }
+
       // 翻译完成后重新加载文件内容
       const updatedContent = await fileService.getFileContent(
         activeProject.path,
@@ -112,14 +248,55 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
       setFileContent(updatedContent)
       setTranslatedContent(updatedContent.translated)
       setHasUnsavedChanges(false) // 主进程翻译会自动保存
+      setSourceDiff(null)
+      onFileStatusChange?.()
     } catch (error) {
-      console.error('翻译失败:', error)
-      alert('翻译失败: ' + (error as Error).message)
+      // 失败或取消时恢复翻译前的译文，文件本身不会被改写
+      setTranslatedContent(previousTranslation)
+      const { category, message } = parseTranslationError(error)
+      if (category === 'cancelled') {
+        console.log('翻译已取消:', activeFile)
+      } else {
+        console.error('翻译失败:', error)
+        alert(`翻译失败（${ERROR_CATEGORY_LABELS[category]}）: ${message}`)
+      }
     } finally {
+      unsubscribeDelta?.()
       setIsTranslating(false)
     }
   }
 
+  const handleCancelTranslate = async (): Promise<void> => {
+    if (!activeFile) return
+
+    const config = configService.getConfig()
+    if (!config?.activeProjectPath) return
+
+    try {
+      await fileService.cancelTranslation(config.activeProjectPath, activeFile)
+    } catch (error) {
+      console.error('取消翻译失败:', error)
+    }
+  }
+
+  // 逐段对照模式下单独翻译一个段落，结果由编辑器合并到译文中，需要手动保存
+  const handleTranslateSegment = async (
+    content: string,
+    context: { before?: string; after?: string }
+  ): Promise<string> => {
+    const config = configService.getConfig()
+    const activeProject = config?.projects.find((p) => p.path === config.activeProjectPath)
+    if (!activeProject) {
+      throw new Error('未找到活动项目')
+    }
+
+    if (!isLLMConfigured(config, activeProject)) {
+      throw new Error('请先在设置中配置 LLM API Key')
+    }
+
+    return await fileService.translateSegment(activeProject.path, content, context)
+  }
+
   const handleSave = async () => {
     if (!activeFile || !fileContent) return
     
@@ -131,13 +308,17 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
         throw new Error('未找到活动项目')
       }
 
-      await fileService.saveFileContent(
+      const saved = await fileService.saveFileContent(
         activeProject.path,
         activeFile,
         translatedContent
       )
+      if (saved !== translatedContent) {
+        setTranslatedContent(saved)
+      }
 
       setHasUnsavedChanges(false)
+      onFileStatusChange?.()
       console.log('文件保存成功:', activeFile)
     } catch (error) {
       console.error('保存文件失败:', error)
@@ -177,23 +358,110 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
     }
   }
 
+  const getDiffMarker = (type: SourceDiffLine['type']): string => {
+    switch (type) {
+      case 'added':
+        return '+'
+      case 'removed':
+        return '-'
+      case 'changed':
+        return '~'
+      default:
+        return ' '
+    }
+  }
+
   const renderDiffHighlight = (content: string) => {
-    if (!fileContent || fileContent.status !== 'outdated') {
+    if (!fileContent || fileContent.status !== 'outdated' || !sourceDiff) {
       return content
     }
 
-    // 简单的差异高亮模拟
-    const lines = content.split('\n')
-    return lines.map((line, index) => {
-      const isChanged = line.includes('First Steps') || line.includes('Translation Workflow')
-      return (
-        <div key={index} className={`diff-line ${isChanged ? 'changed' : ''}`}>
-          {line}
-        </div>
-      )
-    }).join('\n')
+    // 按行展示上游原文自上次翻译以来的增删改
+    return sourceDiff.lines.map((line, index) => (
+      <div key={index} className={`diff-line ${line.type}`}>
+        <span className="diff-line-number">{line.newLineNumber ?? ''}</span>
+        <span className="diff-line-marker">{getDiffMarker(line.type)}</span>
+        {line.content || ' '}
+      </div>
+    ))
+  }
+
+  const getDiffSummary = (): string => {
+    if (!sourceDiff) return '🔍 高亮显示更改'
+    if (sourceDiff.hunks.length === 0) return '🔍 原文无内容变化'
+
+    const added = sourceDiff.hunks.filter((hunk) => hunk.type === 'added').length
+    const removed = sourceDiff.hunks.filter((hunk) => hunk.type === 'removed').length
+    const changed = sourceDiff.hunks.filter((hunk) => hunk.type === 'changed').length
+    return `🔍 ${sourceDiff.hunks.length} 处更改（新增 ${added}，删除 ${removed}，修改 ${changed}）`
+  }
+
+  const renderGlossaryViolations = (): React.ReactElement | null => {
+    if (isTranslating || glossaryViolations.length === 0) return null
+
+    return (
+      <ul className="glossary-violations">
+        {glossaryViolations.map((violation) => (
+          <li key={violation.term}>
+            {violation.doNotTranslate
+              ? `「${violation.term}」应保持原文不翻译`
+              : `「${violation.term}」应译为「${violation.expected}」`}
+            <span className="glossary-occurrences">（原文出现 {violation.occurrences} 次）</span>
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  const renderQAIssues = (): React.ReactElement | null => {
+    if (isTranslating || qaIssues.length === 0) return null
+
+    return (
+      <ul className="qa-issues">
+        {qaIssues.map((issue, index) => (
+          <li key={index} className={`qa-issue ${issue.severity}`}>
+            <span className="qa-issue-rule">
+              {issue.severity === 'error' ? '❌' : '⚠️'} {QA_RULE_LABELS[issue.rule]}
+            </span>
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    )
   }
 
+  const getQAIndicator = (): string => {
+    const errors = qaIssues.filter((issue) => issue.severity === 'error').length
+    const warnings = qaIssues.length - errors
+    return `🔎 ${[errors > 0 ? `${errors} 个错误` : '', warnings > 0 ? `${warnings} 个警告` : ''].filter(Boolean).join('，')}`
+  }
+
+  const renderNotebookView = (): React.ReactElement => (
+    <div className="diff-editor segment-mode">
+      {renderQAIssues()}
+      {renderGlossaryViolations()}
+      <NotebookView
+        original={fileContent!.original}
+        translated={translatedContent}
+        changedCells={fileContent!.status === 'outdated' ? sourceDiff?.changedCells : undefined}
+        readOnly={isTranslating}
+        onChange={handleContentChange}
+      />
+    </div>
+  )
+
+  const renderMarkdownPreview = (): React.ReactElement => (
+    <div className="diff-editor segment-mode">
+      {renderQAIssues()}
+      {renderGlossaryViolations()}
+      <MarkdownPreview
+        original={fileContent!.original}
+        translated={translatedContent}
+        isMdx={activeFile!.endsWith('.mdx')}
+      />
+    </div>
+  )
+
   if (!activeFile) {
     return (
       <div className="main-work-area">
@@ -230,6 +498,8 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
     )
   }
 
+  const isMarkdownFile = activeFile.endsWith('.md') || activeFile.endsWith('.mdx')
+
   return (
     <div className="main-work-area">
       <div className="work-area-header">
@@ -240,16 +510,121 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
           >
             {getStatusText(fileContent.status)}
           </span>
+          {fileContent.failedCells && fileContent.failedCells.length > 0 && (
+            <span
+              className="partial-indicator"
+              title={`第 ${fileContent.failedCells.join('、')} 个单元格仍为原文`}
+            >
+              ⚠️ {fileContent.failedCells.length} 个单元格翻译失败
+            </span>
+          )}
+          {fileContent.failedKeys && fileContent.failedKeys.length > 0 && (
+            <span
+              className="partial-indicator"
+              title={`${fileContent.failedKeys.join('、')} 仍为原文`}
+            >
+              ⚠️ {fileContent.failedKeys.length} 个键翻译失败
+            </span>
+          )}
           {hasUnsavedChanges && <span className="unsaved-indicator">● 未保存</span>}
         </div>
         <div className="action-buttons">
+          {activeFile.endsWith('.ipynb') ? (
+            <button
+              className="btn"
+              onClick={() => setShowNotebookJson(!showNotebookJson)}
+              title={
+                showNotebookJson ? '按单元格并排显示原文和译文' : '直接编辑 Notebook 的 JSON 源码'
+              }
+            >
+              {showNotebookJson ? '单元格视图' : 'JSON 源码'}
+            </button>
+          ) : (
+            <button
+              className="btn"
+              onClick={() => setViewMode(viewMode === 'segments' ? 'split' : 'segments')}
+              title={
+                viewMode === 'segments'
+                  ? '切换回整篇编辑'
+                  : '按段落并排显示原文和译文，可逐段编辑或重新翻译'
+              }
+            >
+              {viewMode === 'segments' ? '整篇编辑' : '逐段对照'}
+            </button>
+          )}
+          {isMarkdownFile && (
+            <button
+              className="btn"
+              onClick={() => setViewMode(viewMode === 'preview' ? 'split' : 'preview')}
+              title={
+                viewMode === 'preview'
+                  ? '切换回整篇编辑'
+                  : '并排显示渲染后的原文和译文，两侧同步滚动'
+              }
+            >
+              {viewMode === 'preview' ? '退出预览' : '预览'}
+            </button>
+          )}
+          {fileContent.status === 'outdated' && (
+            <button
+              className="btn btn-primary"
+              onClick={() => handleTranslate('incremental')}
+              disabled={isTranslating || !fileContent}
+              title="只重新翻译上游发生变化的段落，保留其余已审校的译文"
+            >
+              {isTranslating ? '翻译中...' : '增量翻译'}
+            </button>
+          )}
+          {fileContent.status === 'translated' &&
+            fileContent.failedCells &&
+            fileContent.failedCells.length > 0 && (
+              <button
+                className="btn btn-primary"
+                onClick={() => handleTranslate('full', true)}
+                disabled={isTranslating || hasUnsavedChanges}
+                title={
+                  hasUnsavedChanges
+                    ? '请先保存当前修改'
+                    : `只重新翻译上次失败的第 ${fileContent.failedCells.join('、')} 个单元格，其余译文保持不变`
+                }
+              >
+                {isTranslating
+                  ? '翻译中...'
+                  : `重试失败的单元格 (${fileContent.failedCells.length})`}
+              </button>
+            )}
+          {fileContent.status === 'translated' &&
+            fileContent.failedKeys &&
+            fileContent.failedKeys.length > 0 && (
+              <button
+                className="btn btn-primary"
+                onClick={() => handleTranslate('full', true)}
+                disabled={isTranslating || hasUnsavedChanges}
+                title={
+                  hasUnsavedChanges
+                    ? '请先保存当前修改'
+                    : `只重新翻译上次失败的 ${fileContent.failedKeys.join('、')}，其余译文保持不变`
+                }
+              >
+                {isTranslating ? '翻译中...' : `重试失败的键 (${fileContent.failedKeys.length})`}
+              </button>
+            )}
           <button 
             className="btn btn-primary"
-            onClick={handleTranslate}
+            onClick={() => handleTranslate()}
             disabled={isTranslating || !fileContent}
           >
             {isTranslating ? '翻译中...' : '重新翻译'}
           </button>
+          {isTranslating && (
+            <button
+              className="btn btn-danger"
+              onClick={handleCancelTranslate}
+              title="中止当前翻译请求，保留原有译文"
+            >
+              取消
+            </button>
+          )}
           <button 
             className="btn btn-success"
             onClick={handleSave}
@@ -260,46 +635,82 @@ const MainWorkArea: React.FC<MainWorkAreaProps> = ({ activeFile, onFileChange })
         </div>
       </div>
 
-      <div className="diff-editor">
-        <div className="editor-pane original-pane">
-          <div className="pane-header">
-            <h4>原文 (上游分支)</h4>
-            {fileContent.status === 'outdated' && (
-              <span className="diff-indicator">🔍 高亮显示更改</span>
-            )}
-          </div>
-          <div className="editor-content">
-            <pre className="code-content">
-              {fileContent.status === 'outdated' 
-                ? renderDiffHighlight(fileContent.original)
-                : fileContent.original
-              }
-            </pre>
-          </div>
+      {activeFile.endsWith('.ipynb') && !showNotebookJson ? (
+        renderNotebookView()
+      ) : viewMode === 'preview' && isMarkdownFile ? (
+        renderMarkdownPreview()
+      ) : viewMode === 'segments' && !activeFile.endsWith('.ipynb') ? (
+        <div className="diff-editor segment-mode">
+          {renderQAIssues()}
+          {renderGlossaryViolations()}
+          <SegmentEditor
+            original={fileContent.original}
+            translated={translatedContent}
+            readOnly={isTranslating}
+            onChange={handleContentChange}
+            onTranslateSegment={handleTranslateSegment}
+          />
         </div>
+      ) : (
+        <div className="diff-editor">
+          <div className="editor-pane original-pane">
+            <div className="pane-header">
+              <h4>原文 (上游分支)</h4>
+              {fileContent.status === 'outdated' && (
+                <span className="diff-indicator">{getDiffSummary()}</span>
+              )}
+            </div>
+            <div className="editor-content">
+              <pre className="code-content">
+                {fileContent.status === 'outdated'
+                  ? renderDiffHighlight(fileContent.original)
+                  : fileContent.original}
+              </pre>
+            </div>
+          </div>
 
-        <div className="editor-divider"></div>
+          <div className="editor-divider"></div>
 
-        <div className="editor-pane translated-pane">
-          <div className="pane-header">
-            <h4>译文 (工作分支)</h4>
-            {fileContent.status === 'untranslated' && translatedContent === '' && (
-              <span className="empty-indicator">可以点击"重新翻译"或直接编辑</span>
-            )}
-          </div>
-          <div className="editor-content">
-            <textarea
-              className="code-editor"
-              value={translatedContent}
-              onChange={(e) => handleContentChange(e.target.value)}
-              placeholder={fileContent.status === 'untranslated' && translatedContent === '' ? 
-                '此文件尚未翻译，可以点击上方"重新翻译"按钮自动翻译，或直接在此处输入译文...' : 
-                '翻译内容...'
-              }
-            />
+          <div className="editor-pane translated-pane">
+            <div className="pane-header">
+              <h4>译文 (工作分支)</h4>
+              {isTranslating && <span className="streaming-indicator">正在接收译文...</span>}
+              {!isTranslating &&
+                fileContent.status === 'untranslated' &&
+                translatedContent === '' && (
+                  <span className="empty-indicator">可以点击"重新翻译"或直接编辑</span>
+                )}
+              {!isTranslating && glossaryViolations.length > 0 && (
+                <span className="glossary-indicator">
+                  ⚠️ {glossaryViolations.length} 个术语未按术语表翻译
+                </span>
+              )}
+              {!isTranslating && qaIssues.length > 0 && (
+                <span
+                  className={`qa-indicator ${qaIssues.some((issue) => issue.severity === 'error') ? 'error' : ''}`}
+                >
+                  {getQAIndicator()}
+                </span>
+              )}
+            </div>
+            {renderQAIssues()}
+            {renderGlossaryViolations()}
+            <div className="editor-content">
+              <textarea
+                className="code-editor"
+                value={translatedContent}
+                readOnly={isTranslating}
+                onChange={(e) => handleContentChange(e.target.value)}
+                placeholder={
+                  fileContent.status === 'untranslated' && translatedContent === ''
+                    ? '此文件尚未翻译，可以点击上方"重新翻译"按钮自动翻译，或直接在此处输入译文...'
+                    : '翻译内容...'
+                }
+              />
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,91 @@
+import React, { useMemo, useRef } from 'react'
+import { renderMarkdown } from '../utils/markdownRenderer'
+import './MarkdownPreview.css'
+
+interface MarkdownPreviewProps {
+  original: string
+  translated: string
+  isMdx: boolean
+}
+
+const FRONT_MATTER_REGEX = /^---[ \t]*\r?\n(?:[\s\S]*?\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/
+
+// MDX 的 import/export 语句不参与显示
+const MDX_STATEMENT_REGEX = /^(import|export)\s[^\n]*(?:\n(?![ \t]*\n)[^\n]*)*/gm
+
+const MarkdownDocument: React.FC<{ content: string; isMdx: boolean }> = ({ content, isMdx }) => {
+  const rendered = useMemo(() => {
+    const frontMatter = content.match(FRONT_MATTER_REGEX)?.[0]
+    const body = frontMatter ? content.slice(frontMatter.length) : content
+    return (
+      <>
+        {frontMatter && <pre className="md-front-matter">{frontMatter.trim()}</pre>}
+        {renderMarkdown(isMdx ? body.replace(MDX_STATEMENT_REGEX, '') : body)}
+      </>
+    )
+  }, [content, isMdx])
+
+  return <div className="markdown-preview">{rendered}</div>
+}
+
+const MarkdownPreview: React.FC<MarkdownPreviewProps> = ({ original, translated, isMdx }) => {
+  const sourceRef = useRef<HTMLDivElement>(null)
+  const targetRef = useRef<HTMLDivElement>(null)
+  // 由同步滚动触发的滚动事件不再反向同步
+  const ignoreScrollRef = useRef<HTMLDivElement | null>(null)
+
+  // 按滚动比例同步两侧位置，原文与译文长度不同时大致对齐
+  const handleScroll = (from: HTMLDivElement | null, to: HTMLDivElement | null): void => {
+    if (!from || !to) return
+    if (ignoreScrollRef.current === from) {
+      ignoreScrollRef.current = null
+      return
+    }
+
+    const maxFrom = from.scrollHeight - from.clientHeight
+    const target =
+      maxFrom > 0 ? (from.scrollTop / maxFrom) * (to.scrollHeight - to.clientHeight) : 0
+    if (Math.abs(to.scrollTop - target) >= 1) {
+      ignoreScrollRef.current = to
+      to.scrollTop = target
+    }
+  }
+
+  return (
+    <div className="markdown-preview-split">
+      <div className="editor-pane original-pane">
+        <div className="pane-header">
+          <h4>原文预览 (上游分支)</h4>
+        </div>
+        <div
+          ref={sourceRef}
+          className="markdown-preview-pane"
+          onScroll={() => handleScroll(sourceRef.current, targetRef.current)}
+        >
+          <MarkdownDocument content={original} isMdx={isMdx} />
+        </div>
+      </div>
+
+      <div className="editor-divider"></div>
+
+      <div className="editor-pane translated-pane">
+        <div className="pane-header">
+          <h4>译文预览 (工作分支)</h4>
+        </div>
+        <div
+          ref={targetRef}
+          className="markdown-preview-pane"
+          onScroll={() => handleScroll(targetRef.current, sourceRef.current)}
+        >
+          {translated.trim() ? (
+            <MarkdownDocument content={translated} isMdx={isMdx} />
+          ) : (
+            <div className="empty-indicator">尚无译文</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default MarkdownPreview
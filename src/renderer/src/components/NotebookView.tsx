@@ -0,0 +1,339 @@
+import React, { useMemo, useState } from 'react'
+import { SegmentCell } from './SegmentEditor'
+import { renderMarkdown } from '../utils/markdownRenderer'
+import { highlightCode } from '../utils/codeHighlight'
+import './MarkdownPreview.css'
+import './NotebookView.css'
+
+interface NotebookCell {
+  id?: string
+  cell_type: 'markdown' | 'code' | 'raw'
+  source: string[] | string
+  metadata?: { open_doc_translate?: { role?: string; sourceId?: string } } & Record<string, unknown>
+  outputs?: NotebookOutput[]
+}
+
+interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error'
+  text?: string[] | string
+  data?: Record<string, string[] | string>
+  ename?: string
+  evalue?: string
+}
+
+interface Notebook {
+  cells: NotebookCell[]
+  metadata?: {
+    kernelspec?: { language?: string }
+    language_info?: { name?: string }
+  }
+}
+
+interface NotebookViewProps {
+  original: string
+  translated: string
+  changedCells?: number[] // 上游自上次翻译以来新增或修改的单元格索引
+  readOnly: boolean
+  onChange: (translated: string) => void
+}
+
+// 对照行：sourceIndex / targetIndex 为原文和译文单元格的下标，缺少对应单元格时为 null
+interface CellRow {
+  sourceIndex: number | null
+  targetIndex: number | null
+}
+
+// 译文中与原文单元格对应的单元格：anchor 用于和原文对齐，cell 为显示和编辑的单元格
+// 双语 Notebook 中 anchor 为保留的原文单元格，cell 为其后的译文单元格；还没有译文时 index 为 null
+interface TargetCell {
+  anchor: NotebookCell
+  cell: NotebookCell
+  index: number | null
+}
+
+const CELL_TYPE_LABELS: Record<NotebookCell['cell_type'], string> = {
+  markdown: 'Markdown',
+  code: '代码',
+  raw: 'Raw'
+}
+
+const joinSource = (source: string[] | string | undefined): string =>
+  Array.isArray(source) ? source.join('') : source || ''
+
+// 按 nbformat 的习惯拆分为保留换行符的行
+const splitSource = (content: string): string[] => content.split(/(?<=\n)/)
+
+function parseNotebook(content: string): Notebook | null {
+  try {
+    const notebook = JSON.parse(content)
+    return Array.isArray(notebook?.cells) ? notebook : null
+  } catch {
+    return null
+  }
+}
+
+// 单元格数量一致时按位置对应，否则有 id 的单元格按 id 对应
+function alignCells(source: NotebookCell[], target: NotebookCell[]): CellRow[] {
+  if (
+    source.length === target.length ||
+    !source.every((cell) => cell.id) ||
+    !target.every((cell) => cell.id)
+  ) {
+    return Array.from({ length: Math.max(source.length, target.length) }, (_, index) => ({
+      sourceIndex: index < source.length ? index : null,
+      targetIndex: index < target.length ? index : null
+    }))
+  }
+
+  const targetIndexById = new Map(target.map((cell, index) => [cell.id!, index]))
+  const rows: CellRow[] = source.map((cell, index) => ({
+    sourceIndex: index,
+    targetIndex: targetIndexById.get(cell.id!) ?? null
+  }))
+  const matched = new Set(rows.map((row) => row.targetIndex))
+  target.forEach((_, index) => {
+    if (!matched.has(index)) rows.push({ sourceIndex: null, targetIndex: index })
+  })
+  return rows
+}
+
+const isTranslationCell = (cell: NotebookCell): boolean =>
+  cell.metadata?.open_doc_translate?.role === 'translation'
+
+// 双语 Notebook 的译文单元格紧跟在原文单元格之后，按原文单元格归并
+function getTargetCells(notebook: Notebook): TargetCell[] {
+  const bilingual = notebook.cells.some(isTranslationCell)
+  const targets: TargetCell[] = []
+  notebook.cells.forEach((cell, index) => {
+    if (!isTranslationCell(cell)) {
+      const pending = bilingual && cell.cell_type === 'markdown'
+      targets.push({ anchor: cell, cell, index: pending ? null : index })
+      return
+    }
+    const previous = targets[targets.length - 1]
+    if (previous && previous.index === null) {
+      previous.cell = cell
+      previous.index = index
+    }
+  })
+  // 没有译文单元格的 markdown 单元格直接显示原文，编辑时插入新的译文单元格
+  return targets.map((target) =>
+    target.index === null ? { ...target, cell: target.anchor } : target
+  )
+}
+
+// 保持译文文件原有的缩进和末尾换行，避免编辑一个单元格导致整个文件格式变化
+function stringifyNotebook(notebook: Notebook, previous: string): string {
+  const indent = previous.match(/^\{\r?\n([ \t]+)/)?.[1] || 2
+  return JSON.stringify(notebook, null, indent) + (previous.endsWith('\n') ? '\n' : '')
+}
+
+const NotebookOutputs: React.FC<{ outputs: NotebookOutput[] }> = ({ outputs }) => {
+  const renderOutput = (output: NotebookOutput, index: number): React.ReactNode => {
+    if (output.output_type === 'error') {
+      return (
+        <pre
+          key={index}
+          className="notebook-output error"
+        >{`${output.ename}: ${output.evalue}`}</pre>
+      )
+    }
+    if (output.output_type === 'stream') {
+      return (
+        <pre key={index} className="notebook-output">
+          {joinSource(output.text)}
+        </pre>
+      )
+    }
+
+    const data = output.data || {}
+    const image = Object.keys(data).find((type) => type === 'image/png' || type === 'image/jpeg')
+    if (image) {
+      return (
+        <img
+          key={index}
+          className="notebook-output-image"
+          src={`data:${image};base64,${joinSource(data[image]).trim()}`}
+        />
+      )
+    }
+    return (
+      <pre key={index} className="notebook-output">
+        {joinSource(data['text/plain']) || '（无法预览的输出）'}
+      </pre>
+    )
+  }
+
+  return (
+    <details className="notebook-outputs">
+      <summary>输出（{outputs.length} 项）</summary>
+      {outputs.map(renderOutput)}
+    </details>
+  )
+}
+
+const NotebookView: React.FC<NotebookViewProps> = ({
+  original,
+  translated,
+  changedCells,
+  readOnly,
+  onChange
+}) => {
+  const [editingCell, setEditingCell] = useState<number | null>(null)
+
+  const sourceNotebook = useMemo(() => parseNotebook(original), [original])
+  // 尚未翻译时以原文为基础，编辑单元格即生成译文
+  const targetNotebook = useMemo(
+    () => parseNotebook(translated.trim() ? translated : original),
+    [original, translated]
+  )
+  const targetCells = useMemo(
+    () => (targetNotebook ? getTargetCells(targetNotebook) : []),
+    [targetNotebook]
+  )
+  const rows = useMemo(
+    () =>
+      sourceNotebook
+        ? alignCells(
+            sourceNotebook.cells,
+            targetCells.map((target) => target.anchor)
+          )
+        : [],
+    [sourceNotebook, targetCells]
+  )
+
+  if (!sourceNotebook || !targetNotebook) {
+    return (
+      <div className="notebook-view-error">
+        {sourceNotebook
+          ? '译文不是有效的 Notebook JSON，请切换到 JSON 视图修复'
+          : '原文不是有效的 Notebook JSON'}
+      </div>
+    )
+  }
+
+  const language =
+    sourceNotebook.metadata?.kernelspec?.language ||
+    sourceNotebook.metadata?.language_info?.name ||
+    'python'
+  const changed = new Set(changedCells || [])
+
+  const commitCell = (target: TargetCell, value: string): void => {
+    const notebook = JSON.parse(JSON.stringify(targetNotebook)) as Notebook
+    if (target.index !== null) {
+      notebook.cells[target.index].source = splitSource(value)
+    } else {
+      // 双语 Notebook 中还没有译文的单元格，在原文单元格后插入译文单元格
+      const anchorIndex = targetNotebook.cells.indexOf(target.anchor)
+      notebook.cells.splice(anchorIndex + 1, 0, {
+        ...(target.anchor.id ? { id: `${target.anchor.id.slice(0, 52)}-translation` } : {}),
+        cell_type: 'markdown',
+        metadata: { open_doc_translate: { role: 'translation', sourceId: target.anchor.id } },
+        source: splitSource(value)
+      })
+    }
+    onChange(stringifyNotebook(notebook, translated.trim() ? translated : original))
+  }
+
+  const renderCellContent = (cell: NotebookCell): React.ReactNode => {
+    const content = joinSource(cell.source)
+    if (cell.cell_type === 'markdown') {
+      return <div className="markdown-preview">{renderMarkdown(content)}</div>
+    }
+    return (
+      <pre className="notebook-code">
+        {cell.cell_type === 'code' ? highlightCode(content, language) : content}
+      </pre>
+    )
+  }
+
+  const renderTargetCell = (
+    target: TargetCell,
+    rowIndex: number,
+    sourceCell?: NotebookCell
+  ): React.ReactNode => {
+    const { cell } = target
+    if (cell.cell_type !== 'markdown') {
+      return renderCellContent(cell)
+    }
+
+    if (editingCell === rowIndex && !readOnly) {
+      return (
+        <SegmentCell
+          value={joinSource(cell.source)}
+          readOnly={readOnly}
+          onCommit={(value) => commitCell(target, value)}
+        />
+      )
+    }
+
+    const untranslated =
+      sourceCell && joinSource(sourceCell.source).trim() === joinSource(cell.source).trim()
+    return (
+      <>
+        {untranslated && <span className="notebook-cell-note">尚未翻译</span>}
+        {renderCellContent(cell)}
+      </>
+    )
+  }
+
+  return (
+    <div className="notebook-view">
+      <div className="segment-header">
+        <span>原文 (上游分支)</span>
+        <span>译文 (工作分支)</span>
+      </div>
+      <div className="segment-list">
+        {rows.map((row, rowIndex) => {
+          const source =
+            row.sourceIndex !== null ? sourceNotebook.cells[row.sourceIndex] : undefined
+          const target = row.targetIndex !== null ? targetCells[row.targetIndex] : undefined
+          const isChanged = row.sourceIndex !== null && changed.has(row.sourceIndex)
+
+          return (
+            <div
+              key={rowIndex}
+              className={`segment-row notebook-row ${isChanged ? 'changed' : ''}`}
+            >
+              <div className="segment-source">
+                {source ? (
+                  <>
+                    <span className="segment-type">
+                      {isChanged && <span className="notebook-changed-label">上游已修改</span>}[
+                      {row.sourceIndex! + 1}] {CELL_TYPE_LABELS[source.cell_type]}
+                    </span>
+                    {renderCellContent(source)}
+                    {source.outputs && source.outputs.length > 0 && (
+                      <NotebookOutputs outputs={source.outputs} />
+                    )}
+                  </>
+                ) : (
+                  <span className="segment-note">原文中没有对应单元格</span>
+                )}
+              </div>
+              <div className="segment-target">
+                {target ? (
+                  <>
+                    {target.cell.cell_type === 'markdown' && !readOnly && (
+                      <button
+                        className="btn btn-sm segment-translate-btn"
+                        onClick={() => setEditingCell(editingCell === rowIndex ? null : rowIndex)}
+                      >
+                        {editingCell === rowIndex ? '完成' : '编辑'}
+                      </button>
+                    )}
+                    {renderTargetCell(target, rowIndex, source)}
+                  </>
+                ) : (
+                  <span className="segment-note">译文中缺少对应单元格</span>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default NotebookView
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react'
+import {
+  alignSegments,
+  insertSegment,
+  isTranslatableSegment,
+  MarkdownSegment,
+  parseMarkdownSegments,
+  replaceSegment
+} from '../utils/markdownSegments'
+import { ERROR_CATEGORY_LABELS, parseTranslationError } from '../utils/translationErrors'
+import './SegmentEditor.css'
+
+interface SegmentEditorProps {
+  original: string
+  translated: string
+  readOnly: boolean
+  onChange: (translated: string) => void
+  onTranslateSegment: (
+    content: string,
+    context: { before?: string; after?: string }
+  ) => Promise<string>
+}
+
+interface SegmentCellProps {
+  value: string
+  readOnly: boolean
+  placeholder?: string
+  onCommit: (value: string) => void
+}
+
+// 译文段落编辑框：编辑过程中只更新本地内容，失去焦点时再提交，避免输入空行导致段落重新对齐
+export const SegmentCell: React.FC<SegmentCellProps> = ({
+  value,
+  readOnly,
+  placeholder,
+  onCommit
+}) => {
+  const [draft, setDraft] = useState(value)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  // 高度随内容（包括自动换行）增长，不出现内部滚动条
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current
+    if (textarea) {
+      textarea.style.height = 'auto'
+      textarea.style.height = `${textarea.scrollHeight}px`
+    }
+  }, [draft])
+
+  return (
+    <textarea
+      ref={textareaRef}
+      className="segment-textarea"
+      value={draft}
+      readOnly={readOnly}
+      placeholder={placeholder}
+      rows={1}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onCommit(draft)
+      }}
+    />
+  )
+}
+
+const SEGMENT_TYPE_LABELS: Record<string, string> = {
+  frontmatter: 'Front Matter',
+  heading: '标题',
+  code: '代码',
+  'table-row': '表格',
+  'table-delimiter': '表格',
+  'list-item': '列表',
+  blockquote: '引用',
+  html: 'HTML',
+  paragraph: '段落'
+}
+
+const SegmentEditor: React.FC<SegmentEditorProps> = ({
+  original,
+  translated,
+  readOnly,
+  onChange,
+  onTranslateSegment
+}) => {
+  const [translatingRow, setTranslatingRow] = useState<number | null>(null)
+
+  const sourceSegments = useMemo(() => parseMarkdownSegments(original), [original])
+  const targetSegments = useMemo(() => parseMarkdownSegments(translated), [translated])
+  const rows = useMemo(
+    () => alignSegments(sourceSegments, targetSegments),
+    [sourceSegments, targetSegments]
+  )
+
+  // 缺少译文的行插入到前一个已有译文段落之后
+  const findInsertIndex = (rowIndex: number): number => {
+    for (let i = rowIndex - 1; i >= 0; i--) {
+      const targetIndex = rows[i].targetIndex
+      if (targetIndex !== null) return targetIndex
+    }
+    return targetSegments.length > 0 && targetSegments[0].type === 'blank' ? 0 : -1
+  }
+
+  const commitRow = (rowIndex: number, value: string): void => {
+    const row = rows[rowIndex]
+    if (row.targetIndex !== null) {
+      onChange(replaceSegment(targetSegments, row.targetIndex, value))
+    } else if (value.trim() !== '') {
+      const separator =
+        row.sourceIndex !== null ? sourceSegments[row.sourceIndex].separator : '\n\n'
+      onChange(insertSegment(targetSegments, findInsertIndex(rowIndex), value, separator))
+    }
+  }
+
+  // 取前后相邻的原文段落作为上下文
+  const getNeighbor = (rowIndex: number, step: number): MarkdownSegment | undefined => {
+    for (let i = rowIndex + step; i >= 0 && i < rows.length; i += step) {
+      const sourceIndex = rows[i].sourceIndex
+      if (sourceIndex !== null) return sourceSegments[sourceIndex]
+    }
+    return undefined
+  }
+
+  const handleTranslateRow = async (rowIndex: number): Promise<void> => {
+    const sourceIndex = rows[rowIndex].sourceIndex
+    if (sourceIndex === null) return
+
+    setTranslatingRow(rowIndex)
+    try {
+      const result = await onTranslateSegment(sourceSegments[sourceIndex].content, {
+        before: getNeighbor(rowIndex, -1)?.content,
+        after: getNeighbor(rowIndex, 1)?.content
+      })
+      commitRow(rowIndex, result)
+    } catch (error) {
+      console.error('段落翻译失败:', error)
+      const { category, message } = parseTranslationError(error)
+      alert(`段落翻译失败（${ERROR_CATEGORY_LABELS[category]}）: ${message}`)
+    } finally {
+      setTranslatingRow(null)
+    }
+  }
+
+  const getRowClass = (source?: MarkdownSegment, target?: MarkdownSegment): string => {
+    if (!source) return 'segment-row extra'
+    if (!target) return 'segment-row missing'
+    if (
+      isTranslatableSegment(source) &&
+      source.type !== 'code' &&
+      source.content.trim() === target.content.trim()
+    ) {
+      return 'segment-row untranslated'
+    }
+    return 'segment-row'
+  }
+
+  return (
+    <div className="segment-editor">
+      <div className="segment-header">
+        <span>原文 (上游分支)</span>
+        <span>译文 (工作分支)</span>
+      </div>
+      <div className="segment-list">
+        {rows.map((row, rowIndex) => {
+          const source = row.sourceIndex !== null ? sourceSegments[row.sourceIndex] : undefined
+          const target = row.targetIndex !== null ? targetSegments[row.targetIndex] : undefined
+
+          return (
+            <div key={rowIndex} className={getRowClass(source, target)}>
+              <div className="segment-source">
+                {source ? (
+                  <>
+                    <span className="segment-type">
+                      {SEGMENT_TYPE_LABELS[source.type] || source.type}
+                    </span>
+                    <pre>{source.content}</pre>
+                  </>
+                ) : (
+                  <span className="segment-note">原文中没有对应段落</span>
+                )}
+              </div>
+              <div className="segment-target">
+                <SegmentCell
+                  value={target?.content || ''}
+                  readOnly={readOnly || translatingRow !== null}
+                  placeholder={target ? '' : '缺少对应译文，可直接输入或点击翻译'}
+                  onCommit={(value) => commitRow(rowIndex, value)}
+                />
+                {source && isTranslatableSegment(source) && (
+                  <button
+                    className="btn btn-sm segment-translate-btn"
+                    onClick={() => handleTranslateRow(rowIndex)}
+                    disabled={readOnly || translatingRow !== null}
+                    title="只重新翻译这一段"
+                  >
+                    {translatingRow === rowIndex ? '翻译中...' : '翻译'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default SegmentEditor
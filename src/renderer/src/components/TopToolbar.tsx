@@ -3,6 +3,7 @@ import { configService } from '../services/configService'
 import { fileService } from '../services/fileService'
 import { gitService } from '../services/gitService'
 import { ProjectConfig } from '../types/config'
+import { getActiveLanguage, getLanguageName, getTargetLanguages } from '../utils/languages'
 import './TopToolbar.css'
 
 interface TopToolbarProps {
@@ -207,6 +208,24 @@ const TopToolbar: React.FC<TopToolbarProps> = ({ onFileTreeRefresh }) => {
     }
   }
 
+  const handleLanguageChange = async (language: string): Promise<void> => {
+    if (!activeProject) return
+
+    try {
+      await configService.updateProject(activeProject.path, {
+        activeLanguage: language
+      })
+
+      // 不同语言的译文路径和翻译状态不同，需要刷新文件树
+      if (onFileTreeRefresh) {
+        onFileTreeRefresh()
+      }
+    } catch (error) {
+      console.error('切换目标语言失败:', error)
+      alert('切换目标语言失败: ' + (error as Error).message)
+    }
+  }
+
   const handleSync = async () => {
     if (!activeProject) {
       alert('请先选择一个项目')
@@ -337,6 +356,22 @@ const TopToolbar: React.FC<TopToolbarProps> = ({ onFileTreeRefresh }) => {
         </select>
       </div>
 
+      <div className="toolbar-section">
+        <label className="toolbar-label">目标语言:</label>
+        <select
+          className="select language-select"
+          value={getActiveLanguage(activeProject)}
+          onChange={(e) => handleLanguageChange(e.target.value)}
+          disabled={!activeProject}
+        >
+          {getTargetLanguages(activeProject).map((language) => (
+            <option key={language} value={language}>
+              {getLanguageName(language)} ({language})
+            </option>
+          ))}
+        </select>
+      </div>
+
       <div className="toolbar-divider"></div>
 
       <div className="toolbar-section">
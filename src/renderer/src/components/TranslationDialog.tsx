@@ -2,6 +2,12 @@ import React, { useState, useEffect } from 'react'
 import { FileItem } from '../services/fileService'
 import { configService } from '../services/configService'
 import { fileService } from '../services/fileService'
+import {
+  ERROR_CATEGORY_LABELS,
+  parseTranslationError,
+  TranslationErrorCategory
+} from '../utils/translationErrors'
+import { isLLMConfigured } from '../utils/llmProviders'
 import './TranslationDialog.css'
 
 interface TranslationDialogProps {
@@ -13,6 +19,14 @@ interface TranslationDialogProps {
   workingBranch: string
 }
 
+interface TranslationResult {
+  success: boolean
+  error?: string
+  category?: TranslationErrorCategory
+  failedCells?: number[] // 部分成功的 Notebook 中翻译失败的单元格（从 1 开始）
+  failedKeys?: string[] // 部分成功的资源文件中翻译失败的键
+}
+
 interface TranslationProgress {
   total: number
   completed: number
@@ -20,7 +34,7 @@ interface TranslationProgress {
   current: string
   currentFiles: string[]
   isTranslating: boolean
-  results: { [filePath: string]: { success: boolean; error?: string } }
+  results: { [filePath: string]: TranslationResult }
 }
 
 // 格式化文件大小
@@ -47,6 +61,7 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
   const [fileSizeFilter, setFileSizeFilter] = useState<{ min: number; max: number }>({ min: 0, max: Infinity })
   const [fileTypeFilter, setFileTypeFilter] = useState<string[]>([])
   const [fileNameFilter, setFileNameFilter] = useState<string>('')
+  const [incrementalOutdated, setIncrementalOutdated] = useState(true)
   const [progress, setProgress] = useState<TranslationProgress>({
     total: 0,
     completed: 0,
@@ -113,6 +128,21 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
     return filterRecursive(files)
   }
 
+  // 获取文件路径到状态的映射
+  const getFileStatusMap = (
+    items: FileItem[],
+    map: Map<string, FileItem['status']> = new Map()
+  ): Map<string, FileItem['status']> => {
+    items.forEach((item) => {
+      if (item.children) {
+        getFileStatusMap(item.children, map)
+      } else {
+        map.set(item.path, item.status)
+      }
+    })
+    return map
+  }
+
   // 获取所有文件路径（不包括文件夹）
   const getAllFilePaths = (items: FileItem[]): string[] => {
     const paths: string[] = []
@@ -220,8 +250,46 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
       return
     }
 
+    await runTranslation(selectedFiles)
+  }
+
+  // 重试上一轮翻译失败的文件，保留已成功文件的结果
+  const handleRetryFailed = async (): Promise<void> => {
+    const failedFiles = Object.entries(progress.results)
+      .filter(([, result]) => !result.success)
+      .map(([filePath]) => filePath)
+    if (failedFiles.length === 0) return
+
+    const previousResults = Object.fromEntries(
+      Object.entries(progress.results).filter(([, result]) => result.success)
+    )
+    await runTranslation(failedFiles, previousResults)
+  }
+
+  // 只重试部分成功的 Notebook 中失败的单元格和资源文件中失败的键
+  const handleRetryFailedCells = async (): Promise<void> => {
+    const partialFiles = getPartialResults().map(([filePath]) => filePath)
+    if (partialFiles.length === 0) return
+
+    const previousResults = Object.fromEntries(
+      Object.entries(progress.results).filter(([filePath]) => !partialFiles.includes(filePath))
+    )
+    await runTranslation(partialFiles, previousResults, true)
+  }
+
+  const getPartialResults = (): Array<[string, TranslationResult]> =>
+    Object.entries(progress.results).filter(
+      ([, result]) => result.success && (result.failedCells || result.failedKeys)
+    )
+
+  const runTranslation = async (
+    filePaths: string[],
+    previousResults: { [filePath: string]: TranslationResult } = {},
+    retryFailedCells = false
+  ): Promise<void> => {
     const config = configService.getConfig()
-    if (!config?.llmConfig.apiKey) {
+    const activeProject = config?.projects.find((p) => p.path === projectPath)
+    if (!config || !isLLMConfigured(config, activeProject)) {
       alert('请先在设置中配置 LLM API Key')
       return
     }
@@ -229,18 +297,18 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
     const concurrency = config.llmConfig.concurrency || 3
 
     setProgress({
-      total: selectedFiles.length,
+      total: filePaths.length,
       completed: 0,
       failed: 0,
       current: '',
       currentFiles: [],
       isTranslating: true,
-      results: {}
+      results: previousResults
     })
 
     try {
       // 使用并发翻译
-      await translateWithConcurrency(selectedFiles, concurrency)
+      await translateWithConcurrency(filePaths, concurrency, previousResults, retryFailedCells)
     } finally {
       setProgress(prev => ({
         ...prev,
@@ -251,18 +319,24 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
   }
 
   // 并发翻译函数
-  const translateWithConcurrency = async (files: string[], concurrency: number) => {
-    const results = new Map<string, { success: boolean; error?: string }>()
+  const translateWithConcurrency = async (
+    filePaths: string[],
+    concurrency: number,
+    previousResults: { [filePath: string]: TranslationResult },
+    retryFailedCells: boolean
+  ): Promise<void> => {
+    const results = new Map<string, TranslationResult>(Object.entries(previousResults))
+    const statusMap = getFileStatusMap(files)
     let completed = 0
     let failed = 0
     let index = 0
 
     // 创建并发任务处理器
     const processFile = async (): Promise<void> => {
-      while (index < files.length) {
+      while (index < filePaths.length) {
         const currentIndex = index++
-        const filePath = files[currentIndex]
-        
+        const filePath = filePaths[currentIndex]
+
         // 更新当前处理的文件 - 添加到处理队列
         setProgress(prev => ({
           ...prev,
@@ -271,18 +345,28 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
         }))
 
         try {
-          await fileService.translateFile(
+          // 已过时的文件可以只翻译上游变更的部分
+          const mode =
+            incrementalOutdated && statusMap.get(filePath) === 'outdated' ? 'incremental' : 'full'
+          const result = await fileService.translateFile(
             projectPath,
             filePath,
             upstreamBranch,
-            workingBranch
+            workingBranch,
+            { mode, retryFailedCells }
           )
-          
+
           completed++
-          results.set(filePath, { success: true })
+          results.set(filePath, {
+            success: true,
+            failedCells: result.failedCells,
+            failedKeys: result.failedKeys
+          })
         } catch (error) {
+          // 失败的文件不会被写入，保持原有状态
+          const { category, message } = parseTranslationError(error)
           failed++
-          results.set(filePath, { success: false, error: (error as Error).message })
+          results.set(filePath, { success: false, error: message, category })
         }
 
         // 更新进度 - 从处理队列中移除
@@ -307,6 +391,30 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
     await Promise.all(tasks)
   }
 
+  const getResultClass = (result: TranslationResult): string => {
+    if (!result.success) return 'error'
+    return result.failedCells || result.failedKeys ? 'partial' : 'success'
+  }
+
+  const getFailedCellsText = (result: TranslationResult): string | undefined => {
+    if (result.failedCells)
+      return `第 ${result.failedCells.join('、')} 个单元格翻译失败，已保留原文`
+    if (result.failedKeys) return `${result.failedKeys.join('、')} 翻译失败，已保留原文`
+    return undefined
+  }
+
+  // 按错误类型统计失败的文件数量
+  const getFailedCategoryCounts = (): Array<[TranslationErrorCategory, number]> => {
+    const counts = new Map<TranslationErrorCategory, number>()
+    Object.values(progress.results)
+      .filter((result) => !result.success)
+      .forEach((result) => {
+        const category = result.category || 'unknown'
+        counts.set(category, (counts.get(category) || 0) + 1)
+      })
+    return Array.from(counts.entries())
+  }
+
   // 渲染文件树
   const renderFileTree = (items: FileItem[], level = 0) => {
     return items.map(item => (
@@ -348,8 +456,18 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
               )}
               {item.modified && <span className="modified-indicator">M</span>}
               {progress.results[item.path] && (
-                <span className={`translation-result ${progress.results[item.path].success ? 'success' : 'error'}`}>
-                  {progress.results[item.path].success ? '✓' : '✗'}
+                <span
+                  className={`translation-result ${getResultClass(progress.results[item.path])}`}
+                  title={
+                    progress.results[item.path].error ||
+                    getFailedCellsText(progress.results[item.path])
+                  }
+                >
+                  {progress.results[item.path].success
+                    ? getResultClass(progress.results[item.path]) === 'partial'
+                      ? '◐ 部分失败'
+                      : '✓'
+                    : `✗ ${ERROR_CATEGORY_LABELS[progress.results[item.path].category || 'unknown']}`}
                 </span>
               )}
             </>
@@ -496,7 +614,19 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
                 </div>
               )}
             </div>
-            
+
+            <div className="translation-options">
+              <label className="translation-option">
+                <input
+                  type="checkbox"
+                  checked={incrementalOutdated}
+                  onChange={(e) => setIncrementalOutdated(e.target.checked)}
+                  disabled={progress.isTranslating}
+                />
+                <span>已过时文件仅增量翻译上游变更的段落（保留已审校的译文）</span>
+              </label>
+            </div>
+
             <div className="selection-controls">
               <button 
                 className="btn btn-sm"
@@ -551,14 +681,47 @@ const TranslationDialog: React.FC<TranslationDialogProps> = ({
               <div className="summary-stats">
                 <span className="success-count">成功: {progress.completed}</span>
                 <span className="error-count">失败: {progress.failed}</span>
+                {getPartialResults().length > 0 && (
+                  <span className="partial-count">部分失败: {getPartialResults().length}</span>
+                )}
               </div>
+              {getPartialResults().length > 0 && (
+                <div className="error-details">
+                  <div className="error-details-header">
+                    <h4>部分内容翻译失败的文件:</h4>
+                    <button className="btn btn-sm btn-primary" onClick={handleRetryFailedCells}>
+                      重试失败的部分 ({getPartialResults().length})
+                    </button>
+                  </div>
+                  {getPartialResults().map(([filePath, result]) => (
+                    <div key={filePath} className="error-item">
+                      <strong>{filePath}:</strong> {getFailedCellsText(result)}
+                    </div>
+                  ))}
+                </div>
+              )}
               {progress.failed > 0 && (
                 <div className="error-details">
-                  <h4>失败的文件:</h4>
+                  <div className="error-details-header">
+                    <h4>失败的文件:</h4>
+                    <button className="btn btn-sm btn-primary" onClick={handleRetryFailed}>
+                      重试失败的文件 ({progress.failed})
+                    </button>
+                  </div>
+                  <div className="error-categories">
+                    {getFailedCategoryCounts().map(([category, count]) => (
+                      <span key={category} className={`error-category ${category}`}>
+                        {ERROR_CATEGORY_LABELS[category]}: {count}
+                      </span>
+                    ))}
+                  </div>
                   {Object.entries(progress.results)
                     .filter(([, result]) => !result.success)
                     .map(([filePath, result]) => (
                       <div key={filePath} className="error-item">
+                        <span className={`error-category ${result.category || 'unknown'}`}>
+                          {ERROR_CATEGORY_LABELS[result.category || 'unknown']}
+                        </span>
                         <strong>{filePath}:</strong> {result.error}
                       </div>
                     ))
@@ -6,6 +6,10 @@ export interface FileItem {
   children?: FileItem[]
   lastHash?: string
   size?: number // 文件大小（字节）
+  qa?: QASummary // 最近一次翻译或保存时的质量检查结果
+  failedCells?: number[] // Notebook 中上次翻译失败的单元格（从 1 开始），全部成功时不设置
+  failedKeys?: string[] // 资源文件中上次翻译失败、仍为原文的键
+  poStats?: PoStats // gettext 消息目录中已翻译、fuzzy 和未翻译的条目数量
 }
 
 export interface FileStatus {
@@ -13,6 +17,10 @@ export interface FileStatus {
   status: 'translated' | 'outdated' | 'untranslated'
   modified?: boolean
   lastHash?: string
+  qa?: QASummary
+  failedCells?: number[]
+  failedKeys?: string[]
+  poStats?: PoStats
 }
 
 export interface FileContent {
@@ -20,6 +28,92 @@ export interface FileContent {
   translated: string
   status: 'translated' | 'outdated' | 'untranslated'
   hasChanges?: boolean
+  failedCells?: number[]
+  failedKeys?: string[]
+}
+
+export interface SourceDiffLine {
+  type: 'unchanged' | 'added' | 'removed' | 'changed'
+  content: string
+  oldLineNumber?: number
+  newLineNumber?: number
+}
+
+export interface SourceDiffHunk {
+  type: 'added' | 'removed' | 'changed'
+  oldStart: number
+  oldCount: number
+  newStart: number
+  newCount: number
+}
+
+export interface SourceDiff {
+  oldHash: string
+  newHash: string
+  lines: SourceDiffLine[]
+  hunks: SourceDiffHunk[]
+  changedCells?: number[] // Notebook 中新增或内容变化的单元格索引（从 0 开始）
+}
+
+// 翻译模式：full 为整篇翻译，incremental 为仅重新翻译上游变更的块
+export type TranslationMode = 'full' | 'incremental'
+
+export interface TranslateFileOptions {
+  mode?: TranslationMode
+  stream?: boolean // 是否流式推送译文，通过 onTranslationDelta 接收
+  retryFailedCells?: boolean // 只重新翻译 Notebook 上次失败的单元格或资源文件上次失败的键
+}
+
+// 流式翻译的增量输出，replace 为 true 时 delta 为当前完整译文
+export interface TranslationDeltaEvent {
+  projectPath: string
+  filePath: string
+  delta: string
+  replace: boolean
+}
+
+// 译文中未按术语表处理的术语，expected 为应出现的译法（不翻译的术语为原文）
+export interface GlossaryViolation {
+  term: string
+  expected: string
+  doNotTranslate: boolean
+  occurrences: number
+}
+
+// 译文结构检查发现的问题，error 为结构错误，warning 为需要人工确认的差异
+export interface QAIssue {
+  rule:
+    | 'heading'
+    | 'code-block'
+    | 'link'
+    | 'inline-code'
+    | 'front-matter'
+    | 'html-tag'
+    | 'placeholder'
+    | 'directive'
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface QASummary {
+  errors: number
+  warnings: number
+}
+
+// gettext 消息目录的条目统计，不含文件头和废弃条目
+export interface PoStats {
+  total: number
+  translated: number
+  fuzzy: number
+  untranslated: number
+}
+
+export interface TranslateFileResult {
+  mode: TranslationMode
+  translatedBlocks?: number
+  reusedBlocks?: number
+  failedCells?: number[] // Notebook 中翻译失败的单元格（从 1 开始）
+  failedKeys?: string[] // 资源文件中翻译失败的键
 }
 
 export class FileService {
@@ -83,28 +177,75 @@ export class FileService {
     )
   }
 
-  async saveFileContent(
+  async getSourceDiff(
     projectPath: string,
     filePath: string,
-    content: string
-  ): Promise<void> {
-    await window.api.files.saveFileContent(projectPath, filePath, content)
+    upstreamBranch: string,
+    workingBranch: string
+  ): Promise<SourceDiff | null> {
+    return await window.api.files.getSourceDiff(
+      projectPath,
+      filePath,
+      upstreamBranch,
+      workingBranch
+    )
+  }
+
+  // 返回实际写入的内容，消息目录保存时会去掉已审校条目的 fuzzy 标记
+  async saveFileContent(projectPath: string, filePath: string, content: string): Promise<string> {
+    return await window.api.files.saveFileContent(projectPath, filePath, content)
   }
 
   async translateFile(
     projectPath: string,
     filePath: string,
     upstreamBranch: string,
-    workingBranch: string
-  ): Promise<void> {
-    await window.api.files.translateFile(
+    workingBranch: string,
+    options?: TranslateFileOptions
+  ): Promise<TranslateFileResult> {
+    return await window.api.files.translateFile(
       projectPath,
       filePath,
       upstreamBranch,
-      workingBranch
+      workingBranch,
+      options
     )
   }
 
+  async cancelTranslation(projectPath: string, filePath: string): Promise<boolean> {
+    return await window.api.files.cancelTranslation(projectPath, filePath)
+  }
+
+  // 翻译单个段落，context 为相邻的原文段落，仅用于帮助模型理解上下文
+  async translateSegment(
+    projectPath: string,
+    content: string,
+    context?: { before?: string; after?: string }
+  ): Promise<string> {
+    return await window.api.files.translateSegment(projectPath, content, context)
+  }
+
+  async checkGlossary(
+    projectPath: string,
+    original: string,
+    translated: string
+  ): Promise<GlossaryViolation[]> {
+    return await window.api.files.checkGlossary(projectPath, original, translated)
+  }
+
+  async runQAChecks(
+    projectPath: string,
+    filePath: string,
+    original: string,
+    translated: string
+  ): Promise<QAIssue[]> {
+    return await window.api.files.runQAChecks(projectPath, filePath, original, translated)
+  }
+
+  onTranslationDelta(callback: (event: TranslationDeltaEvent) => void): () => void {
+    return window.api.files.onTranslationDelta(callback)
+  }
+
   async clearProjectCache(projectPath: string): Promise<void> {
     await window.api.files.clearProjectCache(projectPath)
   }
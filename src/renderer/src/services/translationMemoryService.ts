@@ -0,0 +1,28 @@
+// 翻译记忆库的条目统计
+export interface TranslationMemoryStats {
+  total: number
+  languagePairs: Array<{ sourceLanguage: string; targetLanguage: string; count: number }>
+}
+
+export class TranslationMemoryService {
+  async getStats(): Promise<TranslationMemoryStats> {
+    return await window.api.memory.getStats()
+  }
+
+  // 导入 TMX 文件，返回导入的条目数，用户取消时返回 null
+  async importTMX(): Promise<number | null> {
+    return await window.api.memory.importTMX()
+  }
+
+  // 导出为 TMX 文件，返回导出的条目数，用户取消时返回 null
+  async exportTMX(): Promise<number | null> {
+    return await window.api.memory.exportTMX()
+  }
+
+  async clear(): Promise<void> {
+    await window.api.memory.clear()
+  }
+}
+
+// 创建单例实例
+export const translationMemoryService = new TranslationMemoryService()
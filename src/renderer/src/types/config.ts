@@ -9,6 +9,36 @@ export interface ProjectConfig {
   fileTypes: string[]
   lastSyncHash?: string
   customPrompt?: string
+  targetPathTemplate?: string // 译文路径模板，为空时原地覆盖原文
+  sourceLanguage?: string // 原文语言代码，默认 en
+  targetLanguages?: string[] // 目标语言代码列表，默认 ['zh-CN']
+  activeLanguage?: string // 当前正在处理的目标语言
+  llmConfig?: ProjectLLMConfig // 项目单独使用的 LLM 服务，未设置的项沿用全局配置
+  glossary?: GlossaryEntry[] // 项目术语表
+  frontMatterKeys?: string[] // Front Matter 中需要翻译的字段，默认为 title、description、sidebar_label
+  translateCodeComments?: boolean // 翻译 Notebook 代码单元格中的注释和文档字符串
+  bilingualNotebooks?: boolean // Notebook 译文保留原文单元格，每个 markdown 单元格后紧跟其译文
+  bilingualMarkdown?: boolean // Markdown 译文逐块双语对照，每个原文块后紧跟其译文
+  bilingualWrapper?: string // 双语 Markdown 中包裹译文的 HTML/MDX 模板，{translation} 处替换为译文，为空时不包裹
+}
+
+// 术语表条目：doNotTranslate 为 true 时术语保持原文不翻译
+export interface GlossaryEntry {
+  term: string
+  translation: string
+  doNotTranslate?: boolean
+  caseSensitive?: boolean
+  language?: string // 只对该目标语言生效，为空时对所有目标语言生效
+}
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'azure' | 'ollama'
+
+export interface ProjectLLMConfig {
+  provider?: LLMProviderType
+  apiKey?: string
+  model?: string
+  baseUrl?: string
+  apiVersion?: string
 }
 
 export interface PromptTemplate {
@@ -24,12 +54,19 @@ export interface AppConfig {
   projects: ProjectConfig[]
   activeProjectPath?: string
   llmConfig: {
+    provider?: LLMProviderType // 服务类型，默认 openai
     apiKey: string
     model: string
     baseUrl?: string
+    apiVersion?: string // Azure OpenAI 的 API 版本
     temperature?: number
     maxTokens?: number
     concurrency?: number
+    chunkSize?: number // 长文档分块翻译时每块的最大字符数
+    chunkRetries?: number // 单个分块翻译失败后的重试次数
+    requestsPerMinute?: number // 每分钟最多请求数，未设置时不限制
+    tokensPerMinute?: number // 每分钟最多 token 数，未设置时不限制
+    maxRetries?: number // 限流或网络错误时的最大重试次数
   }
   globalPrompt: string
   promptTemplates?: PromptTemplate[]
@@ -0,0 +1,181 @@
+import React from 'react'
+
+// 只读预览使用的简单语法高亮：只区分注释、字符串、数字和关键字，不做完整的语法分析
+
+const KEYWORDS: Record<string, string[]> = {
+  python: [
+    'False',
+    'None',
+    'True',
+    'and',
+    'as',
+    'assert',
+    'async',
+    'await',
+    'break',
+    'class',
+    'continue',
+    'def',
+    'del',
+    'elif',
+    'else',
+    'except',
+    'finally',
+    'for',
+    'from',
+    'global',
+    'if',
+    'import',
+    'in',
+    'is',
+    'lambda',
+    'nonlocal',
+    'not',
+    'or',
+    'pass',
+    'raise',
+    'return',
+    'try',
+    'while',
+    'with',
+    'yield'
+  ],
+  javascript: [
+    'async',
+    'await',
+    'break',
+    'case',
+    'catch',
+    'class',
+    'const',
+    'continue',
+    'default',
+    'else',
+    'export',
+    'extends',
+    'false',
+    'finally',
+    'for',
+    'from',
+    'function',
+    'if',
+    'import',
+    'in',
+    'instanceof',
+    'let',
+    'new',
+    'null',
+    'return',
+    'switch',
+    'this',
+    'throw',
+    'true',
+    'try',
+    'typeof',
+    'undefined',
+    'var',
+    'while',
+    'yield'
+  ],
+  r: [
+    'break',
+    'else',
+    'FALSE',
+    'for',
+    'function',
+    'if',
+    'in',
+    'NA',
+    'next',
+    'NULL',
+    'repeat',
+    'return',
+    'TRUE',
+    'while'
+  ],
+  bash: [
+    'case',
+    'do',
+    'done',
+    'elif',
+    'else',
+    'esac',
+    'export',
+    'fi',
+    'for',
+    'function',
+    'if',
+    'in',
+    'local',
+    'then',
+    'while'
+  ]
+}
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  py: 'python',
+  ipython: 'python',
+  ipython3: 'python',
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  typescript: 'javascript',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash'
+}
+
+// 使用 # 作为行注释的语言，其余语言按 // 和 /* */ 处理
+const HASH_COMMENT_LANGUAGES = ['python', 'r', 'bash', 'julia', 'ruby', 'perl', 'yaml', 'toml']
+
+function createTokenRegex(language: string): RegExp {
+  const comment = HASH_COMMENT_LANGUAGES.includes(language)
+    ? '#[^\\n]*'
+    : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?\\*\\/'
+  const strings =
+    '"""[\\s\\S]*?"""|\'\'\'[\\s\\S]*?\'\'\'|"(?:[^"\\\\\\n]|\\\\.)*"|\'(?:[^\'\\\\\\n]|\\\\.)*\'|`(?:[^`\\\\]|\\\\.)*`'
+  return new RegExp(
+    `(?<comment>${comment})|(?<string>${strings})|(?<number>\\b\\d+(?:\\.\\d+)?\\b)|(?<word>[A-Za-z_]\\w*)`,
+    'g'
+  )
+}
+
+/**
+ * 将代码拆分为带高亮样式的片段，未知语言按 Python 的关键字处理
+ */
+export function highlightCode(code: string, language: string = 'python'): React.ReactNode[] {
+  const normalized = LANGUAGE_ALIASES[language.toLowerCase()] || language.toLowerCase()
+  const keywords = new Set(KEYWORDS[normalized] || KEYWORDS.python)
+  const nodes: React.ReactNode[] = []
+  let lastIndex = 0
+
+  for (const match of code.matchAll(createTokenRegex(normalized))) {
+    const groups = match.groups!
+    const type = groups.comment
+      ? 'comment'
+      : groups.string
+        ? 'string'
+        : groups.number
+          ? 'number'
+          : keywords.has(match[0])
+            ? 'keyword'
+            : null
+    if (!type) continue
+
+    if (match.index! > lastIndex) {
+      nodes.push(code.slice(lastIndex, match.index))
+    }
+    nodes.push(
+      <span key={match.index} className={`tok-${type}`}>
+        {match[0]}
+      </span>
+    )
+    lastIndex = match.index! + match[0].length
+  }
+
+  if (lastIndex < code.length) {
+    nodes.push(code.slice(lastIndex))
+  }
+  return nodes
+}
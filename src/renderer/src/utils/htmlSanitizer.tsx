@@ -0,0 +1,166 @@
+import React from 'react'
+
+// 将 Markdown 中嵌入的 HTML 转换为 React 元素：只保留白名单中的标签和属性，不使用 innerHTML
+// 脚本、样式等标签连同内容一起丢弃，未知标签（如 MDX 组件）只保留其中的内容
+
+const ALLOWED_TAGS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'blockquote',
+  'br',
+  'caption',
+  'center',
+  'code',
+  'dd',
+  'del',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'em',
+  'figcaption',
+  'figure',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'hr',
+  'i',
+  'img',
+  'ins',
+  'kbd',
+  'li',
+  'mark',
+  'ol',
+  'p',
+  'pre',
+  'q',
+  's',
+  'samp',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'summary',
+  'sup',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+  'var'
+])
+
+const DROPPED_TAGS = new Set([
+  'script',
+  'style',
+  'iframe',
+  'frame',
+  'object',
+  'embed',
+  'link',
+  'meta',
+  'base',
+  'form',
+  'input',
+  'button',
+  'textarea',
+  'select',
+  'option',
+  'noscript',
+  'template',
+  'svg',
+  'math',
+  'audio',
+  'video',
+  'canvas'
+])
+
+const VOID_TAGS = new Set(['br', 'hr', 'img'])
+
+// 允许的属性及其对应的 React 属性名
+const ALLOWED_ATTRIBUTES: Record<string, string> = {
+  title: 'title',
+  alt: 'alt',
+  align: 'align',
+  colspan: 'colSpan',
+  rowspan: 'rowSpan',
+  width: 'width',
+  height: 'height'
+}
+
+function convertNode(node: Node, key: string): React.ReactNode {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return node.textContent
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return null
+  }
+
+  const element = node as Element
+  const tag = element.tagName.toLowerCase()
+  if (DROPPED_TAGS.has(tag)) {
+    return null
+  }
+
+  const children = Array.from(element.childNodes).map((child, index) =>
+    convertNode(child, `${key}-${index}`)
+  )
+  if (!ALLOWED_TAGS.has(tag)) {
+    return <React.Fragment key={key}>{children}</React.Fragment>
+  }
+
+  const attributes: Record<string, unknown> = {}
+  for (const [name, propName] of Object.entries(ALLOWED_ATTRIBUTES)) {
+    const value = element.getAttribute(name)
+    if (value !== null) attributes[propName] = value
+  }
+
+  // 链接不可点击（避免应用窗口跳转），只在悬停时显示地址
+  if (tag === 'a') {
+    return (
+      <span key={key} className="md-link" title={element.getAttribute('href') || undefined}>
+        {children}
+      </span>
+    )
+  }
+
+  // 只显示内嵌的图片，其它地址只显示替代文本
+  if (tag === 'img') {
+    const src = element.getAttribute('src') || ''
+    return src.startsWith('data:image/') ? (
+      <img key={key} {...attributes} src={src} />
+    ) : (
+      <span key={key} className="md-image" title={src}>
+        🖼 {element.getAttribute('alt') || src}
+      </span>
+    )
+  }
+
+  if (tag === 'details' && element.hasAttribute('open')) {
+    attributes.open = true
+  }
+
+  return React.createElement(
+    tag,
+    { ...attributes, key },
+    VOID_TAGS.has(tag) || children.length === 0 ? undefined : children
+  )
+}
+
+/**
+ * 安全地渲染一段 HTML，返回 React 元素
+ */
+export function renderSafeHtml(html: string, keyPrefix: string = 'html'): React.ReactNode[] {
+  const body = new DOMParser().parseFromString(html, 'text/html').body
+  return Array.from(body.childNodes).map((node, index) =>
+    convertNode(node, `${keyPrefix}-${index}`)
+  )
+}
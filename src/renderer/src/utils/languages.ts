@@ -0,0 +1,36 @@
+import { ProjectConfig } from '../types/config'
+
+export const DEFAULT_SOURCE_LANGUAGE = 'en'
+export const DEFAULT_TARGET_LANGUAGE = 'zh-CN'
+
+// 常用语言代码对应的名称，与主进程保持一致
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: '英文',
+  'zh-CN': '简体中文',
+  'zh-TW': '繁体中文',
+  ja: '日语',
+  ko: '韩语',
+  fr: '法语',
+  de: '德语',
+  es: '西班牙语',
+  pt: '葡萄牙语',
+  ru: '俄语'
+}
+
+export function getLanguageName(code: string): string {
+  return LANGUAGE_NAMES[code] || code
+}
+
+export function getTargetLanguages(project?: ProjectConfig | null): string[] {
+  return project?.targetLanguages && project.targetLanguages.length > 0
+    ? project.targetLanguages
+    : [DEFAULT_TARGET_LANGUAGE]
+}
+
+// 获取项目当前的目标语言，未设置或已不在列表中时使用第一个目标语言
+export function getActiveLanguage(project?: ProjectConfig | null): string {
+  const languages = getTargetLanguages(project)
+  return project?.activeLanguage && languages.includes(project.activeLanguage)
+    ? project.activeLanguage
+    : languages[0]
+}
@@ -0,0 +1,25 @@
+import { AppConfig, LLMProviderType, ProjectConfig } from '../types/config'
+
+// 服务类型的显示名称，与主进程的适配器保持一致
+export const LLM_PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  openai: 'OpenAI 兼容',
+  anthropic: 'Anthropic',
+  azure: 'Azure OpenAI',
+  ollama: 'Ollama / llama.cpp 本地'
+}
+
+// 本地服务不需要 API Key
+export function requiresApiKey(provider?: LLMProviderType): boolean {
+  return provider !== 'ollama'
+}
+
+/**
+ * 检查项目实际使用的 LLM 服务是否已配置好 API Key（项目配置优先于全局配置）
+ */
+export function isLLMConfigured(config: AppConfig | null, project?: ProjectConfig | null): boolean {
+  if (!config) return false
+
+  const provider = project?.llmConfig?.provider || config.llmConfig.provider
+  const apiKey = project?.llmConfig?.apiKey || config.llmConfig.apiKey
+  return !requiresApiKey(provider) || !!apiKey
+}
@@ -0,0 +1,389 @@
+import React from 'react'
+import { highlightCode } from './codeHighlight'
+import { renderSafeHtml } from './htmlSanitizer'
+
+// 只读预览使用的 Markdown 渲染：生成 React 元素而不是 HTML 字符串，支持 GFM 表格、任务列表和删除线，
+// 以及 Docusaurus 的 ::: 提示块和 GitHub 的 > [!NOTE] 提示块；嵌入的 HTML 经过白名单过滤后渲染
+// 链接不可点击（避免应用窗口跳转），只在悬停时显示地址
+
+const FENCE_OPEN_REGEX = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/
+const HEADING_REGEX = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/
+const HR_REGEX = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/
+const TABLE_DELIMITER_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+const TASK_ITEM_REGEX = /^\[([ xX])\]\s+/
+const ADMONITION_OPEN_REGEX = /^\s{0,3}(:{3,})\s*([A-Za-z]+)(?:\[(.*)\]|\s+(.*?))?\s*$/
+const GITHUB_ALERT_REGEX = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*$/i
+// 按 HTML 渲染的块：常见的块级标签、MDX 组件（大写开头）和 HTML 注释；脚本等标签也按 HTML 处理以便过滤掉
+const HTML_BLOCK_REGEX =
+  /^\s{0,3}(<!--|<\/?(div|details|summary|table|thead|tbody|tr|td|th|p|pre|figure|figcaption|center|h[1-6]|ul|ol|li|dl|dt|dd|blockquote|section|picture|img|hr|br|iframe|script|style|[A-Z][\w.]*)(\s|\/?>|$))/
+
+// 提示块的类型和默认标题，Docusaurus 与 GitHub 的类型名统一处理
+const ADMONITION_TYPES: Record<string, { icon: string; label: string }> = {
+  note: { icon: 'ℹ️', label: '备注' },
+  info: { icon: 'ℹ️', label: '信息' },
+  tip: { icon: '💡', label: '提示' },
+  important: { icon: '❗', label: '重要' },
+  caution: { icon: '⚠️', label: '注意' },
+  warning: { icon: '⚠️', label: '警告' },
+  danger: { icon: '🔥', label: '危险' }
+}
+
+// 按 HTML 渲染的行内标签，其它尖括号内容（如 List<String>）按普通文本显示
+const INLINE_HTML_TAGS =
+  'a|abbr|b|br|code|del|em|i|img|ins|kbd|mark|q|s|small|span|strong|sub|sup|u|var|script|style|iframe'
+
+// 行内元素，按顺序匹配，先匹配到的优先
+const INLINE_REGEX = new RegExp(
+  [
+    '(?<code>(?<ticks>`+)(?<codeText>[\\s\\S]+?)\\k<ticks>)',
+    '(?<image>!\\[(?<imageAlt>[^\\]]*)\\]\\((?<imageUrl>[^)\\s]*)[^)]*\\))',
+    '(?<link>\\[(?<linkText>[^\\]]+)\\]\\((?<linkUrl>[^)\\s]*)[^)]*\\))',
+    '(?<autolink><(?<autolinkUrl>https?:\\/\\/[^>\\s]+)>)',
+    '(?<comment><!--[\\s\\S]*?-->|\\{\\/\\*[\\s\\S]*?\\*\\/\\})',
+    `(?<html><(?<tag>${INLINE_HTML_TAGS})\\b[^>]*>(?:[\\s\\S]*?<\\/\\k<tag>\\s*>)?)`,
+    '(?<url>https?:\\/\\/[^\\s<>()]*[^\\s<>().,;:!?\'"])',
+    '(?<strong>\\*\\*(?<strongText>[\\s\\S]+?)\\*\\*|__(?<strongAlt>[\\s\\S]+?)__)',
+    '(?<del>~~(?<delText>[\\s\\S]+?)~~)',
+    '(?<em>\\*(?<emText>[^*\\s](?:[\\s\\S]*?[^*\\s])?)\\*|\\b_(?<emAlt>[^_\\s](?:[\\s\\S]*?[^_\\s])?)_\\b)'
+  ].join('|'),
+  'g'
+)
+
+const isBlankLine = (line: string): boolean => line.trim() === ''
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim())
+}
+
+/**
+ * 渲染行内 Markdown：行内代码、图片、链接、加粗、斜体、删除线和行内 HTML
+ */
+export function renderInline(text: string, keyPrefix: string = ''): React.ReactNode[] {
+  const nodes: React.ReactNode[] = []
+  let lastIndex = 0
+
+  for (const match of text.matchAll(INLINE_REGEX)) {
+    const groups = match.groups!
+    const key = `${keyPrefix}${match.index}`
+    if (match.index! > lastIndex) {
+      nodes.push(text.slice(lastIndex, match.index))
+    }
+
+    if (groups.code) {
+      nodes.push(<code key={key}>{groups.codeText.trim()}</code>)
+    } else if (groups.image) {
+      // 只有内嵌的图片可以显示，其它地址只显示替代文本
+      nodes.push(
+        groups.imageUrl.startsWith('data:image/') ? (
+          <img key={key} src={groups.imageUrl} alt={groups.imageAlt} />
+        ) : (
+          <span key={key} className="md-image" title={groups.imageUrl}>
+            🖼 {groups.imageAlt || groups.imageUrl}
+          </span>
+        )
+      )
+    } else if (groups.link) {
+      nodes.push(
+        <span key={key} className="md-link" title={groups.linkUrl}>
+          {renderInline(groups.linkText, `${key}-`)}
+        </span>
+      )
+    } else if (groups.autolink || groups.url) {
+      const url = groups.autolinkUrl ?? groups.url
+      nodes.push(
+        <span key={key} className="md-link" title={url}>
+          {url}
+        </span>
+      )
+    } else if (groups.comment) {
+      // HTML 注释和 MDX 注释不显示
+    } else if (groups.html) {
+      nodes.push(...renderSafeHtml(groups.html, key))
+    } else if (groups.strong) {
+      nodes.push(
+        <strong key={key}>{renderInline(groups.strongText ?? groups.strongAlt, `${key}-`)}</strong>
+      )
+    } else if (groups.del) {
+      nodes.push(<del key={key}>{renderInline(groups.delText, `${key}-`)}</del>)
+    } else {
+      nodes.push(<em key={key}>{renderInline(groups.emText ?? groups.emAlt, `${key}-`)}</em>)
+    }
+    lastIndex = match.index! + match[0].length
+  }
+
+  if (lastIndex < text.length) {
+    nodes.push(text.slice(lastIndex))
+  }
+  return nodes
+}
+
+// 列表项的范围：之后缩进更深的行（以及其间的空行）属于同一项
+function findListItemEnd(lines: string[], start: number, indent: number): number {
+  let end = start + 1
+  while (end < lines.length) {
+    const line = lines[end]
+    if (isBlankLine(line)) {
+      const next = lines.slice(end + 1).find((candidate) => !isBlankLine(candidate))
+      if (!next || next.search(/\S/) <= indent) break
+    } else if (line.search(/\S/) <= indent) {
+      break
+    }
+    end++
+  }
+  return end
+}
+
+function renderList(
+  lines: string[],
+  start: number,
+  key: number
+): { element: React.ReactElement; end: number } {
+  const first = lines[start].match(LIST_ITEM_REGEX)!
+  const indent = first[1].length
+  const ordered = /\d/.test(first[2])
+  const items: React.ReactNode[] = []
+  let i = start
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM_REGEX)
+    if (!match || match[1].length !== indent || /\d/.test(match[2]) !== ordered) break
+
+    const end = findListItemEnd(lines, i, indent)
+    const contentIndent = match[1].length + match[2].length + 1
+    const continuation = lines
+      .slice(i + 1, end)
+      .map((line) => line.slice(Math.min(contentIndent, line.search(/\S|$/))))
+    const task = match[3].match(TASK_ITEM_REGEX)
+    const content = renderMarkdown(
+      [match[3].slice(task ? task[0].length : 0), ...continuation].join('\n')
+    )
+    items.push(
+      task ? (
+        <li key={i} className="task-item">
+          <input type="checkbox" checked={task[1] !== ' '} disabled readOnly />
+          {content}
+        </li>
+      ) : (
+        <li key={i}>{content}</li>
+      )
+    )
+
+    // 列表项之间允许空行
+    i = end
+    while (i < lines.length && isBlankLine(lines[i])) i++
+    if (i < lines.length && !LIST_ITEM_REGEX.test(lines[i])) {
+      i = end
+      break
+    }
+  }
+
+  const element = ordered ? <ol key={key}>{items}</ol> : <ul key={key}>{items}</ul>
+  return { element, end: i }
+}
+
+function renderTable(
+  lines: string[],
+  start: number,
+  key: number
+): { element: React.ReactElement; end: number } {
+  const header = splitTableRow(lines[start])
+  // 分隔行中的冒号决定各列的对齐方式
+  const alignments = splitTableRow(lines[start + 1]).map(
+    (cell): React.CSSProperties['textAlign'] => {
+      if (cell.startsWith(':') && cell.endsWith(':')) return 'center'
+      if (cell.endsWith(':')) return 'right'
+      return cell.startsWith(':') ? 'left' : undefined
+    }
+  )
+  let end = start + 2
+  while (end < lines.length && lines[end].includes('|') && !isBlankLine(lines[end])) end++
+
+  const rows = lines.slice(start + 2, end).map(splitTableRow)
+  const element = (
+    <table key={key}>
+      <thead>
+        <tr>
+          {header.map((cell, index) => (
+            <th key={index} style={{ textAlign: alignments[index] }}>
+              {renderInline(cell)}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row, rowIndex) => (
+          <tr key={rowIndex}>
+            {row.map((cell, index) => (
+              <td key={index} style={{ textAlign: alignments[index] }}>
+                {renderInline(cell)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+  return { element, end }
+}
+
+function renderAdmonition(
+  type: string,
+  title: string | undefined,
+  content: string,
+  key: number
+): React.ReactElement {
+  const admonition = ADMONITION_TYPES[type.toLowerCase()] || ADMONITION_TYPES.note
+  return (
+    <div key={key} className={`admonition admonition-${type.toLowerCase()}`}>
+      <div className="admonition-heading">
+        {admonition.icon} {title ? renderInline(title) : admonition.label}
+      </div>
+      <div className="admonition-content">{renderMarkdown(content)}</div>
+    </div>
+  )
+}
+
+// 是否开始一个新的块，段落遇到这些行时结束
+function isBlockStart(lines: string[], index: number): boolean {
+  const line = lines[index]
+  return (
+    FENCE_OPEN_REGEX.test(line) ||
+    HEADING_REGEX.test(line) ||
+    HR_REGEX.test(line) ||
+    /^\s{0,3}>/.test(line) ||
+    LIST_ITEM_REGEX.test(line) ||
+    ADMONITION_OPEN_REGEX.test(line) ||
+    HTML_BLOCK_REGEX.test(line) ||
+    (line.includes('|') && TABLE_DELIMITER_REGEX.test(lines[index + 1] || ''))
+  )
+}
+
+/**
+ * 渲染 Markdown 为 React 元素：标题、段落、列表、引用、表格、分隔线、围栏代码块、提示块和嵌入的 HTML
+ */
+export function renderMarkdown(markdown: string): React.ReactNode[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n')
+  const nodes: React.ReactNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (isBlankLine(line)) {
+      i++
+      continue
+    }
+
+    const fenceMatch = line.match(FENCE_OPEN_REGEX)
+    if (fenceMatch) {
+      const fence = fenceMatch[1]
+      let end = i + 1
+      while (
+        end < lines.length &&
+        !new RegExp(`^\\s{0,3}${fence[0]}{${fence.length},}\\s*$`).test(lines[end])
+      )
+        end++
+      const code = lines.slice(i + 1, end).join('\n')
+      nodes.push(
+        <pre key={i} className="md-code">
+          <code>{highlightCode(code, fenceMatch[2] || 'text')}</code>
+        </pre>
+      )
+      i = end + 1
+      continue
+    }
+
+    const headingMatch = line.match(HEADING_REGEX)
+    if (headingMatch) {
+      nodes.push(
+        React.createElement(`h${headingMatch[1].length}`, { key: i }, renderInline(headingMatch[2]))
+      )
+      i++
+      continue
+    }
+
+    if (HR_REGEX.test(line)) {
+      nodes.push(<hr key={i} />)
+      i++
+      continue
+    }
+
+    // Docusaurus 提示块：:::tip[标题] ... :::，嵌套时外层使用更多的冒号
+    const admonitionMatch = line.match(ADMONITION_OPEN_REGEX)
+    if (admonitionMatch) {
+      const fence = admonitionMatch[1]
+      let end = i + 1
+      while (end < lines.length && lines[end].trim() !== fence) end++
+      const title = admonitionMatch[3] ?? admonitionMatch[4]
+      nodes.push(
+        renderAdmonition(
+          admonitionMatch[2],
+          title || undefined,
+          lines.slice(i + 1, end).join('\n'),
+          i
+        )
+      )
+      i = end + 1
+      continue
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      let end = i
+      while (end < lines.length && /^\s{0,3}>/.test(lines[end])) end++
+      const quotedLines = lines
+        .slice(i, end)
+        .map((quoteLine) => quoteLine.replace(/^\s{0,3}>\s?/, ''))
+      // GitHub 提示块：首行为 [!NOTE] 等标记的引用
+      const alertMatch = quotedLines[0].match(GITHUB_ALERT_REGEX)
+      nodes.push(
+        alertMatch ? (
+          renderAdmonition(alertMatch[1], undefined, quotedLines.slice(1).join('\n'), i)
+        ) : (
+          <blockquote key={i}>{renderMarkdown(quotedLines.join('\n'))}</blockquote>
+        )
+      )
+      i = end
+      continue
+    }
+
+    if (HTML_BLOCK_REGEX.test(line)) {
+      let end = i + 1
+      while (end < lines.length && !isBlankLine(lines[end])) end++
+      nodes.push(
+        <React.Fragment key={i}>
+          {renderSafeHtml(lines.slice(i, end).join('\n'), `html-${i}`)}
+        </React.Fragment>
+      )
+      i = end
+      continue
+    }
+
+    if (LIST_ITEM_REGEX.test(line)) {
+      const { element, end } = renderList(lines, i, i)
+      nodes.push(element)
+      i = end
+      continue
+    }
+
+    if (line.includes('|') && TABLE_DELIMITER_REGEX.test(lines[i + 1] || '')) {
+      const { element, end } = renderTable(lines, i, i)
+      nodes.push(element)
+      i = end
+      continue
+    }
+
+    // 段落：直到空行或下一个块
+    let end = i + 1
+    while (end < lines.length && !isBlankLine(lines[end]) && !isBlockStart(lines, end)) end++
+    nodes.push(<p key={i}>{renderInline(lines.slice(i, end).join('\n'))}</p>)
+    i = end
+  }
+
+  return nodes
+}
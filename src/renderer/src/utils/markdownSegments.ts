@@ -0,0 +1,188 @@
+import { MarkdownBlock, parseMarkdownBlocks } from '../../../shared/markdownBlocks'
+
+// 逐段对照编辑使用的 Markdown 段落：在 Markdown 块划分的基础上，列表按列表项、表格按行进一步拆分
+export type MarkdownSegmentType =
+  | 'blank'
+  | 'frontmatter'
+  | 'heading'
+  | 'code'
+  | 'table-row'
+  | 'table-delimiter'
+  | 'list-item'
+  | 'blockquote'
+  | 'html'
+  | 'paragraph'
+
+// content 为段落文本，separator 为段落之后到下一段之前的空白，拼接所有段落可以逐字节还原原文
+export interface MarkdownSegment {
+  type: MarkdownSegmentType
+  content: string
+  separator: string
+}
+
+// 对照行：sourceIndex / targetIndex 为原文和译文段落的下标，缺少对应段落时为 null
+export interface SegmentRow {
+  sourceIndex: number | null
+  targetIndex: number | null
+}
+
+const HEADING_LEVEL_REGEX = /^\s{0,3}(#{1,6})(\s|$)/
+const LIST_REGEX = /^\s*([-*+]|\d+[.)])\s/
+const TABLE_DELIMITER_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+// 超过该规模时不做最长公共子序列对齐，直接按顺序配对
+const MAX_ALIGN_CELLS = 4000000
+
+// 将一个块拆分为段落：列表按列表项、表格按行拆分，其余类型整体作为一个段落
+function splitBlock(block: MarkdownBlock): Array<{ type: MarkdownSegmentType; lines: string[] }> {
+  const blockLines = block.content.split('\n')
+
+  if (block.type === 'table') {
+    return blockLines.map((line) => ({
+      type: TABLE_DELIMITER_REGEX.test(line) ? 'table-delimiter' : 'table-row',
+      lines: [line]
+    }))
+  }
+
+  if (block.type === 'list') {
+    const items: Array<{ type: MarkdownSegmentType; lines: string[] }> = []
+    for (const line of blockLines) {
+      if (LIST_REGEX.test(line) || items.length === 0) {
+        items.push({ type: 'list-item', lines: [line] })
+      } else {
+        items[items.length - 1].lines.push(line)
+      }
+    }
+    return items
+  }
+
+  return [{ type: block.type, lines: blockLines }]
+}
+
+/**
+ * 将 Markdown/MDX 文本拆分为段落，块的划分与主进程共用 parseMarkdownBlocks
+ */
+export function parseMarkdownSegments(text: string): MarkdownSegment[] {
+  const segments: MarkdownSegment[] = []
+
+  for (const block of parseMarkdownBlocks(text)) {
+    // 列表项、表格行之间只有换行，最后一段的分隔符为整个块之后的空白
+    const parts = splitBlock(block)
+    parts.forEach((part, index) => {
+      segments.push({
+        type: part.type,
+        content: part.lines.join('\n'),
+        separator: index < parts.length - 1 ? '\n' : block.separator
+      })
+    })
+  }
+
+  return segments
+}
+
+/**
+ * 将段落重新拼接为文本
+ */
+export function joinMarkdownSegments(segments: MarkdownSegment[]): string {
+  return segments.map((segment) => segment.content + segment.separator).join('')
+}
+
+// 对齐时使用的段落特征：标题区分级别，其余按类型
+function getAlignKey(segment: MarkdownSegment): string {
+  if (segment.type === 'heading') {
+    return `heading:${segment.content.match(HEADING_LEVEL_REGEX)?.[1].length || 0}`
+  }
+  return segment.type
+}
+
+/**
+ * 按段落类型对齐原文和译文（最长公共子序列），空白段落不参与对齐
+ * 译文缺少或多出的段落单独成行，另一侧为 null
+ */
+export function alignSegments(source: MarkdownSegment[], target: MarkdownSegment[]): SegmentRow[] {
+  const sourceIndexes = source
+    .map((_, index) => index)
+    .filter((index) => source[index].type !== 'blank')
+  const targetIndexes = target
+    .map((_, index) => index)
+    .filter((index) => target[index].type !== 'blank')
+  const n = sourceIndexes.length
+  const m = targetIndexes.length
+
+  if (n * m > MAX_ALIGN_CELLS) {
+    return Array.from({ length: Math.max(n, m) }, (_, i) => ({
+      sourceIndex: i < n ? sourceIndexes[i] : null,
+      targetIndex: i < m ? targetIndexes[i] : null
+    }))
+  }
+
+  const sourceKeys = sourceIndexes.map((index) => getAlignKey(source[index]))
+  const targetKeys = targetIndexes.map((index) => getAlignKey(target[index]))
+
+  // lengths[i][j]：sourceKeys[i..] 与 targetKeys[j..] 的最长公共子序列长度
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] =
+        sourceKeys[i] === targetKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const rows: SegmentRow[] = []
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && sourceKeys[i] === targetKeys[j]) {
+      rows.push({ sourceIndex: sourceIndexes[i++], targetIndex: targetIndexes[j++] })
+    } else if (j < m && (i >= n || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      rows.push({ sourceIndex: null, targetIndex: targetIndexes[j++] })
+    } else {
+      rows.push({ sourceIndex: sourceIndexes[i++], targetIndex: null })
+    }
+  }
+
+  return rows
+}
+
+/**
+ * 替换指定下标的段落内容，返回拼接后的完整文本
+ */
+export function replaceSegment(
+  segments: MarkdownSegment[],
+  index: number,
+  content: string
+): string {
+  return joinMarkdownSegments(
+    segments.map((segment, i) => (i === index ? { ...segment, content } : segment))
+  )
+}
+
+/**
+ * 在 afterIndex 之后插入新段落（afterIndex 为 -1 时插入到开头），返回拼接后的完整文本
+ * separator 一般取对应原文段落的分隔符，保持与原文一致的空行；插入到末尾时沿用译文末尾原有的空白
+ */
+export function insertSegment(
+  segments: MarkdownSegment[],
+  afterIndex: number,
+  content: string,
+  separator: string
+): string {
+  const next = segments.map((segment) => ({ ...segment }))
+  const inserted: MarkdownSegment = { type: 'paragraph', content, separator: separator || '\n\n' }
+
+  // 插入到末尾时，原来结尾的空白移到新段落之后，前一段与新段落之间空一行
+  if (afterIndex >= 0 && afterIndex >= next.length - 1) {
+    inserted.separator = next[afterIndex].separator
+    next[afterIndex].separator = '\n\n'
+  }
+
+  next.splice(afterIndex + 1, 0, inserted)
+  return joinMarkdownSegments(next)
+}
+
+// 分隔行和空白段落不需要翻译
+export function isTranslatableSegment(segment: MarkdownSegment): boolean {
+  return segment.type !== 'blank' && segment.type !== 'table-delimiter'
+}
@@ -0,0 +1,38 @@
+// 翻译失败的类型，与主进程 llmErrors.ts 中的 LLMErrorCategory 保持一致
+export type TranslationErrorCategory =
+  | 'auth'
+  | 'rate_limit'
+  | 'context_length'
+  | 'network'
+  | 'invalid_response'
+  | 'cancelled'
+  | 'unknown'
+
+export const ERROR_CATEGORY_LABELS: Record<TranslationErrorCategory, string> = {
+  auth: '认证失败',
+  rate_limit: '请求限流',
+  context_length: '超出上下文长度',
+  network: '网络错误',
+  invalid_response: '响应无效',
+  cancelled: '已取消',
+  unknown: '其他错误'
+}
+
+export interface TranslationError {
+  category: TranslationErrorCategory
+  message: string
+}
+
+// 解析 IPC 返回的错误信息，主进程会在 message 中写入 [category] 前缀
+export function parseTranslationError(error: unknown): TranslationError {
+  const rawMessage = (error as Error)?.message || String(error)
+  const match = rawMessage.match(/\[([a-z_]+)\]\s*([\s\S]*)$/)
+
+  if (match && match[1] in ERROR_CATEGORY_LABELS) {
+    return { category: match[1] as TranslationErrorCategory, message: match[2] }
+  }
+
+  // 去掉 Electron 添加的 "Error invoking remote method ..." 前缀
+  const message = rawMessage.replace(/^Error invoking remote method '[^']+':\s*(Error:\s*)?/, '')
+  return { category: 'unknown', message }
+}
@@ -0,0 +1,157 @@
+// Markdown 块类型
+export type MarkdownBlockType =
+  | 'blank'
+  | 'frontmatter'
+  | 'heading'
+  | 'code'
+  | 'table'
+  | 'list'
+  | 'blockquote'
+  | 'html'
+  | 'paragraph'
+
+// Markdown 块：content 为块本身的文本，separator 为块之后到下一个块之前的空白（含换行）
+export interface MarkdownBlock {
+  type: MarkdownBlockType
+  content: string
+  separator: string
+}
+
+const FENCE_OPEN_REGEX = /^\s{0,3}(`{3,}|~{3,})/
+const HEADING_REGEX = /^\s{0,3}#{1,6}(\s|$)/
+const LIST_REGEX = /^\s*([-*+]|\d+[.)])\s/
+
+const isBlankLine = (line: string): boolean => line.trim() === ''
+
+// 查找围栏代码块的结束行（返回结束行之后的行号）
+function findFenceEnd(lines: string[], start: number): number {
+  const openMatch = lines[start].match(FENCE_OPEN_REGEX)
+  if (!openMatch) return start + 1
+
+  const fenceChar = openMatch[1][0]
+  const fenceLength = openMatch[1].length
+
+  for (let i = start + 1; i < lines.length; i++) {
+    const closeMatch = lines[i].match(/^\s{0,3}(`{3,}|~{3,})\s*$/)
+    if (closeMatch && closeMatch[1][0] === fenceChar && closeMatch[1].length >= fenceLength) {
+      return i + 1
+    }
+  }
+
+  // 未闭合的代码块延续到文件末尾
+  return lines.length
+}
+
+// 查找 YAML front matter 的结束行（返回结束行之后的行号），不存在时返回 -1
+function findFrontMatterEnd(lines: string[]): number {
+  if (lines.length === 0 || lines[0].trimEnd() !== '---') return -1
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trimEnd()
+    if (line === '---' || line === '...') {
+      return i + 1
+    }
+  }
+
+  return -1
+}
+
+// 根据段落的首行和全部行推断块类型
+function detectParagraphType(blockLines: string[]): MarkdownBlockType {
+  const first = blockLines[0].trim()
+
+  if (blockLines.every((line) => line.trim().startsWith('|'))) return 'table'
+  if (LIST_REGEX.test(blockLines[0])) return 'list'
+  if (first.startsWith('>')) return 'blockquote'
+  if (first.startsWith('<')) return 'html'
+  return 'paragraph'
+}
+
+/**
+ * 将 Markdown/MDX 文本拆分为块（front matter、标题、代码块、段落等）
+ * 拼接所有块的 content + separator 可以逐字节还原原文
+ */
+export function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  const lines = text.split('\n')
+  const blocks: MarkdownBlock[] = []
+
+  // 生成块：content 为 [start, end) 行，separator 为其后的空行直到下一块
+  const pushBlock = (type: MarkdownBlockType, start: number, end: number): number => {
+    let next = end
+    while (next < lines.length && isBlankLine(lines[next])) {
+      next++
+    }
+
+    const content = lines.slice(start, end).join('\n')
+    const full = lines.slice(start, next).join('\n') + (next < lines.length ? '\n' : '')
+    blocks.push({ type, content, separator: full.substring(content.length) })
+    return next
+  }
+
+  let i = 0
+
+  // 文件开头的空行
+  if (lines.length > 0 && isBlankLine(lines[0])) {
+    i = pushBlock('blank', 0, 0)
+  }
+
+  // front matter 只能出现在文件开头
+  if (i === 0) {
+    const frontMatterEnd = findFrontMatterEnd(lines)
+    if (frontMatterEnd !== -1) {
+      i = pushBlock('frontmatter', 0, frontMatterEnd)
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (FENCE_OPEN_REGEX.test(line)) {
+      i = pushBlock('code', i, findFenceEnd(lines, i))
+      continue
+    }
+
+    if (HEADING_REGEX.test(line)) {
+      i = pushBlock('heading', i, i + 1)
+      continue
+    }
+
+    // 普通段落：直到空行、标题或代码块开始
+    let end = i + 1
+    while (
+      end < lines.length &&
+      !isBlankLine(lines[end]) &&
+      !HEADING_REGEX.test(lines[end]) &&
+      !FENCE_OPEN_REGEX.test(lines[end])
+    ) {
+      end++
+    }
+
+    i = pushBlock(detectParagraphType(lines.slice(i, end)), i, end)
+  }
+
+  return blocks
+}
+
+/**
+ * 将块重新拼接为文本
+ */
+export function joinMarkdownBlocks(blocks: MarkdownBlock[]): string {
+  return blocks.map((block) => block.content + block.separator).join('')
+}
+
+/**
+ * 检查两组块是否结构对齐（数量相同，且标题、代码块、front matter 位置一致）
+ */
+export function areBlocksAligned(source: MarkdownBlock[], translated: MarkdownBlock[]): boolean {
+  if (source.length !== translated.length) return false
+
+  const structuralTypes: MarkdownBlockType[] = ['frontmatter', 'heading', 'code']
+  return source.every((block, index) => {
+    const other = translated[index]
+    if (structuralTypes.includes(block.type) || structuralTypes.includes(other.type)) {
+      return block.type === other.type
+    }
+    return true
+  })
+}